@@ -0,0 +1,168 @@
+/**
+ * Generated by scripts/generate-api-client.mjs from api/openapi.json - do not edit by hand.
+ */
+import type { APIResponse } from '@playwright/test';
+import type {
+  CreateDepartmentCommand,
+  CreateEmployeeCommand,
+  CreateSalaryRangeCommand,
+  DepartmentPagedResponse,
+  DepartmentResponse,
+  EmployeePagedResponse,
+  EmployeeResponse,
+  GetDepartmentsQuery,
+  GetEmployeesQuery,
+  GetSalaryRangesQuery,
+  Int32Response,
+  SalaryRangePagedResponse,
+  SalaryRangeResponse,
+  UpdateDepartmentCommand,
+  UpdateEmployeeCommand,
+  UpdateSalaryRangeCommand,
+} from './models';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+/**
+ * Sends a request to the API; the path is relative to the API base URL
+ */
+export type ApiTransport = (method: HttpMethod, path: string, body?: unknown) => Promise<APIResponse>;
+
+function toQueryString(query: object): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      params.append(name, String(value));
+    }
+  }
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * Typed client for the TalentManagement Web API
+ *
+ * @example
+ * const client = new TalentManagementClient((method, path, body) => send(method, path, body));
+ * const page = await client.getEmployees({ PageNumber: 1, PageSize: 10 });
+ */
+export class TalentManagementClient {
+  constructor(private readonly transport: ApiTransport) {}
+
+  /**
+   * List employees (paged) (GET /employees)
+   */
+  getEmployees(query: GetEmployeesQuery = {}): Promise<EmployeePagedResponse> {
+    return this.send<EmployeePagedResponse>('getEmployees', 'GET', `/employees${toQueryString(query)}`);
+  }
+
+  /**
+   * Create an employee (POST /employees)
+   */
+  createEmployee(body: CreateEmployeeCommand): Promise<Int32Response> {
+    return this.send<Int32Response>('createEmployee', 'POST', `/employees`, body);
+  }
+
+  /**
+   * Get an employee by id (GET /employees/{id})
+   */
+  getEmployeeById(id: number): Promise<EmployeeResponse> {
+    return this.send<EmployeeResponse>('getEmployeeById', 'GET', `/employees/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * Update an employee (PUT /employees/{id})
+   */
+  updateEmployee(id: number, body: UpdateEmployeeCommand): Promise<Int32Response> {
+    return this.send<Int32Response>('updateEmployee', 'PUT', `/employees/${encodeURIComponent(String(id))}`, body);
+  }
+
+  /**
+   * Delete an employee (DELETE /employees/{id})
+   */
+  deleteEmployee(id: number): Promise<Int32Response> {
+    return this.send<Int32Response>('deleteEmployee', 'DELETE', `/employees/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * List departments (paged) (GET /departments)
+   */
+  getDepartments(query: GetDepartmentsQuery = {}): Promise<DepartmentPagedResponse> {
+    return this.send<DepartmentPagedResponse>('getDepartments', 'GET', `/departments${toQueryString(query)}`);
+  }
+
+  /**
+   * Create a department (POST /departments)
+   */
+  createDepartment(body: CreateDepartmentCommand): Promise<Int32Response> {
+    return this.send<Int32Response>('createDepartment', 'POST', `/departments`, body);
+  }
+
+  /**
+   * Get a department by id (GET /departments/{id})
+   */
+  getDepartmentById(id: number): Promise<DepartmentResponse> {
+    return this.send<DepartmentResponse>('getDepartmentById', 'GET', `/departments/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * Update a department (PUT /departments/{id})
+   */
+  updateDepartment(id: number, body: UpdateDepartmentCommand): Promise<Int32Response> {
+    return this.send<Int32Response>('updateDepartment', 'PUT', `/departments/${encodeURIComponent(String(id))}`, body);
+  }
+
+  /**
+   * Delete a department (DELETE /departments/{id})
+   */
+  deleteDepartment(id: number): Promise<Int32Response> {
+    return this.send<Int32Response>('deleteDepartment', 'DELETE', `/departments/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * List salary ranges (paged) (GET /salary-ranges)
+   */
+  getSalaryRanges(query: GetSalaryRangesQuery = {}): Promise<SalaryRangePagedResponse> {
+    return this.send<SalaryRangePagedResponse>('getSalaryRanges', 'GET', `/salary-ranges${toQueryString(query)}`);
+  }
+
+  /**
+   * Create a salary range (POST /salary-ranges)
+   */
+  createSalaryRange(body: CreateSalaryRangeCommand): Promise<Int32Response> {
+    return this.send<Int32Response>('createSalaryRange', 'POST', `/salary-ranges`, body);
+  }
+
+  /**
+   * Get a salary range by id (GET /salary-ranges/{id})
+   */
+  getSalaryRangeById(id: number): Promise<SalaryRangeResponse> {
+    return this.send<SalaryRangeResponse>('getSalaryRangeById', 'GET', `/salary-ranges/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * Update a salary range (PUT /salary-ranges/{id})
+   */
+  updateSalaryRange(id: number, body: UpdateSalaryRangeCommand): Promise<Int32Response> {
+    return this.send<Int32Response>('updateSalaryRange', 'PUT', `/salary-ranges/${encodeURIComponent(String(id))}`, body);
+  }
+
+  /**
+   * Delete a salary range (DELETE /salary-ranges/{id})
+   */
+  deleteSalaryRange(id: number): Promise<Int32Response> {
+    return this.send<Int32Response>('deleteSalaryRange', 'DELETE', `/salary-ranges/${encodeURIComponent(String(id))}`);
+  }
+
+  private async send<T>(operation: string, method: HttpMethod, path: string, body?: unknown): Promise<T> {
+    const response = await this.transport(method, path, body);
+
+    if (!response.ok()) {
+      const errorText = await response.text();
+      throw new Error(`${operation} failed: ${response.status()} - ${errorText}`);
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Generated by scripts/generate-endpoint-types.mjs from config/api-endpoints.json - do not edit by hand.
+ */
+
+/**
+ * Path template of every endpoint, keyed by `group.action`
+ */
+export const API_ENDPOINT_TEMPLATES = {
+  'employees.list': '/employees',
+  'employees.detail': '/employees/{id}',
+  'employees.create': '/employees',
+  'employees.update': '/employees/{id}',
+  'employees.delete': '/employees/{id}',
+  'employees.search': '/employees/search',
+  'departments.list': '/departments',
+  'departments.detail': '/departments/{id}',
+  'departments.create': '/departments',
+  'departments.update': '/departments/{id}',
+  'departments.delete': '/departments/{id}',
+  'departments.search': '/departments/search',
+  'positions.list': '/positions',
+  'positions.detail': '/positions/{id}',
+  'positions.create': '/positions',
+  'positions.update': '/positions/{id}',
+  'positions.delete': '/positions/{id}',
+  'salaryRanges.list': '/salary-ranges',
+  'salaryRanges.detail': '/salary-ranges/{id}',
+  'salaryRanges.create': '/salary-ranges',
+  'salaryRanges.update': '/salary-ranges/{id}',
+  'salaryRanges.delete': '/salary-ranges/{id}',
+  'dashboard.metrics': '/dashboard/metrics',
+  'dashboard.employeeCount': '/dashboard/employee-count',
+  'dashboard.departmentCount': '/dashboard/department-count',
+  'dashboard.positionCount': '/dashboard/position-count',
+  'auth.token': '/connect/token',
+  'auth.userInfo': '/connect/userinfo',
+  'auth.authorize': '/connect/authorize',
+  'auth.logout': '/connect/endsession',
+  'cache.invalidate': '/cache/invalidate',
+  'cache.statistics': '/cache/statistics',
+} as const;
+
+export type EndpointKey = keyof typeof API_ENDPOINT_TEMPLATES;
@@ -0,0 +1,236 @@
+/**
+ * Generated by scripts/generate-api-client.mjs from api/openapi.json - do not edit by hand.
+ */
+
+/** 0 = Male, 1 = Female, 2 = Other */
+export type Gender = 0 | 1 | 2;
+
+export interface Employee {
+  id: number;
+  /** max length 20 */
+  employeeNumber: string;
+  /** max length 100 */
+  firstName: string;
+  /** max length 100 */
+  lastName: string;
+  /** format: email, max length 250 */
+  email: string;
+  /** max length 50 */
+  phoneNumber?: string | null;
+  /** format: date */
+  dateOfBirth: string;
+  gender: Gender;
+  /** format: date */
+  hireDate: string;
+  /** minimum 0 */
+  salary: number;
+  positionId: number;
+  departmentId: number;
+  positionTitle?: string | null;
+  departmentName?: string | null;
+}
+
+export interface CreateEmployeeCommand {
+  /** max length 20 */
+  employeeNumber: string;
+  /** max length 100 */
+  firstName: string;
+  /** max length 100 */
+  lastName: string;
+  /** format: email, max length 250 */
+  email: string;
+  /** max length 50 */
+  phoneNumber?: string | null;
+  /** format: date */
+  dateOfBirth: string;
+  gender: Gender;
+  /** format: date */
+  hireDate: string;
+  /** minimum 0 */
+  salary: number;
+  positionId: number;
+  departmentId: number;
+}
+
+export interface UpdateEmployeeCommand {
+  id: number;
+  /** max length 20 */
+  employeeNumber: string;
+  /** max length 100 */
+  firstName: string;
+  /** max length 100 */
+  lastName: string;
+  /** format: email, max length 250 */
+  email: string;
+  /** max length 50 */
+  phoneNumber?: string | null;
+  /** format: date */
+  dateOfBirth: string;
+  gender: Gender;
+  /** format: date */
+  hireDate: string;
+  /** minimum 0 */
+  salary: number;
+  positionId: number;
+  departmentId: number;
+}
+
+export interface Department {
+  id: number;
+  /** max length 100 */
+  name: string;
+  /** max length 100 */
+  location?: string | null;
+  managerId?: number | null;
+  employeeCount?: number;
+}
+
+export interface CreateDepartmentCommand {
+  /** max length 100 */
+  name: string;
+  /** max length 100 */
+  location?: string | null;
+  managerId?: number | null;
+}
+
+export interface UpdateDepartmentCommand {
+  id: number;
+  /** max length 100 */
+  name: string;
+  /** max length 100 */
+  location?: string | null;
+  managerId?: number | null;
+}
+
+export interface SalaryRange {
+  id: number;
+  /** max length 100 */
+  name: string;
+  /** minimum 0 */
+  minSalary: number;
+  /** minimum 0 */
+  maxSalary: number;
+}
+
+export interface CreateSalaryRangeCommand {
+  /** max length 100 */
+  name: string;
+  /** minimum 0 */
+  minSalary: number;
+  /** minimum 0 */
+  maxSalary: number;
+}
+
+export interface UpdateSalaryRangeCommand {
+  id: number;
+  /** max length 100 */
+  name: string;
+  /** minimum 0 */
+  minSalary: number;
+  /** minimum 0 */
+  maxSalary: number;
+}
+
+export interface Int32Response {
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: number | null;
+}
+
+export interface EmployeeResponse {
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: Employee | null;
+}
+
+export interface EmployeePagedResponse {
+  pageNumber: number;
+  pageSize: number;
+  recordsFiltered: number;
+  recordsTotal: number;
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: Employee[] | null;
+}
+
+export interface DepartmentResponse {
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: Department | null;
+}
+
+export interface DepartmentPagedResponse {
+  pageNumber: number;
+  pageSize: number;
+  recordsFiltered: number;
+  recordsTotal: number;
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: Department[] | null;
+}
+
+export interface SalaryRangeResponse {
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: SalaryRange | null;
+}
+
+export interface SalaryRangePagedResponse {
+  pageNumber: number;
+  pageSize: number;
+  recordsFiltered: number;
+  recordsTotal: number;
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: SalaryRange[] | null;
+}
+
+export interface ProblemDetails {
+  type?: string | null;
+  title?: string | null;
+  status?: number | null;
+  detail?: string | null;
+  instance?: string | null;
+  errors?: Record<string, string[]> | null;
+  [key: string]: unknown;
+}
+
+/** Query parameters of GET /employees */
+export interface GetEmployeesQuery {
+  /** minimum 1 */
+  PageNumber?: number;
+  /** minimum 1, maximum 100 */
+  PageSize?: number;
+  OrderBy?: string;
+  EmployeeNumber?: string;
+  FirstName?: string;
+  LastName?: string;
+  Email?: string;
+}
+
+/** Query parameters of GET /departments */
+export interface GetDepartmentsQuery {
+  /** minimum 1 */
+  PageNumber?: number;
+  /** minimum 1, maximum 100 */
+  PageSize?: number;
+  OrderBy?: string;
+  Name?: string;
+}
+
+/** Query parameters of GET /salary-ranges */
+export interface GetSalaryRangesQuery {
+  /** minimum 1 */
+  PageNumber?: number;
+  /** minimum 1, maximum 100 */
+  PageSize?: number;
+  OrderBy?: string;
+  Name?: string;
+}
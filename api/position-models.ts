@@ -0,0 +1,88 @@
+/**
+ * Position Models
+ *
+ * The position endpoints are not in api/openapi.json yet: the checked-in
+ * document has no position schemas, so these are written by hand from the
+ * fields the Angular position form posts (see page-objects/position-form.page.ts).
+ * Replace them with the generated models once the document is regenerated
+ * from the running API (see api/README.md).
+ */
+
+import type { JsonSchema } from '../utils/schema-validator';
+
+export interface Position {
+  id: number;
+  /** max length 100 */
+  positionTitle: string;
+  /** max length 50 */
+  positionNumber: string;
+  /** max length 500 */
+  positionDescription?: string | null;
+  departmentId: number;
+  salaryRangeId: number;
+}
+
+export interface CreatePositionCommand {
+  /** max length 100 */
+  positionTitle: string;
+  /** max length 50 */
+  positionNumber: string;
+  /** max length 500 */
+  positionDescription?: string | null;
+  departmentId: number;
+  salaryRangeId: number;
+}
+
+export interface UpdatePositionCommand {
+  id: number;
+  /** max length 100 */
+  positionTitle: string;
+  /** max length 50 */
+  positionNumber: string;
+  /** max length 500 */
+  positionDescription?: string | null;
+  departmentId: number;
+  salaryRangeId: number;
+}
+
+export interface PositionPagedResponse {
+  pageNumber: number;
+  pageSize: number;
+  recordsFiltered: number;
+  recordsTotal: number;
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: Position[] | null;
+}
+
+/** Query parameters of GET /positions (paging only; its filters are not known) */
+export interface GetPositionsQuery {
+  /** minimum 1 */
+  PageNumber?: number;
+  /** minimum 1, maximum 100 */
+  PageSize?: number;
+  OrderBy?: string;
+}
+
+const positionFields: Record<string, JsonSchema> = {
+  positionTitle: { type: 'string', maxLength: 100 },
+  positionNumber: { type: 'string', maxLength: 50 },
+  positionDescription: { type: 'string', nullable: true, maxLength: 500 },
+  departmentId: { type: 'integer', format: 'int32' },
+  salaryRangeId: { type: 'integer', format: 'int32' },
+};
+const requiredFields = ['positionTitle', 'positionNumber', 'departmentId', 'salaryRangeId'];
+
+/**
+ * The command models above as schemas, for validating position writes
+ * (see mocks/talent-api.ts)
+ */
+export const POSITION_COMMAND_SCHEMAS: Record<'CreatePositionCommand' | 'UpdatePositionCommand', JsonSchema> = {
+  CreatePositionCommand: { type: 'object', properties: positionFields, required: requiredFields },
+  UpdatePositionCommand: {
+    type: 'object',
+    properties: { id: { type: 'integer', format: 'int32' }, ...positionFields },
+    required: ['id', ...requiredFields],
+  },
+};
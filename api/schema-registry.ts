@@ -0,0 +1,105 @@
+import openapi from './openapi.json';
+import { JsonSchema, SchemaViolation, validateSchema } from '../utils/schema-validator';
+
+/**
+ * Schema Registry
+ *
+ * The API's response contract, taken from the component schemas and operations
+ * in api/openapi.json (the same document the generated client is built from):
+ * - One schema per entity, plus its single (`*Response`) and list
+ *   (`*PagedResponse`) envelope
+ * - The documented 200 response schema of every operation, looked up by
+ *   method and path
+ *
+ * @example
+ * const schemaName = getResponseSchemaName('GET', '/employees/42');   // 'EmployeeResponse'
+ * const violations = validateResponseBody('GET', '/employees/42', await response.json());
+ */
+
+/**
+ * Schemas that make up a resource's contract
+ */
+export interface ResourceSchemas {
+  entity: string;
+  single: string;
+  list: string;
+}
+
+/**
+ * Contract of each resource in config/api-endpoints.json; positions have none
+ * until api/openapi.json documents them (see api/position-models.ts)
+ */
+export const SCHEMA_REGISTRY: Record<'employees' | 'departments' | 'salaryRanges', ResourceSchemas> = {
+  employees: { entity: 'Employee', single: 'EmployeeResponse', list: 'EmployeePagedResponse' },
+  departments: { entity: 'Department', single: 'DepartmentResponse', list: 'DepartmentPagedResponse' },
+  salaryRanges: { entity: 'SalaryRange', single: 'SalaryRangeResponse', list: 'SalaryRangePagedResponse' },
+};
+
+interface OperationContract {
+  method: string;
+  pattern: RegExp;
+  schema: string | null;
+}
+
+const schemas = openapi.components.schemas as Record<string, JsonSchema>;
+
+// Operation paths are relative to the API base URL (https://localhost:44378/api/v1)
+const operations: OperationContract[] = Object.entries(openapi.paths as Record<string, Record<string, any>>).flatMap(
+  ([route, item]) =>
+    Object.entries(item).map(([method, operation]) => {
+      const ref: string | undefined = operation.responses?.['200']?.content?.['application/json']?.schema?.$ref;
+      const template = route.replace(/^\/api\/v\d+/, '');
+      return {
+        method: method.toUpperCase(),
+        pattern: new RegExp(`^${template.replace(/\{(\w+)\}/g, (_, name) => parameterPattern(name, operation))}$`, 'i'),
+        schema: ref ? ref.split('/').pop()! : null,
+      };
+    })
+);
+
+/**
+ * Matches a path parameter's value (integers only match digits, so /employees/search
+ * is not taken for /employees/{id}) or the literal `{name}` of a path template
+ */
+function parameterPattern(name: string, operation: any): string {
+  const parameter = (operation.parameters || []).find((candidate: any) => candidate.in === 'path' && candidate.name === name);
+  const value = parameter?.schema?.type === 'integer' ? '-?\\d+' : '[^/]+';
+  return `(${value}|\\{${name}\\})`;
+}
+
+/**
+ * Get a component schema by name
+ * @param name - Schema name, e.g. 'Employee' or 'EmployeePagedResponse'
+ * @returns The schema
+ */
+export function getSchema(name: string): JsonSchema {
+  const schema = schemas[name];
+  if (!schema) {
+    throw new Error(`Unknown schema: ${name}. Available schemas: ${Object.keys(schemas).join(', ')}`);
+  }
+  return schema;
+}
+
+/**
+ * Get the documented success response schema of an operation
+ * @param method - HTTP method
+ * @param endpoint - Path relative to the API base URL (a query string is ignored)
+ * @returns Schema name, or null when the operation is not documented or has no JSON body
+ */
+export function getResponseSchemaName(method: string, endpoint: string): string | null {
+  const path = endpoint.split('?')[0];
+  const operation = operations.find(candidate => candidate.method === method.toUpperCase() && candidate.pattern.test(path));
+  return operation?.schema ?? null;
+}
+
+/**
+ * Validate a response body against the operation's documented schema
+ * @param method - HTTP method
+ * @param endpoint - Path relative to the API base URL
+ * @param body - Parsed response body
+ * @returns Violations, or null when the operation has no documented schema
+ */
+export function validateResponseBody(method: string, endpoint: string, body: unknown): SchemaViolation[] | null {
+  const schemaName = getResponseSchemaName(method, endpoint);
+  return schemaName ? validateSchema(body, getSchema(schemaName), getSchema) : null;
+}
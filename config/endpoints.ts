@@ -0,0 +1,149 @@
+import apiEndpoints from './api-endpoints.json';
+import { API_ENDPOINT_TEMPLATES, EndpointKey } from '../api/generated/endpoints';
+import { APP_URLS } from './test-config';
+
+/**
+ * Endpoint Resolver
+ *
+ * Builds API paths from the templates in config/api-endpoints.json, so an
+ * endpoint change is a one-line edit there instead of a search through specs.
+ *
+ * Keys are `group.action` (e.g. 'employees.detail'). Keys and the path
+ * parameters each template needs are checked at compile time, using the
+ * literal types in api/generated/endpoints.ts (regenerate it with
+ * `node scripts/generate-endpoint-types.mjs` after editing the JSON).
+ *
+ * @example
+ * endpoint('employees.detail', { id: 42 });                     // '/employees/42'
+ * endpoint('employees.list', {}, { PageNumber: 1, PageSize: 10 }); // '/employees?PageNumber=1&PageSize=10'
+ * endpoint('employees.detail');                                  // compile error: missing { id }
+ * apiUrl('employees.detail', { id: 42 });                        // 'https://localhost:44378/api/v1/employees/42'
+ */
+
+export type { EndpointKey };
+
+/**
+ * Names of the `{name}` placeholders in a path template
+ */
+export type PathParamNames<T extends string> = T extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | PathParamNames<Rest>
+  : never;
+
+/**
+ * Path parameters an endpoint needs
+ */
+export type EndpointParams<K extends EndpointKey> = {
+  [Name in PathParamNames<(typeof API_ENDPOINT_TEMPLATES)[K]>]: string | number;
+};
+
+/**
+ * Arguments after the key: path parameters (required only when the template
+ * has placeholders), then an optional query. For a union of keys (e.g. when
+ * looping over ENDPOINT_KEYS) either form is accepted and missing parameters
+ * are caught at runtime.
+ */
+export type EndpointArgs<K extends EndpointKey> = K extends EndpointKey
+  ? [PathParamNames<(typeof API_ENDPOINT_TEMPLATES)[K]>] extends [never]
+    ? [params?: Record<string, never>, query?: object]
+    : [params: EndpointParams<K>, query?: object]
+  : never;
+
+const templates = flattenEndpoints(apiEndpoints as Record<string, Record<string, string>>);
+assertGeneratedTypesMatch(templates);
+
+/**
+ * Every endpoint key, in api-endpoints.json order
+ */
+export const ENDPOINT_KEYS: readonly EndpointKey[] = Object.keys(templates) as EndpointKey[];
+
+/**
+ * Resolve an endpoint to a path relative to its base URL
+ *
+ * @param key - Endpoint key, `group.action`
+ * @param args - Path parameters, then an optional query (see toQueryString)
+ * @returns Path with parameters filled in and the query appended
+ */
+export function endpoint<K extends EndpointKey>(key: K, ...args: EndpointArgs<K>): string {
+  const [params = {}, query = {}] = args as [Record<string, string | number>?, object?];
+  const template = templates[key];
+
+  const path = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (params[name] === undefined || params[name] === null) {
+      throw new Error(`Missing path parameter "${name}" for ${key} (${template})`);
+    }
+    return encodeURIComponent(String(params[name]));
+  });
+  return `${path}${toQueryString(query)}`;
+}
+
+/**
+ * Resolve an endpoint to a full URL: IdentityServer for the auth group, the
+ * Web API for everything else
+ *
+ * @param key - Endpoint key, `group.action`
+ * @param args - Path parameters, then an optional query
+ * @returns Absolute URL
+ */
+export function apiUrl<K extends EndpointKey>(key: K, ...args: EndpointArgs<K>): string {
+  const baseUrl = key.startsWith('auth.') ? APP_URLS.identityServer : APP_URLS.api;
+  return `${baseUrl}${endpoint(key, ...args)}`;
+}
+
+/**
+ * Path template of an endpoint, e.g. for matching requests
+ *
+ * @param key - Endpoint key, `group.action`
+ * @returns The template from api-endpoints.json, e.g. '/employees/{id}'
+ */
+export function endpointTemplate(key: EndpointKey): string {
+  return templates[key];
+}
+
+/**
+ * Whether a key is in api-endpoints.json (for keys built at runtime)
+ *
+ * @param key - Candidate key, `group.action`
+ */
+export function hasEndpoint(key: string): key is EndpointKey {
+  return key in templates;
+}
+
+/**
+ * Build a query string, skipping undefined and null values
+ *
+ * @param query - Parameter names and values
+ * @returns `?a=1&b=2`, or an empty string when there is nothing to add
+ */
+export function toQueryString(query: object): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      params.append(name, String(value));
+    }
+  }
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+function flattenEndpoints(source: Record<string, Record<string, string>>): Record<EndpointKey, string> {
+  const flattened: Record<string, string> = {};
+  for (const [group, actions] of Object.entries(source)) {
+    for (const [action, template] of Object.entries(actions)) {
+      flattened[`${group}.${action}`] = template;
+    }
+  }
+  return flattened as Record<EndpointKey, string>;
+}
+
+function assertGeneratedTypesMatch(source: Record<string, string>): void {
+  const generated: Record<string, string> = API_ENDPOINT_TEMPLATES;
+  const keys = new Set([...Object.keys(source), ...Object.keys(generated)]);
+  const stale = [...keys].filter(key => source[key] !== generated[key]);
+
+  if (stale.length > 0) {
+    throw new Error(
+      `config/api-endpoints.json and api/generated/endpoints.ts differ (${stale.join(', ')}). ` +
+        'Run: node scripts/generate-endpoint-types.mjs'
+    );
+  }
+}
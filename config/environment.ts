@@ -0,0 +1,132 @@
+import environments from './environments.json';
+
+/**
+ * Environment Profiles
+ *
+ * Loads the environment the suite runs against from config/environments.json.
+ * TEST_ENV picks the profile (default: development):
+ *
+ *   TEST_ENV=staging npx playwright test
+ *
+ * Profiles are validated when loaded; a missing or mistyped key, a malformed
+ * URL, or a key the loader does not know (usually a typo) is an error, so a
+ * bad profile stops the run instead of silently falling back to localhost.
+ *
+ * The selected profile feeds APP_URLS and TIMEOUTS in test-config.ts, and
+ * through them `baseURL` in playwright.config.ts and the API helpers.
+ */
+
+/**
+ * One environment in config/environments.json
+ */
+export interface EnvironmentProfile {
+  /** Angular app, e.g. http://localhost:4200 */
+  angularUrl: string;
+  /** Web API origin, e.g. https://localhost:44378 */
+  apiUrl: string;
+  /** Web API base for versioned endpoints, e.g. https://localhost:44378/api/v1 */
+  apiBaseUrl: string;
+  /** IdentityServer origin */
+  identityServerUrl: string;
+  /** Standard test timeout in milliseconds */
+  timeout: number;
+  description: string;
+}
+
+type ProfileKey = keyof EnvironmentProfile;
+
+const PROFILE_KEYS: Record<ProfileKey, 'url' | 'timeout' | 'text'> = {
+  angularUrl: 'url',
+  apiUrl: 'url',
+  apiBaseUrl: 'url',
+  identityServerUrl: 'url',
+  timeout: 'timeout',
+  description: 'text',
+};
+
+export const DEFAULT_ENVIRONMENT = 'development';
+
+/**
+ * Validate a profile from environments.json
+ *
+ * @param name - Profile name, for error messages
+ * @param value - Profile as read from the file
+ * @returns The profile
+ * @throws Error listing every problem with the profile
+ */
+export function validateEnvironmentProfile(name: string, value: unknown): EnvironmentProfile {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Environment "${name}" in config/environments.json must be an object`);
+  }
+
+  const profile = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const key of Object.keys(profile)) {
+    if (!(key in PROFILE_KEYS)) {
+      problems.push(`unknown key "${key}" (known keys: ${Object.keys(PROFILE_KEYS).join(', ')})`);
+    }
+  }
+
+  for (const [key, kind] of Object.entries(PROFILE_KEYS)) {
+    const field = profile[key];
+    if (field === undefined) {
+      problems.push(`missing "${key}"`);
+    } else if (kind === 'timeout') {
+      if (!Number.isInteger(field) || (field as number) <= 0) {
+        problems.push(`"${key}" must be a positive whole number of milliseconds, got ${JSON.stringify(field)}`);
+      }
+    } else if (typeof field !== 'string') {
+      problems.push(`"${key}" must be a string, got ${JSON.stringify(field)}`);
+    } else if (kind === 'url' && !isHttpUrl(field)) {
+      problems.push(`"${key}" must be an http(s) URL, got ${JSON.stringify(field)}`);
+    }
+  }
+
+  if (problems.length === 0 && !(profile.apiBaseUrl as string).startsWith(profile.apiUrl as string)) {
+    problems.push(`"apiBaseUrl" (${profile.apiBaseUrl}) must be under "apiUrl" (${profile.apiUrl})`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid environment "${name}" in config/environments.json:\n- ${problems.join('\n- ')}`);
+  }
+  return profile as unknown as EnvironmentProfile;
+}
+
+/**
+ * Load an environment profile
+ *
+ * @param name - Profile name (defaults to TEST_ENV, then 'development')
+ * @returns The validated profile
+ * @throws Error if the profile does not exist or is invalid
+ *
+ * @example
+ * const { apiBaseUrl, timeout } = loadEnvironment('staging');
+ */
+export function loadEnvironment(name = getEnvironmentName()): EnvironmentProfile {
+  const profiles = environments as Record<string, unknown>;
+  if (!(name in profiles)) {
+    throw new Error(`Unknown TEST_ENV "${name}". Environments in config/environments.json: ${Object.keys(profiles).join(', ')}`);
+  }
+  return validateEnvironmentProfile(name, profiles[name]);
+}
+
+/**
+ * Name of the selected environment (TEST_ENV, default 'development')
+ */
+export function getEnvironmentName(): string {
+  return process.env.TEST_ENV || DEFAULT_ENVIRONMENT;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The selected environment, loaded once per process
+ */
+export const ENVIRONMENT: EnvironmentProfile = loadEnvironment();
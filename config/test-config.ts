@@ -1,31 +1,46 @@
+import { ENVIRONMENT } from './environment';
+
 /**
  * Centralized Test Configuration
  *
  * This file contains all configurable settings used across test suites.
  * Modify these values in one place to affect all tests.
+ *
+ * URLs and the standard timeout come from the environment profile selected
+ * with TEST_ENV (see environment.ts and environments.json).
  */
 
 /**
- * Application URLs
+ * Application URLs of the selected environment
+ *
+ * IDENTITY_SERVER_URL overrides the IdentityServer location (set by
+ * global-setup.ts when the local OIDC stub is enabled with OIDC_STUB=true).
+ * API_BASE_URL does the same for the Web API (set when the in-memory API is
+ * enabled with MOCK_API=true). Both are read on access, so code running in
+ * global setup after the stubs started sees them too.
  */
 export const APP_URLS = {
-  angular: 'http://localhost:4200',
-  api: 'https://localhost:44378/api/v1',
-  identityServer: 'https://localhost:44310',
+  angular: ENVIRONMENT.angularUrl,
+  get api(): string {
+    return process.env.API_BASE_URL || ENVIRONMENT.apiBaseUrl;
+  },
+  get identityServer(): string {
+    return process.env.IDENTITY_SERVER_URL || ENVIRONMENT.identityServerUrl;
+  },
 } as const;
 
 /**
  * Test Timeouts (in milliseconds)
  */
 export const TIMEOUTS = {
-  // Standard timeout for most operations
-  standard: 30000,
+  // Standard timeout for most operations (the environment's timeout)
+  standard: ENVIRONMENT.timeout,
 
   // Short timeout for quick checks
   short: 5000,
 
   // Long timeout for slow operations (e.g., large dataset loading)
-  long: 60000,
+  long: ENVIRONMENT.timeout * 2,
 
   // Wait after page navigation
   afterNavigation: 1000,
@@ -158,6 +173,32 @@ export const PERFORMANCE = {
 
   // Maximum scroll time in ms
   maxScrollTime: 1000,
+
+  // API under load (tests/api/load.spec.ts): latency of one scenario
+  // iteration in ms, share of failed iterations, iterations per second
+  apiLoad: {
+    p50Ms: 300,
+    p95Ms: 1000,
+    p99Ms: 2000,
+    maxErrorRate: 0.01,
+    minThroughput: 10,
+  },
+} as const;
+
+/**
+ * API Load Test Settings
+ *
+ * tests/api/load.spec.ts only runs with LOAD_TEST=true; LOAD_VUS and
+ * LOAD_DURATION_MS size the run.
+ */
+export const LOAD_TEST = {
+  enabled: process.env.LOAD_TEST === 'true',
+
+  // Virtual users, each running one scenario after another
+  virtualUsers: Number(process.env.LOAD_VUS) || 10,
+
+  // How long the virtual users keep starting scenarios, in ms
+  durationMs: Number(process.env.LOAD_DURATION_MS) || 30000,
 } as const;
 
 /**
@@ -0,0 +1,158 @@
+import testUsers from './test-users.json';
+
+/**
+ * Test User Registry
+ *
+ * Single source of truth for the users the suite authenticates as, shared by
+ * the browser login helpers, the API token helpers and the OIDC stub.
+ *
+ * Users come from config/test-users.json. A role maps to one user object or
+ * to an array of users; the first one is the role's primary user.
+ *
+ * Environment variables override the primary user of a role, e.g. to run
+ * against an environment with different accounts:
+ * - TEST_USER_<ROLE>_USERNAME (e.g. TEST_USER_MANAGER_USERNAME)
+ * - TEST_USER_<ROLE>_PASSWORD
+ * - TEST_USER_<ROLE>_EMAIL
+ */
+
+/**
+ * Application roles with predefined test users
+ */
+export type Role = 'employee' | 'manager' | 'hradmin';
+
+export const ROLES: readonly Role[] = ['employee', 'manager', 'hradmin'] as const;
+
+/**
+ * API permissions granted to a role
+ */
+export type Permission = 'read' | 'write' | 'delete' | 'admin';
+
+/**
+ * Application modules that can be restricted per role
+ */
+export type AppModule = 'employees' | 'departments' | 'positions' | 'salaryRanges';
+
+/**
+ * A test user account
+ */
+export interface TestUser {
+  role: Role;
+  username: string;
+  password: string;
+  email: string;
+  /** Role name as issued by IdentityServer (e.g. 'HRAdmin') */
+  roleName: string;
+  /** All role claims the user carries */
+  roles: string[];
+  permissions: Permission[];
+  description: string;
+  canCreate: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  restrictedModules: AppModule[];
+}
+
+type TestUserEntry = Omit<TestUser, 'role' | 'roleName' | 'restrictedModules' | 'permissions'> & {
+  role: string;
+  permissions: string[];
+  restrictedModules?: string[];
+};
+
+/**
+ * Type guard for role names
+ */
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Builds the registry from test-users.json plus environment overrides
+ */
+function buildRegistry(): Record<Role, TestUser[]> {
+  const source = testUsers as Record<string, TestUserEntry | TestUserEntry[]>;
+
+  const unknownRoles = Object.keys(source).filter(key => !isRole(key));
+  if (unknownRoles.length > 0) {
+    throw new Error(`Unknown role(s) in test-users.json: ${unknownRoles.join(', ')}. Valid roles: ${ROLES.join(', ')}`);
+  }
+
+  const registry = {} as Record<Role, TestUser[]>;
+
+  for (const role of ROLES) {
+    const entries = source[role];
+    if (!entries) {
+      throw new Error(`No test user defined for role: ${role}`);
+    }
+
+    registry[role] = (Array.isArray(entries) ? entries : [entries]).map(entry => ({
+      ...entry,
+      role,
+      roleName: entry.role,
+      permissions: entry.permissions as Permission[],
+      restrictedModules: (entry.restrictedModules ?? []) as AppModule[],
+    }));
+
+    const prefix = `TEST_USER_${role.toUpperCase()}`;
+    const primary = registry[role][0];
+    primary.username = process.env[`${prefix}_USERNAME`] || primary.username;
+    primary.password = process.env[`${prefix}_PASSWORD`] || primary.password;
+    primary.email = process.env[`${prefix}_EMAIL`] || primary.email;
+  }
+
+  return registry;
+}
+
+const registry = buildRegistry();
+
+/**
+ * Gets a test user for a role
+ *
+ * @param role - User role
+ * @param index - Which of the role's users to return (defaults to the primary user)
+ * @returns Test user record
+ *
+ * @example
+ * const { username, password } = getUser('manager');
+ */
+export function getUser(role: Role, index = 0): TestUser {
+  if (!isRole(role)) {
+    throw new Error(`Unknown role: ${role}. Valid roles: ${ROLES.join(', ')}`);
+  }
+
+  const user = registry[role][index];
+  if (!user) {
+    throw new Error(`Role ${role} has ${registry[role].length} user(s), no user at index ${index}`);
+  }
+  return user;
+}
+
+/**
+ * Gets every test user for a role
+ *
+ * @param role - User role
+ * @returns Test users in the order they are defined
+ */
+export function getUsers(role: Role): TestUser[] {
+  return [...registry[role]];
+}
+
+/**
+ * Gets every test user across all roles
+ *
+ * @returns All test users, primary users first within each role
+ */
+export function getAllUsers(): TestUser[] {
+  return ROLES.flatMap(role => registry[role]);
+}
+
+/**
+ * Finds a test user by username (case-insensitive)
+ *
+ * @param username - Username to look up
+ * @returns Matching test user, or undefined
+ */
+export function findUserByUsername(username: string): TestUser | undefined {
+  const normalized = username.toLowerCase();
+  return getAllUsers().find(user => user.username.toLowerCase() === normalized);
+}
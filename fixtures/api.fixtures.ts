@@ -1,7 +1,50 @@
-import { APIRequestContext, Page, Browser, chromium } from '@playwright/test';
-import type { EmployeeData, DepartmentData } from './data.fixtures';
-import { loginAsRole, getTokenFromProfile } from './auth.fixtures';
-import testUsers from '../config/test-users.json';
+import { test, APIRequestContext, APIResponse } from '@playwright/test';
+import { EventEmitter } from 'events';
+import type { EmployeeData } from './data.fixtures';
+import { TalentManagementClient, HttpMethod } from '../api/generated/client';
+import type {
+  CreateDepartmentCommand,
+  CreateEmployeeCommand,
+  CreateSalaryRangeCommand,
+  Department,
+  DepartmentPagedResponse,
+  Employee,
+  EmployeePagedResponse,
+  GetDepartmentsQuery,
+  GetEmployeesQuery,
+  GetSalaryRangesQuery,
+  SalaryRange,
+  SalaryRangePagedResponse,
+  UpdateDepartmentCommand,
+  UpdateEmployeeCommand,
+  UpdateSalaryRangeCommand,
+} from '../api/generated/models';
+import type {
+  CreatePositionCommand,
+  GetPositionsQuery,
+  Position,
+  PositionPagedResponse,
+  UpdatePositionCommand,
+} from '../api/position-models';
+import { EndpointKey, endpoint, endpointTemplate, hasEndpoint } from '../config/endpoints';
+import { APP_URLS, TIMEOUTS } from '../config/test-config';
+import { AUTH_CODE_CLIENT, getTokenWithAuthCode } from './auth.fixtures';
+import { Role, findUserByUsername, getUser } from '../config/user-registry';
+import { getIssuerKeyId, getTokenExpiration, isTokenExpired, parseToken, refreshToken } from '../utils/token-manager';
+import { tokenCacheKey, getOrAcquirePersistedToken } from '../utils/token-cache';
+import { PagedResponse, PageFetcher } from '../utils/paged-response';
+import { formatViolations } from '../utils/schema-validator';
+import { validateResponseBody } from '../api/schema-registry';
+import {
+  RequestAttempt,
+  createPipeline,
+  withAttemptLog,
+  withBearerToken,
+  withRetry,
+  withRetryAfter,
+  withTimeout,
+} from '../utils/request-pipeline';
+import { TrafficEntry, withTrafficCapture } from '../utils/traffic-capture';
 
 /**
  * API Fixtures
@@ -10,19 +53,56 @@ import testUsers from '../config/test-users.json';
  * - Creating resources via API
  * - Deleting resources for test cleanup
  * - Making authenticated API requests
+ * - Typed API client generated from the API's OpenAPI document (api/generated)
+ * - Generic resource client for employees, departments, positions and salary ranges
+ * - Contract check of every response body against api/openapi.json
+ * - 'created' events for records created through the API (see teardown.fixtures.ts)
+ * - Timeouts, retries, 429 handling and 401 token refresh (see utils/request-pipeline.ts)
  * - Token acquisition for roles
  */
 
-const API_BASE_URL = 'https://localhost:44378/api/v1';
+// Timeout of a single attempt
+const API_TIMEOUT_MS = TIMEOUTS.standard;
 
 /**
- * Gets an access token for a specific role using browser-based authentication
+ * Payload of the 'created' event on `apiEvents`
+ */
+export interface CreatedRecordEvent {
+  resource: ResourceName;
+  id: number;
+}
+
+/**
+ * Events emitted on `apiEvents` by makeAuthenticatedRequest:
+ * - 'created' - record created by a POST (CreatedRecordEvent)
+ * - 'attempt' - attempt that reached the network (RequestAttempt)
+ * - 'exchange' - request and response of that attempt, redacted (TrafficEntry)
+ */
+export const apiEvents = new EventEmitter();
+
+/**
+ * Options of a single API call
+ */
+export interface RequestOptions {
+  /** Timeout of one attempt in milliseconds (default TIMEOUTS.standard) */
+  timeout?: number;
+  /** Retries for idempotent methods on network errors, timeouts and 502/503/504 (default 2) */
+  retries?: number;
+  /** Get a new token and replay once on 401 (default true; turn off for negative auth tests) */
+  refreshOn401?: boolean;
+}
+
+/**
+ * Gets an access token for a specific role without a browser
  *
- * Creates a temporary browser session, logs in as the specified role,
- * extracts the access token from the profile page, and returns it.
+ * Signs in with the authorization code + PKCE flow (the password grant is
+ * not enabled for this client in IdentityServer). Tokens are shared across
+ * workers through the persistent token cache, so each role signs in at most
+ * once per run.
  *
- * @param request - Playwright APIRequestContext (not used but kept for API compatibility)
+ * @param request - Playwright APIRequestContext (used to fetch the issuer's signing keys)
  * @param role - User role ('employee', 'manager', or 'hradmin')
+ * @param rejectedToken - Token the API refused; a cached copy of it is not reused
  * @returns Promise resolving to access token string
  *
  * @example
@@ -31,32 +111,56 @@ const API_BASE_URL = 'https://localhost:44378/api/v1';
  */
 export async function getTokenForRole(
   request: APIRequestContext,
-  role: 'employee' | 'manager' | 'hradmin'
+  role: Role,
+  rejectedToken?: string
 ): Promise<string> {
-  // Launch a temporary browser to get the token
-  const browser = await chromium.launch();
-  const context = await browser.newContext({
-    ignoreHTTPSErrors: true,
+  const user = getUser(role);
+  const key = tokenCacheKey({
+    username: user.username,
+    scope: AUTH_CODE_CLIENT.scope,
+    keyId: await getIssuerKeyId(request),
   });
-  const page = await context.newPage();
 
-  try {
-    // Login as the specified role
-    await loginAsRole(page, role);
+  const entry = await getOrAcquirePersistedToken(
+    key,
+    cached => cached.token !== rejectedToken && !isTokenExpired(cached.token),
+    async () => {
+      const tokens = await getTokenWithAuthCode(user.username, user.password);
+      return {
+        username: user.username,
+        token: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        expiresAt: getTokenExpiration(tokens.access_token) ?? Date.now() + tokens.expires_in * 1000,
+      };
+    }
+  );
 
-    // Extract token from profile page
-    const token = await getTokenFromProfile(page);
+  return entry.token;
+}
 
-    if (!token) {
-      throw new Error(`Failed to extract token for role: ${role}`);
-    }
+/**
+ * Gets a new token for a token the API rejected with 401
+ *
+ * Renews it through the token manager (refresh_token grant with the refresh
+ * token persisted for the user), which only signs in again when that fails.
+ *
+ * @param request - Playwright APIRequestContext
+ * @param rejectedToken - Token the API refused
+ * @returns New token for the same role, or null if the token's user is not a registry user
+ */
+async function renewRejectedToken(request: APIRequestContext, rejectedToken: string): Promise<string | null> {
+  let payload: any;
+  try {
+    payload = parseToken(rejectedToken);
+  } catch {
+    return null; // Not a JWT
+  }
 
-    return token;
-  } finally {
-    // Always clean up the browser
-    await context.close();
-    await browser.close();
+  const user = findUserByUsername(payload.preferred_username || payload.name || '');
+  if (!user || getUser(user.role).username !== user.username) {
+    return null; // Tokens are only cached for the role's primary user
   }
+  return refreshToken(request, rejectedToken);
 }
 
 /**
@@ -67,76 +171,397 @@ export async function getTokenForRole(
  * @param method - HTTP method
  * @param endpoint - API endpoint (relative to base URL)
  * @param data - Request body data (optional)
+ * @param options - Timeout, retries and 401 handling (optional)
  * @returns Promise resolving to API response
+ *
+ * The request goes through the pipeline in utils/request-pipeline.ts: each
+ * attempt has a timeout, idempotent methods are retried with backoff on
+ * network errors and gateway errors, 429 waits for Retry-After, and a 401 gets
+ * a new token and is replayed once. Every attempt is emitted as 'attempt' on
+ * `apiEvents`, along with its redacted request and response as 'exchange'.
+ *
+ * Successful response bodies are validated against the operation's schema in
+ * api/openapi.json; violations are attached to the running test's report.
+ * Successful creates emit 'created' on `apiEvents`.
  */
-async function makeAuthenticatedRequest(
+export async function makeAuthenticatedRequest(
   request: APIRequestContext,
   token: string,
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  method: HttpMethod,
   endpoint: string,
-  data?: any
-) {
-  const url = `${API_BASE_URL}${endpoint}`;
-
-  const options: any = {
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    ignoreHTTPSErrors: true,
-  };
+  data?: any,
+  options: RequestOptions = {}
+): Promise<APIResponse> {
+  const send = createPipeline(
+    [
+      withTimeout(options.timeout ?? API_TIMEOUT_MS),
+      withRetryAfter(),
+      withRetry({ retries: options.retries ?? 2 }),
+      withBearerToken(token, options.refreshOn401 === false ? undefined : rejected => renewRejectedToken(request, rejected)),
+      withAttemptLog(attempt => apiEvents.emit('attempt', attempt as RequestAttempt)),
+      withTrafficCapture(entry => apiEvents.emit('exchange', entry as TrafficEntry)),
+    ],
+    attempt =>
+      request.fetch(attempt.url, {
+        method: attempt.method,
+        headers: attempt.headers,
+        data: attempt.data,
+        timeout: attempt.timeout,
+        ignoreHTTPSErrors: true,
+      })
+  );
+
+  const response = await send({
+    method,
+    url: `${APP_URLS.api}${endpoint}`,
+    headers: { 'Content-Type': 'application/json' },
+    data: data || undefined,
+  });
+  await checkResponseContract(method, endpoint, response);
+  await emitCreated(method, endpoint, response);
+  return response;
+}
+
+/**
+ * Finds the resource a create request is for
+ *
+ * Paths are compared without case and dashes: the Angular app calls
+ * /SalaryRanges where config/api-endpoints.json has /salary-ranges.
+ *
+ * @param method - HTTP method
+ * @param url - Endpoint relative to the API base URL, or a full API URL
+ * @returns The resource, or null if the request does not create a record
+ *
+ * @example
+ * getCreatedResource('POST', 'https://localhost:44378/api/v1/SalaryRanges'); // 'salaryRanges'
+ */
+export function getCreatedResource(method: string, url: string): ResourceName | null {
+  if (method.toUpperCase() !== 'POST') {
+    return null;
+  }
+
+  const normalize = (path: string) => path.toLowerCase().replace(/-/g, '').replace(/\/$/, '');
+  const path = normalize(url.replace(/^https?:\/\/[^/]+/, '').split('?')[0].replace(/^\/api\/v\d+/i, ''));
+  return RESOURCE_NAMES.find(resource => normalize(endpointTemplate(`${resource}.create`)) === path) ?? null;
+}
+
+/**
+ * Emits 'created' for a successful create (the API returns the new ID as data)
+ */
+async function emitCreated(method: HttpMethod, endpoint: string, response: APIResponse): Promise<void> {
+  const resource = getCreatedResource(method, endpoint);
+  if (!resource || !response.ok()) {
+    return;
+  }
+
+  const body = await response.json().catch(() => null);
+  if (typeof body?.data === 'number') {
+    apiEvents.emit('created', { resource, id: body.data } as CreatedRecordEvent);
+  }
+}
+
+/**
+ * Validates a successful response body against the API contract and attaches
+ * any violations to the running test (outside a test they are ignored)
+ *
+ * @param method - HTTP method
+ * @param endpoint - API endpoint (relative to base URL)
+ * @param response - Response to check
+ */
+async function checkResponseContract(method: HttpMethod, endpoint: string, response: APIResponse): Promise<void> {
+  if (!response.ok()) {
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await response.text());
+  } catch {
+    return; // No JSON body to check
+  }
+
+  const violations = validateResponseBody(method, endpoint, body);
+  if (!violations || violations.length === 0) {
+    return;
+  }
+
+  let testInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    return; // Not called from a test
+  }
+  await testInfo.attach(`contract-violations-${method}-${endpoint}`, {
+    body: `${method} ${endpoint}\n${formatViolations(violations)}`,
+    contentType: 'text/plain',
+  });
+}
+
+/**
+ * Creates the typed API client (generated from api/openapi.json) for a token
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token for authorization
+ * @returns Client whose requests go through makeAuthenticatedRequest
+ *
+ * @example
+ * const api = createApiClient(request, token);
+ * const { data: employees } = await api.getEmployees({ PageNumber: 1, PageSize: 10 });
+ */
+export function createApiClient(request: APIRequestContext, token: string): TalentManagementClient {
+  return new TalentManagementClient((method, endpoint, body) =>
+    makeAuthenticatedRequest(request, token, method, endpoint, body)
+  );
+}
+
+/**
+ * Returns the data of a successful API envelope
+ *
+ * @param response - Response envelope ({ succeeded, message, errors, data })
+ * @param operation - Operation name for the error message
+ * @returns The envelope's data
+ */
+function unwrap<T>(
+  response: { succeeded: boolean; message?: string | null; errors?: string[] | null; data?: T | null },
+  operation: string
+): T {
+  if (!response.succeeded || response.data === null || response.data === undefined) {
+    const reason = response.errors?.join('; ') || response.message || 'no data returned';
+    throw new Error(`Failed to ${operation}: ${reason}`);
+  }
+  return response.data;
+}
+
+/**
+ * Models of each API resource
+ */
+export interface ResourceTypes {
+  employees: { entity: Employee; create: CreateEmployeeCommand; update: UpdateEmployeeCommand; query: GetEmployeesQuery; page: EmployeePagedResponse };
+  departments: { entity: Department; create: CreateDepartmentCommand; update: UpdateDepartmentCommand; query: GetDepartmentsQuery; page: DepartmentPagedResponse };
+  positions: { entity: Position; create: CreatePositionCommand; update: UpdatePositionCommand; query: GetPositionsQuery; page: PositionPagedResponse };
+  salaryRanges: { entity: SalaryRange; create: CreateSalaryRangeCommand; update: UpdateSalaryRangeCommand; query: GetSalaryRangesQuery; page: SalaryRangePagedResponse };
+}
+
+export type ResourceName = keyof ResourceTypes;
+
+export const RESOURCE_NAMES: readonly ResourceName[] = ['employees', 'departments', 'positions', 'salaryRanges'] as const;
+
+/**
+ * Endpoints of a resource in config/api-endpoints.json (`<resource>.<action>`)
+ */
+type ResourceAction = 'list' | 'detail' | 'create' | 'update' | 'delete' | 'search';
+
+const RESOURCE_DEFINITIONS: Record<ResourceName, { label: string; readOnly: string[] }> = {
+  employees: { label: 'employee', readOnly: ['positionTitle', 'departmentName'] },
+  departments: { label: 'department', readOnly: ['employeeCount'] },
+  positions: { label: 'position', readOnly: [] },
+  salaryRanges: { label: 'salary range', readOnly: [] },
+};
+
+/**
+ * Fields the API derives from other records (e.g. a department's employeeCount)
+ * and ignores on create and update
+ *
+ * @param resource - API resource
+ * @returns Field names
+ */
+export function getReadOnlyFields(resource: ResourceName): readonly string[] {
+  return RESOURCE_DEFINITIONS[resource].readOnly;
+}
+
+/**
+ * CRUD client for one API resource, with paths from config/api-endpoints.json
+ *
+ * @example
+ * const positions = new ResourceClient(request, token, 'positions');
+ * const position = await positions.create(createPositionData());
+ * await positions.update(position.id, { positionTitle: 'Renamed' });
+ * await positions.delete(position.id);
+ */
+export class ResourceClient<K extends ResourceName> {
+  private readonly label: string;
+
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly token: string,
+    readonly resource: K
+  ) {
+    this.label = RESOURCE_DEFINITIONS[resource].label;
+  }
+
+  /**
+   * Gets one page of the resource
+   * @param query - Paging, sorting and filter parameters
+   * @returns Paged response envelope
+   */
+  async list(query: ResourceTypes[K]['query'] = {}): Promise<ResourceTypes[K]['page']> {
+    return this.send('GET', this.path('list', {}, query), `list ${this.label}s`);
+  }
+
+  /**
+   * Gets a page of the resource that can walk the pages after it
+   * @param query - Filter parameters; PageNumber (default 1) and PageSize (default 10) pick the starting page
+   * @returns The page, with the pagination metadata the API reported
+   *
+   * @example
+   * const employees = await api.employees.listPages({ PageSize: 25 });
+   * for await (const employee of employees) {
+   *   // every employee, checked for duplicates and gaps between pages
+   * }
+   */
+  async listPages(query: ResourceTypes[K]['query'] = {}): Promise<PagedResponse<ResourceTypes[K]['entity']>> {
+    const fetchPage: PageFetcher<ResourceTypes[K]['entity']> = (PageNumber, PageSize) =>
+      this.send('GET', this.path('list', {}, { ...query, PageNumber, PageSize }), `list ${this.label}s`);
+    return new PagedResponse(await fetchPage(query.PageNumber ?? 1, query.PageSize ?? 10), fetchPage);
+  }
+
+  /**
+   * Gets a record by ID
+   * @param id - Record ID
+   * @returns The record
+   */
+  async get(id: number): Promise<ResourceTypes[K]['entity']> {
+    return unwrap(await this.send('GET', this.path('detail', { id }), `get ${this.label}`), `get ${this.label}`);
+  }
+
+  /**
+   * Creates a record
+   * @param data - Request body (see the create*Data factories in data.fixtures.ts)
+   * @returns The created record, as returned by the API
+   */
+  async create(data: ResourceTypes[K]['create']): Promise<ResourceTypes[K]['entity']> {
+    return this.get(await this.createId(data));
+  }
+
+  /**
+   * Creates a record without reading it back (for bulk inserts)
+   * @param data - Request body
+   * @returns ID of the created record
+   */
+  async createId(data: ResourceTypes[K]['create']): Promise<number> {
+    return unwrap<number>(await this.send('POST', this.path('create'), `create ${this.label}`, data), `create ${this.label}`);
+  }
+
+  /**
+   * Updates a record; the API replaces the whole record, so the changes are
+   * merged into its current data first
+   * @param id - Record ID
+   * @param changes - Fields to change
+   * @returns The updated record
+   */
+  async update(id: number, changes: Partial<ResourceTypes[K]['create']>): Promise<ResourceTypes[K]['entity']> {
+    const current: Record<string, unknown> = { ...(await this.get(id) as object) };
+    for (const field of RESOURCE_DEFINITIONS[this.resource].readOnly) {
+      delete current[field];
+    }
+
+    const body = { ...current, ...changes, id };
+    unwrap(await this.send('PUT', this.path('update', { id }), `update ${this.label}`, body), `update ${this.label}`);
+    return this.get(id);
+  }
+
+  /**
+   * Deletes a record (a record that is already gone is not an error)
+   * @param id - Record ID
+   */
+  async delete(id: number): Promise<void> {
+    const response = await makeAuthenticatedRequest(this.request, this.token, 'DELETE', this.path('delete', { id }));
+
+    if (!response.ok() && response.status() !== 404) {
+      const errorText = await response.text();
+      throw new Error(`Failed to delete ${this.label}: ${response.status()} - ${errorText}`);
+    }
+  }
+
+  /**
+   * Searches the resource (falls back to the filtered list for resources
+   * without a search endpoint)
+   * @param query - Filter parameters
+   * @returns Matching records
+   */
+  async search(query: ResourceTypes[K]['query']): Promise<ResourceTypes[K]['entity'][]> {
+    const action = hasEndpoint(`${this.resource}.search`) ? 'search' : 'list';
+    const page = await this.send<ResourceTypes[K]['page']>('GET', this.path(action, {}, query), `search ${this.label}s`);
+    return (page.data ?? []) as ResourceTypes[K]['entity'][];
+  }
+
+  /**
+   * Deletes several records, ignoring failures (for test cleanup)
+   * @param ids - Record IDs
+   */
+  async deleteAll(ids: number[]): Promise<void> {
+    await Promise.all(
+      ids.map(id => this.delete(id).catch(() => {
+        // Ignore errors during cleanup
+      }))
+    );
+  }
 
-  if (data) {
-    options.data = data;
+  private path(action: ResourceAction, params: { id?: number } = {}, query: object = {}): string {
+    // The key is only known at runtime, so it cannot pick its parameter type
+    const resolve = endpoint as (key: EndpointKey, params: object, query: object) => string;
+    return resolve(`${this.resource}.${action}` as EndpointKey, params, query);
   }
 
-  switch (method) {
-    case 'GET':
-      return await request.get(url, options);
-    case 'POST':
-      return await request.post(url, options);
-    case 'PUT':
-      return await request.put(url, options);
-    case 'DELETE':
-      return await request.delete(url, options);
+  private async send<T = any>(method: HttpMethod, endpoint: string, operation: string, data?: unknown): Promise<T> {
+    const response = await makeAuthenticatedRequest(this.request, this.token, method, endpoint, data);
+
+    if (!response.ok()) {
+      const errorText = await response.text();
+      throw new Error(`Failed to ${operation}: ${response.status()} - ${errorText}`);
+    }
+
+    return response.json();
   }
 }
 
+/**
+ * One resource client per API resource
+ */
+export type ResourceClients = { [K in ResourceName]: ResourceClient<K> };
+
+/**
+ * Creates resource clients for all four entities
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token for authorization
+ * @returns One ResourceClient per resource
+ *
+ * @example
+ * const api = getResourceClients(request, await getTokenForRole(request, 'hradmin'));
+ * const range = await api.salaryRanges.create(createSalaryRangeData());
+ * const position = await api.positions.create(createPositionData({ salaryRangeId: range.id }));
+ */
+export function getResourceClients(request: APIRequestContext, token: string): ResourceClients {
+  return {
+    employees: new ResourceClient(request, token, 'employees'),
+    departments: new ResourceClient(request, token, 'departments'),
+    positions: new ResourceClient(request, token, 'positions'),
+    salaryRanges: new ResourceClient(request, token, 'salaryRanges'),
+  };
+}
+
 /**
  * Creates an employee via API
  *
  * @param request - Playwright APIRequestContext
  * @param token - Bearer token (must have write permission)
- * @param data - Employee data
+ * @param data - Employee data (see createEmployeeData)
  * @returns Promise resolving to created employee (with ID)
  *
  * @example
- * const employee = await createEmployee(request, token, {
+ * const employee = await createEmployee(request, token, createEmployeeData({
  *   firstName: 'John',
- *   lastName: 'Doe',
- *   email: 'john.doe@example.com'
- * });
+ *   lastName: 'Doe'
+ * }));
  */
 export async function createEmployee(
   request: APIRequestContext,
   token: string,
-  data: EmployeeData
-): Promise<any> {
-  const response = await makeAuthenticatedRequest(
-    request,
-    token,
-    'POST',
-    '/employees',
-    data
-  );
-
-  if (!response.ok()) {
-    const errorText = await response.text();
-    throw new Error(`Failed to create employee: ${response.status()} - ${errorText}`);
-  }
-
-  const result = await response.json();
-  return result.data || result;
+  data: CreateEmployeeCommand
+): Promise<Employee> {
+  const id = unwrap(await createApiClient(request, token).createEmployee(data), 'create employee');
+  return getEmployee(request, token, id);
 }
 
 /**
@@ -155,17 +580,7 @@ export async function deleteEmployee(
   token: string,
   id: number
 ): Promise<void> {
-  const response = await makeAuthenticatedRequest(
-    request,
-    token,
-    'DELETE',
-    `/employees/${id}`
-  );
-
-  if (!response.ok() && response.status() !== 404) {
-    const errorText = await response.text();
-    throw new Error(`Failed to delete employee: ${response.status()} - ${errorText}`);
-  }
+  await new ResourceClient(request, token, 'employees').delete(id);
 }
 
 /**
@@ -180,21 +595,8 @@ export async function getEmployee(
   request: APIRequestContext,
   token: string,
   id: number
-): Promise<any> {
-  const response = await makeAuthenticatedRequest(
-    request,
-    token,
-    'GET',
-    `/employees/${id}`
-  );
-
-  if (!response.ok()) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get employee: ${response.status()} - ${errorText}`);
-  }
-
-  const result = await response.json();
-  return result.data || result;
+): Promise<Employee> {
+  return unwrap(await createApiClient(request, token).getEmployeeById(id), 'get employee');
 }
 
 /**
@@ -202,35 +604,23 @@ export async function getEmployee(
  *
  * @param request - Playwright APIRequestContext
  * @param token - Bearer token (must have write permission)
- * @param data - Department data
+ * @param data - Department data (see createDepartmentData)
  * @returns Promise resolving to created department (with ID)
  *
  * @example
  * const department = await createDepartment(request, token, {
  *   name: 'Engineering',
- *   description: 'Software Development'
+ *   location: 'Building A'
  * });
  */
 export async function createDepartment(
   request: APIRequestContext,
   token: string,
-  data: DepartmentData
-): Promise<any> {
-  const response = await makeAuthenticatedRequest(
-    request,
-    token,
-    'POST',
-    '/departments',
-    data
-  );
-
-  if (!response.ok()) {
-    const errorText = await response.text();
-    throw new Error(`Failed to create department: ${response.status()} - ${errorText}`);
-  }
-
-  const result = await response.json();
-  return result.data || result;
+  data: CreateDepartmentCommand
+): Promise<Department> {
+  const api = createApiClient(request, token);
+  const id = unwrap(await api.createDepartment(data), 'create department');
+  return unwrap(await api.getDepartmentById(id), 'get department');
 }
 
 /**
@@ -249,76 +639,52 @@ export async function deleteDepartment(
   token: string,
   id: number
 ): Promise<void> {
-  const response = await makeAuthenticatedRequest(
-    request,
-    token,
-    'DELETE',
-    `/departments/${id}`
-  );
-
-  if (!response.ok() && response.status() !== 404) {
-    const errorText = await response.text();
-    throw new Error(`Failed to delete department: ${response.status()} - ${errorText}`);
-  }
+  await new ResourceClient(request, token, 'departments').delete(id);
 }
 
 /**
- * Gets all employees via API
+ * Gets employees via API
  *
  * @param request - Playwright APIRequestContext
  * @param token - Bearer token
- * @returns Promise resolving to array of employees
+ * @param query - Filter and paging parameters
+ * @returns Promise resolving to the first page; iterate it to walk all pages
+ *
+ * @example
+ * const employees = await getAllEmployees(request, token);
+ * expect(employees.recordsTotal).toBeGreaterThan(0);
+ * const everyEmployee = await employees.toArray();
  */
 export async function getAllEmployees(
   request: APIRequestContext,
-  token: string
-): Promise<any[]> {
-  const response = await makeAuthenticatedRequest(
-    request,
-    token,
-    'GET',
-    '/employees'
-  );
-
-  if (!response.ok()) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get employees: ${response.status()} - ${errorText}`);
-  }
-
-  const result = await response.json();
-  return result.data || result.items || result;
+  token: string,
+  query: GetEmployeesQuery = {}
+): Promise<PagedResponse<Employee>> {
+  return new ResourceClient(request, token, 'employees').listPages(query);
 }
 
 /**
- * Gets all departments via API
+ * Gets departments via API
  *
  * @param request - Playwright APIRequestContext
  * @param token - Bearer token
- * @returns Promise resolving to array of departments
+ * @param query - Filter and paging parameters
+ * @returns Promise resolving to the first page; iterate it to walk all pages
  */
 export async function getAllDepartments(
   request: APIRequestContext,
-  token: string
-): Promise<any[]> {
-  const response = await makeAuthenticatedRequest(
-    request,
-    token,
-    'GET',
-    '/departments'
-  );
-
-  if (!response.ok()) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get departments: ${response.status()} - ${errorText}`);
-  }
-
-  const result = await response.json();
-  return result.data || result.items || result;
+  token: string,
+  query: GetDepartmentsQuery = {}
+): Promise<PagedResponse<Department>> {
+  return new ResourceClient(request, token, 'departments').listPages(query);
 }
 
 /**
  * Updates an employee via API
  *
+ * The API replaces the whole record, so the changes are merged into the
+ * employee's current data first.
+ *
  * @param request - Playwright APIRequestContext
  * @param token - Bearer token (must have write permission)
  * @param id - Employee ID to update
@@ -329,23 +695,11 @@ export async function updateEmployee(
   request: APIRequestContext,
   token: string,
   id: number,
-  data: Partial<EmployeeData>
-): Promise<any> {
-  const response = await makeAuthenticatedRequest(
-    request,
-    token,
-    'PUT',
-    `/employees/${id}`,
-    data
-  );
-
-  if (!response.ok()) {
-    const errorText = await response.text();
-    throw new Error(`Failed to update employee: ${response.status()} - ${errorText}`);
-  }
-
-  const result = await response.json();
-  return result.data || result;
+  data: EmployeeData
+): Promise<Employee> {
+  const { positionTitle, departmentName, ...current } = await getEmployee(request, token, id);
+  unwrap(await createApiClient(request, token).updateEmployee(id, { ...current, ...data, id }), 'update employee');
+  return getEmployee(request, token, id);
 }
 
 /**
@@ -393,3 +747,105 @@ export async function cleanupDepartments(
     }))
   );
 }
+
+/**
+ * Creates a position via API
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token (must have write permission)
+ * @param data - Position data (see createPositionData)
+ * @returns Promise resolving to created position (with ID)
+ *
+ * @example
+ * const position = await createPosition(request, token, createPositionData({ salaryRangeId: range.id }));
+ */
+export async function createPosition(
+  request: APIRequestContext,
+  token: string,
+  data: CreatePositionCommand
+): Promise<Position> {
+  return new ResourceClient(request, token, 'positions').create(data);
+}
+
+/**
+ * Deletes a position via API
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token (must have delete permission)
+ * @param id - Position ID to delete
+ * @returns Promise that resolves when deletion is complete
+ */
+export async function deletePosition(
+  request: APIRequestContext,
+  token: string,
+  id: number
+): Promise<void> {
+  await new ResourceClient(request, token, 'positions').delete(id);
+}
+
+/**
+ * Creates a salary range via API
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token (must have write permission)
+ * @param data - Salary range data (see createSalaryRangeData)
+ * @returns Promise resolving to created salary range (with ID)
+ *
+ * @example
+ * const range = await createSalaryRange(request, token, createSalaryRangeData());
+ */
+export async function createSalaryRange(
+  request: APIRequestContext,
+  token: string,
+  data: CreateSalaryRangeCommand
+): Promise<SalaryRange> {
+  return new ResourceClient(request, token, 'salaryRanges').create(data);
+}
+
+/**
+ * Deletes a salary range via API
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token (must have delete permission)
+ * @param id - Salary range ID to delete
+ * @returns Promise that resolves when deletion is complete
+ */
+export async function deleteSalaryRange(
+  request: APIRequestContext,
+  token: string,
+  id: number
+): Promise<void> {
+  await new ResourceClient(request, token, 'salaryRanges').delete(id);
+}
+
+/**
+ * Cleans up test data by deleting multiple positions
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token (must have delete permission)
+ * @param ids - Array of position IDs to delete
+ * @returns Promise that resolves when all deletions are complete
+ */
+export async function cleanupPositions(
+  request: APIRequestContext,
+  token: string,
+  ids: number[]
+): Promise<void> {
+  await new ResourceClient(request, token, 'positions').deleteAll(ids);
+}
+
+/**
+ * Cleans up test data by deleting multiple salary ranges
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token (must have delete permission)
+ * @param ids - Array of salary range IDs to delete
+ * @returns Promise that resolves when all deletions are complete
+ */
+export async function cleanupSalaryRanges(
+  request: APIRequestContext,
+  token: string,
+  ids: number[]
+): Promise<void> {
+  await new ResourceClient(request, token, 'salaryRanges').deleteAll(ids);
+}
@@ -1,17 +1,27 @@
-import { Page, APIRequestContext } from '@playwright/test';
-import testUsers from '../config/test-users.json';
+import { test as base, request as playwrightRequest, Page, APIRequestContext, Browser, BrowserContext } from '@playwright/test';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 import { APP_URLS } from '../config/test-config';
+import { Role, getUser } from '../config/user-registry';
 
 /**
  * Authentication Fixtures
  *
  * Provides reusable authentication helpers for Playwright tests:
  * - Browser-based OIDC login flow
- * - API token acquisition
+ * - API token acquisition (password grant, or headless authorization code + PKCE)
  * - Logout functionality
  * - Authentication state verification
+ * - Per-role storageState reuse (see tests/auth.setup.ts)
  */
 
+/**
+ * Directory holding the per-role auth state written by the setup project
+ * (git-ignored, see .gitignore)
+ */
+export const AUTH_STATE_DIR = path.join(__dirname, '..', 'playwright', '.auth');
+
 /**
  * Performs browser-based OIDC login through IdentityServer
  *
@@ -50,6 +60,36 @@ export async function loginAs(
   // Pause briefly to allow Angular to render guest UI
   await page.waitForTimeout(1000);
 
+  await loginFromCurrentPage(page, username, password);
+
+  // Wait for dashboard to load (indicating successful authentication)
+  await page.waitForSelector(
+    'h1:has-text("Dashboard"), h2:has-text("Dashboard"), .matero-page-title',
+    { timeout: 10000 }
+  );
+}
+
+/**
+ * Logs in through the user menu of the page that is currently open
+ *
+ * Unlike loginAs, the page is not reset to the home route first, so the app
+ * decides where to return after IdentityServer redirects back (e.g. the page
+ * the user was on when their session expired).
+ *
+ * @param page - Playwright Page object (showing the Angular app as Guest)
+ * @param username - Username for login
+ * @param password - Password for login
+ * @returns Promise that resolves once IdentityServer has redirected back to the app
+ *
+ * @example
+ * await page.goto('/departments');
+ * await loginFromCurrentPage(page, 'rosamond33', 'Pa$$word123');
+ */
+export async function loginFromCurrentPage(
+  page: Page,
+  username: string,
+  password: string
+): Promise<void> {
   // Click user icon in upper right corner to open menu
   const userIcon = page.locator(
     'button[aria-label="User menu"], button mat-icon:has-text("account_circle"), header button:has(mat-icon)'
@@ -111,19 +151,13 @@ export async function loginAs(
 
   // Wait for OAuth callback redirect back to Angular app
   await page.waitForURL(/localhost:4200.*/, { timeout: 30000 });
-
-  // Wait for dashboard to load (indicating successful authentication)
-  await page.waitForSelector(
-    'h1:has-text("Dashboard"), h2:has-text("Dashboard"), .matero-page-title',
-    { timeout: 10000 }
-  );
 }
 
 /**
  * Performs login using a predefined test user role
  *
  * @param page - Playwright Page object
- * @param role - User role: 'employee' | 'manager' | 'hradmin'
+ * @param role - User role from config/user-registry.ts
  * @returns Promise that resolves when login is complete
  *
  * @example
@@ -131,15 +165,132 @@ export async function loginAs(
  */
 export async function loginAsRole(
   page: Page,
-  role: 'employee' | 'manager' | 'hradmin'
+  role: Role
 ): Promise<void> {
-  const user = testUsers[role];
-  if (!user) {
-    throw new Error(`Unknown role: ${role}`);
-  }
+  const user = getUser(role);
   await loginAs(page, user.username, user.password);
 }
 
+/**
+ * OAuth client and scopes used for API token requests
+ *
+ * offline_access asks IdentityServer for a refresh token alongside the
+ * access token (see refreshApiToken).
+ */
+export const API_TOKEN_CLIENT = {
+  clientId: 'TalentManagement',
+  clientSecret: 'secret', // Note: Update with actual client secret
+  scope: 'openid profile email roles offline_access app.api.talentmanagement.read app.api.talentmanagement.write',
+} as const;
+
+/**
+ * OAuth client used by the headless authorization code + PKCE flow
+ *
+ * Same public client the Angular app signs in with, so the tokens match the
+ * ones the browser gets. OIDC_CLIENT_ID / OIDC_REDIRECT_URI override it.
+ * offline_access adds a refresh token, which the token manager renews
+ * tokens with (see refreshApiToken).
+ */
+export const AUTH_CODE_CLIENT = {
+  clientId: process.env.OIDC_CLIENT_ID || 'TalentManagement',
+  redirectUri: process.env.OIDC_REDIRECT_URI || `${APP_URLS.angular}/`,
+  scope: 'openid profile email roles offline_access app.api.talentmanagement.read app.api.talentmanagement.write',
+} as const;
+
+/**
+ * Token endpoint response body
+ */
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+}
+
+/**
+ * Posts a grant to the IdentityServer token endpoint
+ *
+ * @param request - Playwright APIRequestContext
+ * @param grant - Grant-specific form fields (grant_type, credentials, ...)
+ * @param client - Client to authenticate as (defaults to API_TOKEN_CLIENT)
+ * @returns Promise resolving to the token endpoint response body
+ */
+async function requestTokens(
+  request: APIRequestContext,
+  grant: { [field: string]: string },
+  client: { clientId: string; clientSecret?: string } = API_TOKEN_CLIENT
+): Promise<TokenResponse> {
+  const tokenEndpoint = `${APP_URLS.identityServer}/connect/token`;
+
+  const response = await request.post(tokenEndpoint, {
+    form: {
+      client_id: client.clientId,
+      ...(client.clientSecret ? { client_secret: client.clientSecret } : {}),
+      ...grant,
+    },
+    ignoreHTTPSErrors: true,
+  });
+
+  if (!response.ok()) {
+    throw new Error(`Failed to get token: ${response.status()} ${response.statusText()}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Acquires API tokens from IdentityServer with the password grant
+ *
+ * @param request - Playwright APIRequestContext
+ * @param username - Username for token request
+ * @param password - Password for token request
+ * @returns Promise resolving to the full token response (access, refresh, expiry)
+ *
+ * @example
+ * const tokens = await getApiTokenResponse(request, 'ashtyn1', 'Pa$$word123');
+ * console.log(tokens.expires_in, tokens.refresh_token);
+ */
+export async function getApiTokenResponse(
+  request: APIRequestContext,
+  username: string,
+  password: string
+): Promise<TokenResponse> {
+  return await requestTokens(request, {
+    grant_type: 'password',
+    scope: API_TOKEN_CLIENT.scope,
+    username: username,
+    password: password,
+  });
+}
+
+/**
+ * Exchanges a refresh token for new tokens (grant_type=refresh_token)
+ *
+ * IdentityServer rotates refresh tokens by default, so always keep the
+ * refresh_token from the response for the next exchange.
+ *
+ * @param request - Playwright APIRequestContext
+ * @param refreshToken - Refresh token from a previous token response
+ * @param client - Client the refresh token was issued to (defaults to API_TOKEN_CLIENT)
+ * @returns Promise resolving to the new token response
+ *
+ * @example
+ * const tokens = await getTokenWithAuthCode('ashtyn1', 'Pa$$word123');
+ * const renewed = await refreshApiToken(request, tokens.refresh_token!, AUTH_CODE_CLIENT);
+ */
+export async function refreshApiToken(
+  request: APIRequestContext,
+  refreshToken: string,
+  client: { clientId: string; clientSecret?: string } = API_TOKEN_CLIENT
+): Promise<TokenResponse> {
+  return await requestTokens(request, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  }, client);
+}
+
 /**
  * Acquires an API access token from IdentityServer
  *
@@ -159,25 +310,7 @@ export async function getApiToken(
   username: string,
   password: string
 ): Promise<string> {
-  const tokenEndpoint = `${APP_URLS.identityServer}/connect/token`;
-
-  const response = await request.post(tokenEndpoint, {
-    form: {
-      grant_type: 'password',
-      client_id: 'TalentManagement',
-      client_secret: 'secret', // Note: Update with actual client secret
-      scope: 'openid profile email roles app.api.talentmanagement.read app.api.talentmanagement.write',
-      username: username,
-      password: password,
-    },
-    ignoreHTTPSErrors: true,
-  });
-
-  if (!response.ok()) {
-    throw new Error(`Failed to get token: ${response.status()} ${response.statusText()}`);
-  }
-
-  const data = await response.json();
+  const data = await getApiTokenResponse(request, username, password);
   return data.access_token;
 }
 
@@ -185,7 +318,7 @@ export async function getApiToken(
  * Acquires an API token using a predefined test user role
  *
  * @param request - Playwright APIRequestContext
- * @param role - User role: 'employee' | 'manager' | 'hradmin'
+ * @param role - User role from config/user-registry.ts
  * @returns Promise resolving to access token string
  *
  * @example
@@ -193,15 +326,175 @@ export async function getApiToken(
  */
 export async function getTokenForRole(
   request: APIRequestContext,
-  role: 'employee' | 'manager' | 'hradmin'
+  role: Role
 ): Promise<string> {
-  const user = testUsers[role];
-  if (!user) {
-    throw new Error(`Unknown role: ${role}`);
-  }
+  const user = getUser(role);
   return await getApiToken(request, user.username, user.password);
 }
 
+/**
+ * Acquires API tokens with the authorization code + PKCE flow, without a browser
+ *
+ * Drives the IdentityServer login form over HTTP: follows the /connect/authorize
+ * redirects to the login page, posts the credentials together with the form's
+ * anti-forgery token, captures the code at the redirect URI and exchanges it
+ * (with the PKCE verifier) at the token endpoint.
+ *
+ * Uses its own request context so IdentityServer's session cookie never leaks
+ * into another user's login.
+ *
+ * @param username - Username for login
+ * @param password - Password for login
+ * @returns Promise resolving to the token endpoint response body
+ *
+ * @example
+ * const tokens = await getTokenWithAuthCode('ashtyn1', 'Pa$$word123');
+ * const response = await request.get(`${APP_URLS.api}/employees`, {
+ *   headers: { Authorization: `Bearer ${tokens.access_token}` }
+ * });
+ */
+export async function getTokenWithAuthCode(
+  username: string,
+  password: string
+): Promise<TokenResponse> {
+  const context = await playwrightRequest.newContext({ ignoreHTTPSErrors: true });
+
+  try {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    const state = crypto.randomBytes(16).toString('hex');
+
+    const authorizeUrl = new URL(`${APP_URLS.identityServer}/connect/authorize`);
+    authorizeUrl.search = new URLSearchParams({
+      client_id: AUTH_CODE_CLIENT.clientId,
+      redirect_uri: AUTH_CODE_CLIENT.redirectUri,
+      response_type: 'code',
+      scope: AUTH_CODE_CLIENT.scope,
+      state,
+      nonce: crypto.randomBytes(16).toString('hex'),
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+
+    // Follow redirects to the login page
+    const loginPage = await followAuthRedirects(context, authorizeUrl.toString());
+    if (!loginPage.html) {
+      throw new Error(`Expected the IdentityServer login page, got a redirect to ${loginPage.callbackUrl}`);
+    }
+
+    // Post credentials along with the form's hidden fields (ReturnUrl, anti-forgery token)
+    const form = parseLoginForm(loginPage.html, loginPage.url);
+    const loginResponse = await context.post(form.action, {
+      form: {
+        ...form.fields,
+        Username: username,
+        Password: password,
+        button: 'login',
+      },
+      maxRedirects: 0,
+    });
+
+    const location = loginResponse.headers()['location'];
+    if (loginResponse.status() < 300 || loginResponse.status() >= 400 || !location) {
+      throw new Error(`Login failed for ${username}: ${loginResponse.status()} (still on the login page)`);
+    }
+
+    // Follow the redirects back to the client's redirect URI and capture the code
+    const callback = await followAuthRedirects(context, new URL(location, form.action).toString());
+    if (!callback.callbackUrl) {
+      throw new Error(`Authorization did not redirect to ${AUTH_CODE_CLIENT.redirectUri} (ended at ${callback.url})`);
+    }
+
+    const params = new URL(callback.callbackUrl).searchParams;
+    if (params.get('error')) {
+      throw new Error(`Authorization failed: ${params.get('error')} ${params.get('error_description') || ''}`.trim());
+    }
+    if (params.get('state') !== state) {
+      throw new Error('Authorization response state does not match the request');
+    }
+
+    return await requestTokens(context, {
+      grant_type: 'authorization_code',
+      code: params.get('code') || '',
+      redirect_uri: AUTH_CODE_CLIENT.redirectUri,
+      code_verifier: codeVerifier,
+    }, AUTH_CODE_CLIENT);
+  } finally {
+    await context.dispose();
+  }
+}
+
+/**
+ * Follows redirects until a page is returned or the client's redirect URI is reached
+ */
+async function followAuthRedirects(
+  context: APIRequestContext,
+  startUrl: string
+): Promise<{ url: string; html?: string; callbackUrl?: string }> {
+  let url = startUrl;
+
+  for (let hop = 0; hop < 10; hop++) {
+    if (url.startsWith(AUTH_CODE_CLIENT.redirectUri)) {
+      return { url, callbackUrl: url };
+    }
+
+    const response = await context.get(url, { maxRedirects: 0 });
+    const location = response.headers()['location'];
+
+    if (response.status() >= 300 && response.status() < 400 && location) {
+      url = new URL(location, url).toString();
+      continue;
+    }
+
+    if (!response.ok()) {
+      throw new Error(`Unexpected ${response.status()} from ${url}`);
+    }
+
+    return { url, html: await response.text() };
+  }
+
+  throw new Error(`Too many redirects starting at ${startUrl}`);
+}
+
+/**
+ * Extracts the action and hidden fields of the login form
+ */
+function parseLoginForm(html: string, pageUrl: string): { action: string; fields: { [name: string]: string } } {
+  const decode = (value: string) => value
+    .replace(/&quot;/g, '"')
+    .replace(/&#x2F;/gi, '/')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+  const attribute = (tag: string, name: string) =>
+    tag.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`, 'i'))?.[1];
+
+  // The page may hold other forms (e.g. language picker); take the one with the password field
+  const loginForm = (html.match(/<form\b[\s\S]*?<\/form>/gi) || [])
+    .find(form => /name\s*=\s*"Password"/i.test(form));
+  if (!loginForm) {
+    throw new Error(`No login form found at ${pageUrl}`);
+  }
+
+  const formTag = loginForm.match(/<form\b[^>]*>/i)![0];
+  const action = new URL(decode(attribute(formTag, 'action') || pageUrl), pageUrl).toString();
+
+  const fields: { [name: string]: string } = {};
+  for (const input of loginForm.match(/<input\b[^>]*>/gi) || []) {
+    const name = attribute(input, 'name');
+    if (name && attribute(input, 'type')?.toLowerCase() === 'hidden') {
+      fields[name] = decode(attribute(input, 'value') || '');
+    }
+  }
+
+  if (!fields['__RequestVerificationToken']) {
+    throw new Error(`Login form at ${pageUrl} has no anti-forgery token`);
+  }
+
+  return { action, fields };
+}
+
 /**
  * Performs logout from the application
  *
@@ -465,3 +758,158 @@ export async function clearAuthTokens(page: Page): Promise<void> {
     }
   });
 }
+
+
+/**
+ * Gets the storageState file path for a role
+ *
+ * @param role - User role
+ * @returns Absolute path of the role's storageState JSON file
+ */
+export function getStorageStatePath(role: Role): string {
+  return path.join(AUTH_STATE_DIR, `${role}.json`);
+}
+
+/**
+ * Gets the sessionStorage snapshot file path for a role
+ *
+ * Playwright's storageState only covers cookies and localStorage, while the
+ * Angular OIDC client keeps its tokens in sessionStorage, so that part of the
+ * session is saved next to the storageState file.
+ *
+ * @param role - User role
+ * @returns Absolute path of the role's sessionStorage JSON file
+ */
+export function getSessionStoragePath(role: Role): string {
+  return path.join(AUTH_STATE_DIR, `${role}.session.json`);
+}
+
+/**
+ * Saves the authenticated state of a page for later reuse by role
+ *
+ * @param page - Playwright Page object (already logged in)
+ * @param role - User role the page is logged in as
+ * @returns Promise that resolves when both state files are written
+ *
+ * @example
+ * await loginAsRole(page, 'manager');
+ * await saveAuthState(page, 'manager');
+ */
+export async function saveAuthState(page: Page, role: Role): Promise<void> {
+  fs.mkdirSync(AUTH_STATE_DIR, { recursive: true });
+
+  await page.context().storageState({ path: getStorageStatePath(role) });
+
+  const sessionState = await page.evaluate(() => ({
+    origin: window.location.origin,
+    entries: Object.fromEntries(
+      Object.keys(sessionStorage).map(key => [key, sessionStorage.getItem(key) ?? ''])
+    ),
+  }));
+  fs.writeFileSync(getSessionStoragePath(role), JSON.stringify(sessionState, null, 2));
+}
+
+/**
+ * Restores the saved sessionStorage of a role into a browser context
+ *
+ * The entries are written once per tab, before any app script runs, so a
+ * later logout inside the test is not undone by the next navigation.
+ *
+ * @param context - Playwright BrowserContext
+ * @param role - User role whose session should be restored
+ * @returns Promise that resolves when the init script is registered
+ */
+export async function restoreSessionStorage(context: BrowserContext, role: Role): Promise<void> {
+  const sessionFile = getSessionStoragePath(role);
+  if (!fs.existsSync(sessionFile)) {
+    return;
+  }
+
+  const sessionState = JSON.parse(fs.readFileSync(sessionFile, 'utf-8'));
+  await context.addInitScript(({ origin, entries }: { origin: string; entries: Record<string, string> }) => {
+    const marker = '__playwright_session_restored';
+    if (window.location.origin !== origin || sessionStorage.getItem(marker)) {
+      return;
+    }
+    for (const [key, value] of Object.entries(entries)) {
+      sessionStorage.setItem(key, value);
+    }
+    sessionStorage.setItem(marker, 'true');
+  }, sessionState);
+}
+
+/**
+ * Fails when the setup project has not saved the auth state of a role
+ *
+ * @param role - User role
+ */
+function assertSavedState(role: Role): void {
+  const statePath = getStorageStatePath(role);
+  if (!fs.existsSync(statePath)) {
+    throw new Error(
+      `No saved auth state for role "${role}" at ${statePath}. ` +
+        `Run the "setup" project first (it is a dependency of the browser projects).`
+    );
+  }
+}
+
+/**
+ * Creates a browser context that starts from the session saved for a role
+ *
+ * For tests that need more than one user at a time; a single page should use
+ * the `role` option of `test` instead. The caller closes the context.
+ *
+ * @param browser - Playwright Browser
+ * @param role - User role whose saved session the context starts from
+ * @returns New browser context, logged in as the role
+ *
+ * @example
+ * const context = await newRoleContext(browser, 'hradmin');
+ * const page = await context.newPage();
+ * await page.goto('/employees');
+ */
+export async function newRoleContext(browser: Browser, role: Role): Promise<BrowserContext> {
+  assertSavedState(role);
+  const context = await browser.newContext({ storageState: getStorageStatePath(role) });
+  await restoreSessionStorage(context, role);
+  return context;
+}
+
+/**
+ * Test object with a declarative `role` option
+ *
+ * When a role is set, the browser context starts from the state saved by the
+ * setup project for that role instead of running the IdentityServer login
+ * flow again.
+ *
+ * @example
+ * import { test } from '../../fixtures/auth.fixtures';
+ *
+ * test.use({ role: 'manager' });
+ *
+ * test('manager sees create button', async ({ page }) => {
+ *   await page.goto('/employees');
+ * });
+ */
+export const test = base.extend<{ role: Role | undefined }>({
+  role: [undefined, { option: true }],
+
+  // Resolved for every test, also ones that skip before opening a page (e.g.
+  // in the api project), so a missing state file is reported by `context`
+  storageState: async ({ role, storageState }, use) => {
+    if (!role || !fs.existsSync(getStorageStatePath(role))) {
+      await use(storageState);
+      return;
+    }
+
+    await use(getStorageStatePath(role));
+  },
+
+  context: async ({ role, context }, use) => {
+    if (role) {
+      assertSavedState(role);
+      await restoreSessionStorage(context, role);
+    }
+    await use(context);
+  },
+});
@@ -1,3 +1,10 @@
+import type {
+  CreateEmployeeCommand,
+  CreateDepartmentCommand,
+  CreateSalaryRangeCommand,
+} from '../api/generated/models';
+import type { CreatePositionCommand } from '../api/position-models';
+
 /**
  * Test Data Fixtures
  *
@@ -5,38 +12,24 @@
  * and the ability to override specific fields.
  */
 
-export interface EmployeeData {
-  employeeNumber?: string;
-  firstName?: string;
-  lastName?: string;
-  email?: string;
-  phoneNumber?: string;
-  dateOfBirth?: string;
-  gender?: 0 | 1 | 2; // 0 = Male, 1 = Female, 2 = Other (API enum values)
-  hireDate?: string;
-  salary?: number;
-  positionId?: number;
-  departmentId?: number;
-}
+/**
+ * Request bodies accepted by the API, all fields optional so tests can pass
+ * overrides. Derived from the models generated from the API's OpenAPI
+ * document (api/openapi.json) so they cannot drift from the API.
+ */
+export type EmployeeData = Partial<CreateEmployeeCommand>;
 
-export interface DepartmentData {
-  name?: string;
-  location?: string;
-  managerId?: number;
-}
+export type DepartmentData = Partial<CreateDepartmentCommand>;
 
-export interface PositionData {
-  title?: string;
-  description?: string;
-  salaryRangeId?: number;
-  level?: string;
-}
+// Not in api/openapi.json yet, see api/position-models.ts
+export type PositionData = Partial<CreatePositionCommand>;
 
-export interface SalaryRangeData {
-  name?: string;
-  minSalary?: number;
-  maxSalary?: number;
-}
+export type SalaryRangeData = Partial<CreateSalaryRangeCommand>;
+
+/**
+ * What the factories return: every field set (nullable API fields get a value too)
+ */
+export type Complete<T> = { [K in keyof T]-?: NonNullable<T[K]> };
 
 /**
  * Generates a random employee number
@@ -89,7 +82,7 @@ function generateRandomDate(startYear: number, endYear: number): string {
  *   salary: 75000
  * });
  */
-export function createEmployeeData(overrides: EmployeeData = {}): Required<EmployeeData> {
+export function createEmployeeData(overrides: EmployeeData = {}): Complete<EmployeeData> {
   const firstName = overrides.firstName || 'Test';
   const lastName = overrides.lastName || `User${Math.floor(Math.random() * 10000)}`;
 
@@ -120,7 +113,7 @@ export function createEmployeeData(overrides: EmployeeData = {}): Required<Emplo
  *   location: 'Building A'
  * });
  */
-export function createDepartmentData(overrides: DepartmentData = {}): Required<DepartmentData> {
+export function createDepartmentData(overrides: DepartmentData = {}): Complete<DepartmentData> {
   const deptNumber = Math.floor(Math.random() * 1000);
   return {
     name: overrides.name || `Test Department ${deptNumber}`,
@@ -129,6 +122,15 @@ export function createDepartmentData(overrides: DepartmentData = {}): Required<D
   };
 }
 
+/**
+ * Generates a unique position number, like the position form's default
+ */
+function generatePositionNumber(): string {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+  return `PN-${timestamp}${random}`;
+}
+
 /**
  * Creates position test data with defaults and optional overrides
  *
@@ -137,20 +139,19 @@ export function createDepartmentData(overrides: DepartmentData = {}): Required<D
  *
  * @example
  * const position = createPositionData({
- *   title: 'Senior Developer',
- *   level: 'Senior'
+ *   positionTitle: 'Senior Developer',
+ *   departmentId: department.id
  * });
  */
-export function createPositionData(overrides: PositionData = {}): Required<PositionData> {
+export function createPositionData(overrides: PositionData = {}): Complete<PositionData> {
   const posNumber = Math.floor(Math.random() * 1000);
-  const levels = ['Junior', 'Mid', 'Senior', 'Lead', 'Principal'];
-  const randomLevel = levels[Math.floor(Math.random() * levels.length)];
 
   return {
-    title: overrides.title || `Test Position ${posNumber}`,
-    description: overrides.description || `Test position created for automated testing`,
+    positionTitle: overrides.positionTitle || `Test Position ${posNumber}`,
+    positionNumber: overrides.positionNumber || generatePositionNumber(),
+    positionDescription: overrides.positionDescription || `Test position created for automated testing`,
+    departmentId: overrides.departmentId || 1,
     salaryRangeId: overrides.salaryRangeId || 1,
-    level: overrides.level || randomLevel,
   };
 }
 
@@ -167,7 +168,7 @@ export function createPositionData(overrides: PositionData = {}): Required<Posit
  *   maxSalary: 120000
  * });
  */
-export function createSalaryRangeData(overrides: SalaryRangeData = {}): Required<SalaryRangeData> {
+export function createSalaryRangeData(overrides: SalaryRangeData = {}): Complete<SalaryRangeData> {
   const rangeNumber = Math.floor(Math.random() * 1000);
   const baseMin = overrides.minSalary || Math.floor(Math.random() * 50000) + 40000;
   const baseMax = overrides.maxSalary || baseMin + 30000;
@@ -192,7 +193,7 @@ export function createSalaryRangeData(overrides: SalaryRangeData = {}): Required
 export function createMultipleEmployees(
   count: number,
   overrides: EmployeeData = {}
-): Required<EmployeeData>[] {
+): Complete<EmployeeData>[] {
   return Array.from({ length: count }, () => createEmployeeData(overrides));
 }
 
@@ -209,6 +210,6 @@ export function createMultipleEmployees(
 export function createMultipleDepartments(
   count: number,
   overrides: DepartmentData = {}
-): Required<DepartmentData>[] {
+): Complete<DepartmentData>[] {
   return Array.from({ length: count }, () => createDepartmentData(overrides));
 }
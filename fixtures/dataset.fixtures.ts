@@ -0,0 +1,346 @@
+import { APIRequestContext } from '@playwright/test';
+import { ResourceClient, ResourceName, ResourceTypes, getResourceClients } from './api.fixtures';
+import { TEARDOWN_ORDER } from './teardown.fixtures';
+import {
+  createDepartmentData,
+  createEmployeeData,
+  createPositionData,
+  createSalaryRangeData,
+} from './data.fixtures';
+
+/**
+ * Dataset Fixtures
+ *
+ * Seeds a known amount of data through the API for performance specs, so a
+ * "1000+ records" measurement runs against 1000+ records instead of whatever
+ * the database happens to hold.
+ *
+ * Each profile creates salary ranges, departments, positions and employees
+ * (in that order, so references exist), with a bounded number of requests in
+ * flight. Every record gets a key derived from the profile's tag and its
+ * index (e.g. employee number `SEED1K-00042`); seeding looks those keys up
+ * first and only creates the missing ones, so seeding a profile twice, or
+ * after an interrupted run, ends with exactly one copy of the dataset.
+ * teardownDataset() finds the same records and deletes them, dependents first.
+ *
+ * DATASET_PROFILE picks the profile for the performance specs (default: large-1k).
+ */
+
+/**
+ * How much data a profile seeds
+ */
+export interface DatasetProfile {
+  /** Prefix of every seeded key; identifies the profile's records */
+  tag: string;
+  salaryRanges: number;
+  positions: number;
+  departments: number;
+  employees: number;
+  /** Create requests in flight at once */
+  concurrency: number;
+}
+
+export const DATASET_PROFILES = {
+  small: { tag: 'SEEDSM', salaryRanges: 3, positions: 5, departments: 3, employees: 50, concurrency: 4 },
+  'large-1k': { tag: 'SEED1K', salaryRanges: 5, positions: 20, departments: 10, employees: 1000, concurrency: 8 },
+  'huge-10k': { tag: 'SEED10K', salaryRanges: 10, positions: 50, departments: 25, employees: 10000, concurrency: 16 },
+} as const satisfies Record<string, DatasetProfile>;
+
+export type DatasetProfileName = keyof typeof DATASET_PROFILES;
+
+export const DEFAULT_DATASET_PROFILE: DatasetProfileName = 'large-1k';
+
+/**
+ * Seeding (or teardown) progress of one resource
+ */
+export interface DatasetProgress {
+  profile: DatasetProfileName;
+  resource: ResourceName;
+  /** Records created (or deleted) so far */
+  done: number;
+  /** Records to create (or delete) */
+  total: number;
+  /** Records that already existed and were left alone */
+  existing: number;
+}
+
+export interface DatasetOptions {
+  /** Called about every 10% of each resource, and when it is finished (default: logs to the console) */
+  onProgress?: (progress: DatasetProgress) => void;
+  /** Overrides the profile's concurrency */
+  concurrency?: number;
+}
+
+/**
+ * IDs of a seeded dataset
+ */
+export interface SeededDataset {
+  profile: DatasetProfileName;
+  ids: Record<ResourceName, number[]>;
+  /** Records this call created (the rest already existed) */
+  created: Record<ResourceName, number>;
+  durationMs: number;
+}
+
+/**
+ * A seeded record teardownDataset() failed to delete
+ */
+export interface DatasetTeardownFailure {
+  resource: ResourceName;
+  id: number;
+  error: string;
+}
+
+/**
+ * How the records of a resource are keyed and found again
+ */
+interface SeedDefinition<K extends ResourceName> {
+  /** List filter that narrows the lookup to the profile's records */
+  filter: (tag: string) => ResourceTypes[K]['query'];
+  /** Key of an existing record */
+  keyOf: (record: ResourceTypes[K]['entity']) => string | null | undefined;
+}
+
+const SEED_DEFINITIONS: { [K in ResourceName]: SeedDefinition<K> } = {
+  salaryRanges: { filter: tag => ({ Name: tag }), keyOf: record => record.name },
+  // GET /positions has no known filter, so the lookup reads every position
+  positions: { filter: () => ({}), keyOf: record => record.positionTitle },
+  departments: { filter: tag => ({ Name: tag }), keyOf: record => record.name },
+  employees: { filter: tag => ({ EmployeeNumber: tag }), keyOf: record => record.employeeNumber },
+};
+
+// The largest page the list endpoints accept
+const LOOKUP_PAGE_SIZE = 100;
+
+/**
+ * Name of the profile selected with DATASET_PROFILE
+ * @returns The profile name (default 'large-1k')
+ * @throws Error if DATASET_PROFILE is not a profile in DATASET_PROFILES
+ */
+export function getDatasetProfileName(): DatasetProfileName {
+  const name = process.env.DATASET_PROFILE || DEFAULT_DATASET_PROFILE;
+  if (!(name in DATASET_PROFILES)) {
+    throw new Error(`Unknown DATASET_PROFILE "${name}". Profiles: ${Object.keys(DATASET_PROFILES).join(', ')}`);
+  }
+  return name as DatasetProfileName;
+}
+
+/**
+ * Seed a profile's dataset, creating only the records that do not exist yet
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token with write permission (HRAdmin)
+ * @param profileName - Profile to seed
+ * @param options - Progress callback and concurrency
+ * @returns IDs of every record in the dataset
+ * @throws Error from the first create that fails (records created before it are kept; seed again to resume)
+ *
+ * @example
+ * const token = await getTokenForRole(request, 'hradmin');
+ * const dataset = await seedDataset(request, token, 'large-1k');
+ * expect(dataset.ids.employees).toHaveLength(1000);
+ */
+export async function seedDataset(
+  request: APIRequestContext,
+  token: string,
+  profileName: DatasetProfileName,
+  options: DatasetOptions = {}
+): Promise<SeededDataset> {
+  const startedAt = Date.now();
+  const profile: DatasetProfile = DATASET_PROFILES[profileName];
+  const api = getResourceClients(request, token);
+  const { tag } = profile;
+  const seed = <K extends ResourceName>(resource: K, keys: string[], build: (key: string, index: number) => ResourceTypes[K]['create']) =>
+    seedResource(api[resource], profileName, keys, build, options);
+
+  const salaryRanges = await seed('salaryRanges', keys(profile.salaryRanges, i => `${tag} Salary Range ${pad(i, 3)}`), (name, i) =>
+    createSalaryRangeData({ name, minSalary: 40000 + i * 10000, maxSalary: 70000 + i * 10000 })
+  );
+
+  const departments = await seed('departments', keys(profile.departments, i => `${tag} Department ${pad(i, 3)}`), name =>
+    createDepartmentData({ name })
+  );
+
+  const positions = await seed('positions', keys(profile.positions, i => `${tag} Position ${pad(i, 3)}`), (positionTitle, i) =>
+    createPositionData({
+      positionTitle,
+      positionNumber: `${tag}-P${pad(i, 3)}`,
+      departmentId: departments.ids[i % departments.ids.length],
+      salaryRangeId: salaryRanges.ids[i % salaryRanges.ids.length],
+    })
+  );
+
+  const employees = await seed('employees', keys(profile.employees, i => `${tag}-${pad(i, 5)}`), (employeeNumber, i) =>
+    createEmployeeData({
+      employeeNumber,
+      firstName: 'Seed',
+      lastName: employeeNumber,
+      email: `${employeeNumber.toLowerCase()}@seed.example.com`,
+      positionId: positions.ids[i % positions.ids.length],
+      departmentId: departments.ids[i % departments.ids.length],
+    })
+  );
+
+  return {
+    profile: profileName,
+    ids: { salaryRanges: salaryRanges.ids, positions: positions.ids, departments: departments.ids, employees: employees.ids },
+    created: {
+      salaryRanges: salaryRanges.created,
+      positions: positions.created,
+      departments: departments.created,
+      employees: employees.created,
+    },
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Delete a profile's dataset: employees, then positions, departments and salary ranges
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token with delete permission (HRAdmin)
+ * @param profileName - Profile to remove
+ * @param options - Progress callback and concurrency
+ * @returns Records that could not be deleted (the rest are gone, including ones deleted earlier)
+ *
+ * @example
+ * const failures = await teardownDataset(request, token, 'large-1k');
+ * expect(failures).toEqual([]);
+ */
+export async function teardownDataset(
+  request: APIRequestContext,
+  token: string,
+  profileName: DatasetProfileName,
+  options: DatasetOptions = {}
+): Promise<DatasetTeardownFailure[]> {
+  const profile: DatasetProfile = DATASET_PROFILES[profileName];
+  const api = getResourceClients(request, token);
+  const failures: DatasetTeardownFailure[] = [];
+
+  for (const resource of TEARDOWN_ORDER) {
+    const ids = [...(await findSeeded(api[resource], profile.tag)).values()];
+    const report = progressReporter(profileName, resource, ids.length, 0, options);
+
+    await runWithConcurrency(ids, options.concurrency ?? profile.concurrency, async id => {
+      try {
+        await api[resource].delete(id);
+      } catch (error) {
+        failures.push({ resource, id, error: error instanceof Error ? error.message : String(error) });
+      }
+      report();
+    });
+  }
+
+  return failures;
+}
+
+/**
+ * Log progress as `Dataset large-1k: employees 500/900 (100 existing)`
+ * @param progress - Progress of one resource
+ */
+export function logDatasetProgress(progress: DatasetProgress): void {
+  const existing = progress.existing > 0 ? ` (${progress.existing} existing)` : '';
+  console.log(`Dataset ${progress.profile}: ${progress.resource} ${progress.done}/${progress.total}${existing}`);
+}
+
+/**
+ * Create the records of one resource that are missing
+ * @returns IDs in key order, and how many were created
+ */
+async function seedResource<K extends ResourceName>(
+  client: ResourceClient<K>,
+  profileName: DatasetProfileName,
+  keys: string[],
+  build: (key: string, index: number) => ResourceTypes[K]['create'],
+  options: DatasetOptions
+): Promise<{ ids: number[]; created: number }> {
+  const profile: DatasetProfile = DATASET_PROFILES[profileName];
+  const existing = await findSeeded(client, profile.tag);
+  const missing = keys.map((key, index) => ({ key, index })).filter(({ key }) => !existing.has(key));
+  const report = progressReporter(profileName, client.resource, missing.length, keys.length - missing.length, options);
+
+  const ids = keys.map(key => existing.get(key));
+  await runWithConcurrency(missing, options.concurrency ?? profile.concurrency, async ({ key, index }) => {
+    ids[index] = await client.createId(build(key, index));
+    report();
+  });
+
+  return { ids: ids as number[], created: missing.length };
+}
+
+/**
+ * Records of a resource whose key carries the tag
+ * @returns IDs by key
+ */
+async function findSeeded<K extends ResourceName>(client: ResourceClient<K>, tag: string): Promise<Map<string, number>> {
+  const definition = SEED_DEFINITIONS[client.resource] as SeedDefinition<K>;
+  const found = new Map<string, number>();
+  const page = await client.listPages({ ...definition.filter(tag), PageSize: LOOKUP_PAGE_SIZE });
+
+  for await (const record of page) {
+    const key = definition.keyOf(record);
+    // The filter may match more than the tag prefix (e.g. SEED1K in a name typed by hand)
+    if (key?.startsWith(tag)) {
+      found.set(key, record.id);
+    }
+  }
+  return found;
+}
+
+/**
+ * Call fn for every item with at most `limit` calls pending; stops starting
+ * new calls after the first failure and rethrows it once the pending ones settle
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failure = null as { error: unknown } | null;
+
+  const worker = async () => {
+    while (!failure && next < items.length) {
+      const item = items[next++];
+      try {
+        await fn(item);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  if (failure) {
+    throw failure.error;
+  }
+}
+
+/**
+ * Returns a function to call after each record; reports about every 10% and at the end
+ */
+function progressReporter(
+  profile: DatasetProfileName,
+  resource: ResourceName,
+  total: number,
+  existing: number,
+  options: DatasetOptions
+): () => void {
+  const onProgress = options.onProgress ?? logDatasetProgress;
+  const step = Math.max(1, Math.ceil(total / 10));
+  let done = 0;
+
+  if (total === 0) {
+    onProgress({ profile, resource, done, total, existing });
+  }
+  return () => {
+    done++;
+    if (done % step === 0 || done === total) {
+      onProgress({ profile, resource, done, total, existing });
+    }
+  };
+}
+
+function keys(count: number, key: (index: number) => string): string[] {
+  return Array.from({ length: count }, (_, index) => key(index + 1));
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
@@ -0,0 +1,44 @@
+import { test as base } from '@playwright/test';
+import { ENVIRONMENT } from '../config/environment';
+
+/**
+ * Mock API Fixtures
+ *
+ * Sends the browser's Web API calls to the in-memory API (mocks/talent-api.ts)
+ * when the `mockApi` option is on. The Angular app keeps calling the API
+ * origin of the environment profile (https://localhost:44378 in development);
+ * those requests are routed to the mock started by global-setup.ts with
+ * MOCK_API=true. The API helpers already go there through APP_URLS.api.
+ *
+ * @example
+ * // playwright.config.ts
+ * { name: 'chromium-mock-api', use: { ...devices['Desktop Chrome'], mockApi: true } }
+ */
+
+/**
+ * Options of the mock API fixtures
+ */
+export interface MockApiOptions {
+  /** Route the browser's API calls to the in-memory API */
+  mockApi: boolean;
+}
+
+export const test = base.extend<MockApiOptions>({
+  mockApi: [false, { option: true }],
+
+  context: async ({ context, mockApi }, use) => {
+    if (mockApi) {
+      const target = process.env.MOCK_API_URL;
+      if (!target) {
+        throw new Error('The mockApi option needs the in-memory API: run with MOCK_API=true (see mocks/README.md)');
+      }
+
+      await context.route(`${ENVIRONMENT.apiUrl}/**`, async route => {
+        const url = new URL(route.request().url());
+        const response = await route.fetch({ url: `${target}${url.pathname}${url.search}` });
+        await route.fulfill({ response });
+      });
+    }
+    await use(context);
+  },
+});
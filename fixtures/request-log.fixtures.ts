@@ -0,0 +1,71 @@
+import { test as base } from '@playwright/test';
+import { apiEvents } from './api.fixtures';
+import { AttemptLog, RequestAttempt, isEnvironmentFailure } from '../utils/request-pipeline';
+
+/**
+ * Request Log Fixtures
+ *
+ * Records every attempt makeAuthenticatedRequest makes during a test (the
+ * 'attempt' event on `apiEvents`), so a failure can be told apart from
+ * environment noise:
+ * - Transient calls - a timeout, network error, 429 or 5xx that a retry got past
+ * - Failed calls - still a timeout, network error, 429 or 5xx on the last attempt
+ *
+ * When a test has either, the attempts of those calls are attached to the
+ * report as `api-attempts` and the test is annotated.
+ */
+
+/**
+ * Test object with an automatic `requestLog`
+ *
+ * @example
+ * import { test, expect } from '../../fixtures/test.fixtures';
+ *
+ * test('lists employees', async ({ request, requestLog }) => {
+ *   const response = await makeAuthenticatedRequest(request, token, 'GET', '/employees');
+ *   expect(requestLog.failedCalls).toEqual([]);
+ * });
+ */
+export const test = base.extend<{ requestLog: AttemptLog }>({
+  requestLog: [
+    async ({}, use, testInfo) => {
+      const log = new AttemptLog();
+
+      apiEvents.on('attempt', log.record);
+      try {
+        await use(log);
+      } finally {
+        apiEvents.off('attempt', log.record);
+      }
+
+      const transient = log.transientCalls;
+      const failed = log.failedCalls;
+      if (transient.length === 0 && failed.length === 0) {
+        return;
+      }
+
+      testInfo.annotations.push({
+        type: 'api-attempts',
+        description: `${transient.length} call(s) recovered by retry, ${failed.length} call(s) failed in the environment`,
+      });
+      await testInfo.attach('api-attempts', {
+        body: [
+          ...transient.map(attempts => formatCall('recovered', attempts)),
+          ...failed.map(attempts => formatCall('failed', attempts)),
+        ].join('\n\n'),
+        contentType: 'text/plain',
+      });
+    },
+    { auto: true },
+  ],
+});
+
+function formatCall(outcome: string, attempts: RequestAttempt[]): string {
+  const { method, url } = attempts[0];
+  const lines = attempts.map(attempt => {
+    const result = attempt.status !== undefined ? String(attempt.status) : attempt.error;
+    const marker = isEnvironmentFailure(attempt) ? ' (environment)' : '';
+    return `  #${attempt.attempt} ${result}${marker} after ${attempt.durationMs}ms`;
+  });
+  return `${outcome}: ${method} ${url}\n${lines.join('\n')}`;
+}
@@ -0,0 +1,148 @@
+import { Page, Request } from '@playwright/test';
+import { test as authTest, getStoredToken } from './auth.fixtures';
+import { APP_URLS } from '../config/test-config';
+import { getTimeUntilExpiration, parseToken } from '../utils/token-manager';
+
+/**
+ * Session Fixtures
+ *
+ * Drives the Angular OIDC client's token lifetime with Playwright's page.clock
+ * instead of clearing storage, so tests see what a real expiry does:
+ * - Silent renew shortly before `exp`
+ * - The session ending once `exp` passes without a renewal
+ * - Which token requests started after expiry carry
+ * - Where the app returns after re-authentication
+ *
+ * The clock is installed before the first navigation and keeps running in real
+ * time until a test fast-forwards it. IdentityServer still runs on real time, so
+ * tokens it issues while the page clock is ahead look stale to the client; call
+ * resumeRealTime() before logging in again.
+ */
+
+/**
+ * angular-oauth2-oidc schedules silent renew at this fraction of the token lifetime
+ */
+export const SILENT_RENEW_TIMEOUT_FACTOR = 0.75;
+
+/**
+ * Controls and observes the session clock of a page
+ */
+export interface SessionClock {
+  /** Current time of the page's clock in milliseconds */
+  now(): Promise<number>;
+  /** Access token the app currently holds (throws if there is none) */
+  getAccessToken(): Promise<string>;
+  /** Seconds until the current access token expires on the page's clock */
+  getSecondsUntilExpiry(): Promise<number>;
+  /** Jump past the access token's `exp`, firing due timers on the way */
+  fastForwardPastExpiry(extraSeconds?: number): Promise<void>;
+  /** Fire the OIDC client's silent renew timer, then return the page to real time */
+  fastForwardToRenewal(timeoutFactor?: number): Promise<void>;
+  /** Set the page's clock back to the real time (timers are not fired) */
+  resumeRealTime(): Promise<void>;
+  /** Make every renewal attempt fail, so the session runs out at `exp` */
+  blockRenewal(): Promise<void>;
+  /** Renewal requests sent to IdentityServer so far (refresh_token grants and prompt=none authorize calls) */
+  readonly renewals: Request[];
+}
+
+/**
+ * Checks whether a request renews the session with IdentityServer
+ *
+ * @param request - Request seen by the page
+ * @returns True for refresh_token grants and prompt=none authorize requests
+ */
+export function isRenewalRequest(request: Request): boolean {
+  const url = new URL(request.url());
+  if (url.origin !== new URL(APP_URLS.identityServer).origin) {
+    return false;
+  }
+
+  if (url.pathname.endsWith('/connect/token')) {
+    return (request.postData() || '').includes('grant_type=refresh_token');
+  }
+  return url.pathname.endsWith('/connect/authorize') && url.searchParams.get('prompt') === 'none';
+}
+
+/**
+ * Creates the session clock for a page (the page's clock must already be installed)
+ *
+ * @param page - Playwright Page object
+ * @returns Session clock bound to the page
+ */
+export function createSessionClock(page: Page): SessionClock {
+  const renewals: Request[] = [];
+  page.on('request', request => {
+    if (isRenewalRequest(request)) {
+      renewals.push(request);
+    }
+  });
+
+  const clock: SessionClock = {
+    renewals,
+
+    now: () => page.evaluate(() => Date.now()),
+
+    async getAccessToken() {
+      const token = await getStoredToken(page);
+      if (!token) {
+        throw new Error(`No access token in browser storage at ${page.url()} - is the page logged in?`);
+      }
+      return token;
+    },
+
+    async getSecondsUntilExpiry() {
+      return getTimeUntilExpiration(await clock.getAccessToken(), await clock.now());
+    },
+
+    async fastForwardPastExpiry(extraSeconds = 5) {
+      const seconds = await clock.getSecondsUntilExpiry();
+      await page.clock.fastForward((seconds + extraSeconds) * 1000);
+    },
+
+    async fastForwardToRenewal(timeoutFactor = SILENT_RENEW_TIMEOUT_FACTOR) {
+      const { iat, exp } = parseToken(await clock.getAccessToken());
+      const renewAt = (iat + (exp - iat) * timeoutFactor) * 1000;
+      const wait = renewAt - (await clock.now());
+      // Timers that are already due still need one tick to fire
+      await page.clock.fastForward(Math.max(wait, 0) + 1000);
+      // The renewed tokens are validated against the page's clock, so it has to match IdentityServer's again
+      await clock.resumeRealTime();
+    },
+
+    async resumeRealTime() {
+      await page.clock.setSystemTime(Date.now());
+    },
+
+    async blockRenewal() {
+      const identityServerOrigin = new URL(APP_URLS.identityServer).origin;
+      await page.route(url => url.origin === identityServerOrigin, route =>
+        isRenewalRequest(route.request()) ? route.abort() : route.fallback()
+      );
+    },
+  };
+
+  return clock;
+}
+
+/**
+ * Test object with a `sessionClock` fixture (includes the `role` option)
+ *
+ * @example
+ * import { expect } from '@playwright/test';
+ * import { test } from '../../fixtures/session.fixtures';
+ *
+ * test.use({ role: 'manager' });
+ *
+ * test('renews before expiry', async ({ page, sessionClock }) => {
+ *   await page.goto('/employees');
+ *   await sessionClock.fastForwardToRenewal();
+ *   await expect.poll(() => sessionClock.renewals.length).toBeGreaterThan(0);
+ * });
+ */
+export const test = authTest.extend<{ sessionClock: SessionClock }>({
+  sessionClock: async ({ page }, use) => {
+    await page.clock.install();
+    await use(createSessionClock(page));
+  },
+});
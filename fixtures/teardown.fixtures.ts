@@ -0,0 +1,198 @@
+import { test as base, APIRequestContext, BrowserContext, TestInfo } from '@playwright/test';
+import {
+  CreatedRecordEvent,
+  ResourceClient,
+  ResourceName,
+  apiEvents,
+  getCreatedResource,
+  getTokenForRole,
+} from './api.fixtures';
+
+/**
+ * Teardown Fixtures
+ *
+ * Records every entity a test creates and deletes it when the test ends:
+ * - Records created through the API helpers (the 'created' event of
+ *   makeAuthenticatedRequest)
+ * - Records the browser creates (successful POSTs to the API seen by the page)
+ *
+ * Records are deleted with an HRAdmin token, dependents first (employees, then
+ * positions, departments and salary ranges). A record that is already gone is
+ * fine; anything that cannot be deleted is attached to the report as
+ * `teardown-failures` and annotated on the test, without failing it.
+ */
+
+/**
+ * Deletion order: records before the records they reference
+ */
+export const TEARDOWN_ORDER: readonly ResourceName[] = ['employees', 'positions', 'departments', 'salaryRanges'] as const;
+
+/**
+ * A record the registry failed to delete
+ */
+export interface TeardownFailure {
+  resource: ResourceName;
+  id: number;
+  error: string;
+}
+
+/**
+ * Records created during a test, deleted at teardown
+ */
+export class TeardownRegistry {
+  private readonly created = new Map<ResourceName, Set<number>>();
+  private readonly pending = new Set<Promise<void>>();
+
+  /**
+   * Records a created entity
+   * @param resource - Resource the entity belongs to
+   * @param id - Entity ID
+   */
+  record(resource: ResourceName, id: number): void {
+    if (!this.created.has(resource)) {
+      this.created.set(resource, new Set());
+    }
+    this.created.get(resource)!.add(id);
+  }
+
+  /**
+   * Recorded entities, in deletion order
+   */
+  get records(): CreatedRecordEvent[] {
+    return TEARDOWN_ORDER.flatMap(resource => [...(this.created.get(resource) ?? [])].map(id => ({ resource, id })));
+  }
+
+  /**
+   * Records the entities a browser context creates through the API
+   * @param context - Browser context to watch
+   */
+  observe(context: BrowserContext): void {
+    context.on('response', response => {
+      const resource = getCreatedResource(response.request().method(), response.url());
+      if (!resource || !response.ok()) {
+        return;
+      }
+
+      // The body is read asynchronously; teardown waits for it
+      const parsed = response
+        .json()
+        .then(body => {
+          if (typeof body?.data === 'number') {
+            this.record(resource, body.data);
+          }
+        })
+        .catch(() => {
+          // Page closed or no JSON body
+        })
+        .finally(() => this.pending.delete(parsed));
+      this.pending.add(parsed);
+    });
+  }
+
+  /**
+   * Deletes every recorded entity, dependents first
+   * @param request - APIRequestContext to delete with
+   * @param token - Bearer token with delete permission
+   * @returns Entities that could not be deleted
+   */
+  async teardown(request: APIRequestContext, token: string): Promise<TeardownFailure[]> {
+    const failures: TeardownFailure[] = [];
+
+    for (const resource of TEARDOWN_ORDER) {
+      const client = new ResourceClient(request, token, resource);
+      const ids = [...(this.created.get(resource) ?? [])];
+
+      await Promise.all(
+        ids.map(id =>
+          client.delete(id).catch(error => {
+            failures.push({ resource, id, error: error instanceof Error ? error.message : String(error) });
+          })
+        )
+      );
+    }
+
+    this.created.clear();
+    return failures;
+  }
+
+  /**
+   * Waits for browser responses that are still being read
+   */
+  async settle(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+}
+
+/**
+ * Deletes the registry's records with an HRAdmin token and reports failures on the test
+ */
+async function runTeardown(registry: TeardownRegistry, request: APIRequestContext, testInfo: TestInfo): Promise<void> {
+  const records = registry.records;
+  let failures: TeardownFailure[];
+  try {
+    failures = await registry.teardown(request, await getTokenForRole(request, 'hradmin'));
+  } catch (error) {
+    // No admin token: nothing could be deleted
+    failures = records.map(record => ({ ...record, error: `No HRAdmin token: ${String(error)}` }));
+  }
+
+  if (failures.length > 0) {
+    const summary = failures.map(failure => `${failure.resource} ${failure.id}: ${failure.error}`).join('\n');
+    console.warn(`Teardown could not delete ${failures.length} record(s) created by "${testInfo.title}":\n${summary}`);
+    testInfo.annotations.push({ type: 'teardown', description: `${failures.length} record(s) left behind` });
+    await testInfo.attach('teardown-failures', {
+      body: JSON.stringify(failures, null, 2),
+      contentType: 'application/json',
+    });
+  }
+}
+
+/**
+ * Test object with an automatic `teardown` registry
+ *
+ * Every record created through the API helpers or by the page is deleted when
+ * the test ends; call `teardown.record()` for records created any other way.
+ *
+ * @example
+ * import { test, expect } from '../../fixtures/test.fixtures';
+ *
+ * test('creates an employee', async ({ page, request }) => {
+ *   const token = await getTokenForRole(request, 'hradmin');
+ *   await createEmployee(request, token, createEmployeeData());  // deleted after the test
+ *   await page.goto('/employees/create');                        // so is anything the form creates
+ * });
+ */
+export const test = base.extend<{ teardown: TeardownRegistry }>({
+  teardown: [
+    async ({ playwright }, use, testInfo) => {
+      const registry = new TeardownRegistry();
+      const onCreated = ({ resource, id }: CreatedRecordEvent) => registry.record(resource, id);
+
+      apiEvents.on('created', onCreated);
+      try {
+        await use(registry);
+      } finally {
+        apiEvents.off('created', onCreated);
+      }
+
+      await registry.settle();
+      if (registry.records.length === 0) {
+        return;
+      }
+
+      // The test's own request context may already be disposed
+      const request = await playwright.request.newContext({ ignoreHTTPSErrors: true });
+      try {
+        await runTeardown(registry, request, testInfo);
+      } finally {
+        await request.dispose();
+      }
+    },
+    { auto: true },
+  ],
+
+  context: async ({ context, teardown }, use) => {
+    teardown.observe(context);
+    await use(context);
+  },
+});
@@ -0,0 +1,31 @@
+import { mergeTests } from '@playwright/test';
+import { test as sessionTest } from './session.fixtures';
+import { test as requestLogTest } from './request-log.fixtures';
+import { test as trafficTest } from './traffic.fixtures';
+import { test as teardownTest } from './teardown.fixtures';
+import { test as mockApiTest } from './mock-api.fixtures';
+
+/**
+ * Test Fixtures
+ *
+ * The project's test object, combining the fixture sets:
+ * - `role` option - Start logged in as a role (auth.fixtures.ts)
+ * - `sessionClock` - Clock-controlled session lifetime (session.fixtures.ts)
+ * - `teardown` - Automatic deletion of created records (teardown.fixtures.ts)
+ * - `requestLog` - API attempts, to tell environment noise from failures (request-log.fixtures.ts)
+ * - `traffic` / `trafficCapture` option - API and XHR traffic attached to failed tests (traffic.fixtures.ts)
+ * - `mockApi` option - Browser API calls served by the in-memory API (mock-api.fixtures.ts)
+ *
+ * @example
+ * import { test, expect } from '../../fixtures/test.fixtures';
+ *
+ * test.use({ role: 'hradmin' });
+ *
+ * test('creates a position', async ({ page }) => {
+ *   await page.goto('/positions/create');
+ *   // ... the created position is deleted after the test
+ * });
+ */
+export const test = mergeTests(sessionTest, teardownTest, requestLogTest, trafficTest, mockApiTest);
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,158 @@
+import { test as base, BrowserContext, Request } from '@playwright/test';
+import { apiEvents } from './api.fixtures';
+import { TrafficEntry, formatBody, toHar, toHarHeaders } from '../utils/traffic-capture';
+
+/**
+ * Traffic Fixtures
+ *
+ * Records the HTTP traffic of a test and attaches it to the report as
+ * `api-traffic`, a HAR-like JSON document (see utils/traffic-capture.ts):
+ * - Every attempt made through the API helpers (the 'exchange' event of
+ *   makeAuthenticatedRequest), retries included
+ * - The page's XHR and fetch requests
+ *
+ * Authorization and cookie headers and token fields in bodies are redacted,
+ * and bodies are truncated.
+ * By default the traffic is attached only when the test fails; use the
+ * `trafficCapture` option to change that.
+ */
+
+/**
+ * When the traffic is attached: only for failed tests, for every test, or never
+ */
+export type TrafficCaptureMode = 'on-failure' | 'always' | 'off';
+
+// Page requests worth recording; documents, scripts, styles and images are left out
+const BROWSER_RESOURCE_TYPES = ['xhr', 'fetch'];
+
+/**
+ * Traffic recorded during a test
+ */
+export class TrafficRecorder {
+  readonly entries: TrafficEntry[] = [];
+  private readonly pending = new Set<Promise<void>>();
+
+  /**
+   * Adds an entry (usable as a callback)
+   */
+  record = (entry: TrafficEntry): void => {
+    this.entries.push(entry);
+  };
+
+  /**
+   * Records the XHR and fetch requests of a browser context
+   * @param context - Browser context to watch
+   */
+  observe(context: BrowserContext): void {
+    const capture = (request: Request) => {
+      if (!BROWSER_RESOURCE_TYPES.includes(request.resourceType())) {
+        return;
+      }
+
+      // Headers and bodies are read asynchronously; the fixture waits for them
+      const captured = toBrowserEntry(request)
+        .then(this.record)
+        .catch(() => {
+          // Page closed while reading
+        })
+        .finally(() => this.pending.delete(captured));
+      this.pending.add(captured);
+    };
+
+    context.on('requestfinished', capture);
+    context.on('requestfailed', capture);
+  }
+
+  /**
+   * Waits for browser requests that are still being read
+   */
+  async settle(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+}
+
+async function toBrowserEntry(request: Request): Promise<TrafficEntry> {
+  const timing = request.timing();
+  const response = await request.response();
+  const postData = request.postData();
+
+  const entry: TrafficEntry = {
+    _source: 'browser',
+    startedDateTime: new Date(timing.startTime).toISOString(),
+    time: Math.max(timing.responseEnd, 0),
+    request: {
+      method: request.method(),
+      url: request.url(),
+      headers: toHarHeaders(await request.allHeaders()),
+      postData: postData === null
+        ? undefined
+        : { mimeType: (await request.headerValue('content-type')) ?? '', text: formatBody(postData) },
+    },
+    response: { status: 0, statusText: '', headers: [], content: { size: 0, mimeType: '', text: '' } },
+  };
+
+  if (!response) {
+    entry._error = request.failure()?.errorText ?? 'No response';
+    return entry;
+  }
+
+  const headers = await response.allHeaders();
+  const body = await response.text().catch(() => '');
+  entry.response = {
+    status: response.status(),
+    statusText: response.statusText(),
+    headers: toHarHeaders(headers),
+    content: { size: body.length, mimeType: headers['content-type'] ?? '', text: formatBody(body) },
+  };
+  return entry;
+}
+
+/**
+ * Test object with an automatic `traffic` recorder and a `trafficCapture` option
+ *
+ * @example
+ * import { test, expect } from '../../fixtures/test.fixtures';
+ *
+ * test.use({ trafficCapture: 'always' });
+ *
+ * test('creates an employee', async ({ request }) => {
+ *   await createEmployee(request, token, createEmployeeData());  // in the api-traffic attachment
+ * });
+ */
+export const test = base.extend<{ trafficCapture: TrafficCaptureMode; traffic: TrafficRecorder }>({
+  trafficCapture: ['on-failure', { option: true }],
+
+  traffic: [
+    async ({ trafficCapture }, use, testInfo) => {
+      const recorder = new TrafficRecorder();
+
+      if (trafficCapture !== 'off') {
+        apiEvents.on('exchange', recorder.record);
+      }
+      try {
+        await use(recorder);
+      } finally {
+        apiEvents.off('exchange', recorder.record);
+      }
+
+      await recorder.settle();
+      const failed = testInfo.status !== testInfo.expectedStatus;
+      if (recorder.entries.length === 0 || trafficCapture === 'off' || (trafficCapture === 'on-failure' && !failed)) {
+        return;
+      }
+
+      await testInfo.attach('api-traffic', {
+        body: JSON.stringify(toHar(recorder.entries), null, 2),
+        contentType: 'application/json',
+      });
+    },
+    { auto: true },
+  ],
+
+  context: async ({ context, traffic, trafficCapture }, use) => {
+    if (trafficCapture !== 'off') {
+      traffic.observe(context);
+    }
+    await use(context);
+  },
+});
@@ -0,0 +1,130 @@
+import { request, type FullConfig } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { OidcProvider } from './mocks/oidc-provider';
+import { MockTalentApi } from './mocks/talent-api';
+import { APP_URLS } from './config/test-config';
+import { getTokenForRole } from './fixtures/api.fixtures';
+import { DatabaseSnapshot, diffSnapshots, formatSnapshotDiff, takeDatabaseSnapshot } from './utils/db-snapshot';
+import { clearPersistedTokens } from './utils/token-cache';
+
+/**
+ * Global Setup
+ *
+ * Runs once before all projects:
+ * - Points TOKEN_CACHE_DIR at `.token-cache` under the configured output dir
+ *   (unless already set), so every worker shares the same token cache.
+ * - Starts the local OIDC provider stub when OIDC_STUB=true, so auth tests
+ *   can run without IdentityServer. IDENTITY_SERVER_URL is pointed at the
+ *   stub before the workers start, which makes APP_URLS.identityServer
+ *   resolve to it everywhere. The stub signs with a new key on every start,
+ *   so the token cache is cleared. The key is written under the output dir
+ *   (OIDC_STUB_KEY_FILE) for specs that sign tokens the stub would accept.
+ * - Starts the in-memory Web API when MOCK_API=true, so the UI suites can run
+ *   without the .NET API. API_BASE_URL points APP_URLS.api at it, and
+ *   MOCK_API_URL tells the mockApi fixture where to send the browser's API
+ *   calls (the chromium-mock-api project).
+ * - Snapshots the database through the API when DB_SNAPSHOT=true, and diffs
+ *   it against a second snapshot after the run: leaked test records and
+ *   changed or deleted existing records are printed and written to
+ *   db-snapshot-diff.json in the configured output dir. DB_SNAPSHOT_STRICT=true
+ *   also fails the run when there are any.
+ *
+ * The returned function is used by Playwright as the matching teardown.
+ */
+export default async function globalSetup(config: FullConfig): Promise<(() => Promise<void>) | void> {
+  const teardowns: Array<() => Promise<void>> = [];
+
+  process.env.TOKEN_CACHE_DIR ||= path.join(config.projects[0].outputDir, '.token-cache');
+
+  if (process.env.OIDC_STUB === 'true') {
+    teardowns.push(await startOidcStub(config.projects[0].outputDir));
+  }
+  if (process.env.MOCK_API === 'true') {
+    teardowns.push(await startMockApi());
+  }
+  if (process.env.DB_SNAPSHOT === 'true') {
+    teardowns.push(await startDatabaseSnapshot(config.projects[0].outputDir));
+  }
+
+  if (teardowns.length === 0) {
+    return;
+  }
+
+  return async () => {
+    // Last started, first stopped; a failing step does not skip the others
+    const errors: unknown[] = [];
+    for (const teardown of teardowns.reverse()) {
+      await teardown().catch(error => errors.push(error));
+    }
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  };
+}
+
+async function startOidcStub(outputDir: string): Promise<() => Promise<void>> {
+  const provider = new OidcProvider({
+    port: Number(process.env.OIDC_STUB_PORT) || 44399,
+  });
+  await provider.start();
+
+  process.env.IDENTITY_SERVER_URL = provider.issuer;
+  clearPersistedTokens();
+  console.log(`OIDC provider stub listening at ${provider.issuer}`);
+
+  // Read back by readStubSigningKey() in the workers
+  const keyFile = path.join(outputDir, '.oidc-stub', 'signing-key.pem');
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+  fs.writeFileSync(keyFile, provider.signingKey.export({ type: 'pkcs8', format: 'pem' }));
+  process.env.OIDC_STUB_KEY_FILE = keyFile;
+
+  return async () => {
+    fs.rmSync(keyFile, { force: true });
+    await provider.stop();
+  };
+}
+
+async function startMockApi(): Promise<() => Promise<void>> {
+  const api = new MockTalentApi({
+    port: Number(process.env.MOCK_API_PORT) || 44380,
+    // Tokens come from the OIDC stub when it was started above
+    issuer: APP_URLS.identityServer,
+  });
+  await api.start();
+
+  process.env.API_BASE_URL = api.baseUrl;
+  process.env.MOCK_API_URL = api.url;
+  console.log(`In-memory Web API listening at ${api.baseUrl}`);
+
+  return async () => {
+    await api.stop();
+  };
+}
+
+async function startDatabaseSnapshot(outputDir: string): Promise<() => Promise<void>> {
+  const before = await snapshotDatabase();
+  const counts = Object.entries(before.resources).map(([resource, records]) => `${records.length} ${resource}`);
+  console.log(`Database snapshot: ${counts.join(', ')}`);
+
+  return async () => {
+    const diff = diffSnapshots(before, await snapshotDatabase());
+    const reportPath = path.join(outputDir, 'db-snapshot-diff.json');
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, JSON.stringify(diff, null, 2));
+    console.log(formatSnapshotDiff(diff));
+
+    if (!diff.clean && process.env.DB_SNAPSHOT_STRICT === 'true') {
+      throw new Error(`The run leaked test data or changed existing records (see ${path.relative(__dirname, reportPath)})`);
+    }
+  };
+}
+
+async function snapshotDatabase(): Promise<DatabaseSnapshot> {
+  const context = await request.newContext({ ignoreHTTPSErrors: true });
+  try {
+    return await takeDatabaseSnapshot(context, await getTokenForRole(context, 'hradmin'));
+  } finally {
+    await context.dispose();
+  }
+}
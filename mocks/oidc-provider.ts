@@ -0,0 +1,644 @@
+import fs from 'fs';
+import http from 'http';
+import crypto, { KeyObject } from 'crypto';
+import { AddressInfo } from 'net';
+import { getAllUsers } from '../config/user-registry';
+
+/**
+ * OIDC Provider Stub
+ *
+ * In-process stand-in for the IdentityServer used by the Angular app and the
+ * Web API, so auth tests can run without a backend:
+ * - Discovery document and JWKS
+ * - Authorization code flow with PKCE (login form mimics IdentityServer's)
+ * - Password and refresh token grants
+ * - UserInfo and end-session endpoints
+ *
+ * Tokens are RS256-signed JWTs carrying the role and scope claims of the
+ * users in config/user-registry.ts.
+ */
+
+export interface OidcProviderOptions {
+  /** Port to listen on (0 picks a free port) */
+  port?: number;
+  /** Host to bind to */
+  host?: string;
+  /** Audience of issued access tokens */
+  audience?: string;
+  /** Access token lifetime in seconds */
+  accessTokenLifetime?: number;
+  /** Client IDs accepted by the provider (any client when omitted) */
+  clients?: string[];
+}
+
+export interface SigningKey extends JsonWebKey {
+  kid: string;
+}
+
+export interface OidcUser {
+  username: string;
+  password: string;
+  email: string;
+  roles: string[];
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  scope: string;
+  nonce?: string;
+  username: string;
+  expiresAt: number;
+}
+
+interface RefreshGrant {
+  clientId: string;
+  scope: string;
+  username: string;
+}
+
+export interface TokenSet {
+  access_token: string;
+  id_token?: string;
+  refresh_token?: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
+
+const SESSION_COOKIE = 'idsrv.session';
+const AUTHORIZATION_CODE_LIFETIME = 300;
+
+/**
+ * Loads the stub's users from the test user registry
+ */
+function loadUsers(): OidcUser[] {
+  return getAllUsers().map(user => ({
+    username: user.username,
+    password: user.password,
+    email: user.email,
+    roles: user.roles,
+  }));
+}
+
+/**
+ * Derives a stable subject identifier from a username
+ */
+function subjectFor(username: string): string {
+  const hash = crypto.createHash('sha256').update(username).digest('hex');
+  return [hash.slice(0, 8), hash.slice(8, 12), hash.slice(12, 16), hash.slice(16, 20), hash.slice(20, 32)].join('-');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name) {
+      cookies[name] = decodeURIComponent(rest.join('='));
+    }
+  }
+  return cookies;
+}
+
+async function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Reads the signing key of the stub started by global-setup.ts, which writes
+ * it to the file named by OIDC_STUB_KEY_FILE
+ *
+ * @returns The stub's private key, or undefined when no stub was started for the run
+ *
+ * @example
+ * const forged = forgeToken(token, 'expired', readStubSigningKey());
+ */
+export function readStubSigningKey(): KeyObject | undefined {
+  const keyFile = process.env.OIDC_STUB_KEY_FILE;
+  if (!keyFile || !fs.existsSync(keyFile)) {
+    return undefined;
+  }
+  return crypto.createPrivateKey(fs.readFileSync(keyFile, 'utf-8'));
+}
+
+/**
+ * Local OIDC provider mimicking the IdentityServer endpoints used by the suite
+ *
+ * @example
+ * const provider = new OidcProvider({ port: 44399 });
+ * await provider.start();
+ * process.env.IDENTITY_SERVER_URL = provider.issuer;
+ * // ...
+ * await provider.stop();
+ */
+export class OidcProvider {
+  private readonly options: Required<Omit<OidcProviderOptions, 'clients'>> & { clients?: string[] };
+  private readonly users: OidcUser[];
+  private readonly privateKey: KeyObject;
+  private readonly publicJwk: SigningKey;
+  private readonly keyId: string;
+  private readonly codes = new Map<string, AuthorizationCode>();
+  private readonly refreshTokens = new Map<string, RefreshGrant>();
+  private readonly sessions = new Map<string, string>();
+  private readonly antiforgeryTokens = new Set<string>();
+  private server: http.Server | null = null;
+  private baseUrl = '';
+
+  constructor(options: OidcProviderOptions = {}) {
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host ?? 'localhost',
+      audience: options.audience ?? 'app.api.talentmanagement',
+      accessTokenLifetime: options.accessTokenLifetime ?? 3600,
+      clients: options.clients,
+    };
+    this.users = loadUsers();
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.keyId = crypto.randomBytes(8).toString('hex');
+    this.publicJwk = { ...publicKey.export({ format: 'jwk' }), kid: this.keyId, use: 'sig', alg: 'RS256' };
+  }
+
+  /**
+   * Issuer URL (also the base URL of every endpoint)
+   */
+  get issuer(): string {
+    if (!this.server) {
+      throw new Error('OIDC provider is not running');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Private key the provider signs tokens with, so tests can build tokens it
+   * would accept apart from the claims under test (see utils/token-forgery.ts)
+   */
+  get signingKey(): KeyObject {
+    return this.privateKey;
+  }
+
+  /**
+   * Public signing keys in JWKS format
+   */
+  get jwks(): { keys: SigningKey[] } {
+    return { keys: [this.publicJwk] };
+  }
+
+  /**
+   * Starts listening for requests
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        // A response that has started cannot turn into a 500; cut it off instead
+        if (res.headersSent) {
+          res.destroy(error);
+          return;
+        }
+        this.json(res, 500, { error: 'server_error', error_description: String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Stops the server and forgets all codes, sessions and refresh tokens
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    this.codes.clear();
+    this.refreshTokens.clear();
+    this.sessions.clear();
+    this.antiforgeryTokens.clear();
+  }
+
+  /**
+   * Issues tokens for a user without going through any endpoint
+   *
+   * @param username - Username of a known user
+   * @param scope - Space-separated scopes
+   * @param clientId - Client the tokens are issued to
+   * @returns Token endpoint response body
+   */
+  issueTokens(username: string, scope: string, clientId = 'TalentManagement'): TokenSet {
+    const user = this.findUser(username);
+    if (!user) {
+      throw new Error(`Unknown user: ${username}`);
+    }
+    return this.createTokenSet(user, scope, clientId);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.baseUrl);
+    const route = `${req.method} ${url.pathname.toLowerCase()}`;
+
+    switch (route) {
+      case 'GET /.well-known/openid-configuration':
+        return this.json(res, 200, this.discovery());
+      case 'GET /.well-known/openid-configuration/jwks':
+        return this.json(res, 200, this.jwks);
+      case 'GET /connect/authorize':
+        return this.authorize(req, res, url);
+      case 'GET /account/login':
+        return this.loginPage(res, url.searchParams.get('ReturnUrl') || '/');
+      case 'POST /account/login':
+        return this.login(req, res);
+      case 'POST /connect/token':
+        return this.token(req, res);
+      case 'GET /connect/userinfo':
+      case 'POST /connect/userinfo':
+        return this.userInfo(req, res);
+      case 'GET /connect/endsession':
+        return this.endSession(req, res, url);
+      default:
+        return this.json(res, 404, { error: 'not_found' });
+    }
+  }
+
+  private discovery(): Record<string, unknown> {
+    return {
+      issuer: this.baseUrl,
+      jwks_uri: `${this.baseUrl}/.well-known/openid-configuration/jwks`,
+      authorization_endpoint: `${this.baseUrl}/connect/authorize`,
+      token_endpoint: `${this.baseUrl}/connect/token`,
+      userinfo_endpoint: `${this.baseUrl}/connect/userinfo`,
+      end_session_endpoint: `${this.baseUrl}/connect/endsession`,
+      scopes_supported: [
+        'openid', 'profile', 'email', 'roles', 'offline_access',
+        'app.api.talentmanagement.read', 'app.api.talentmanagement.write',
+      ],
+      claims_supported: ['sub', 'name', 'email', 'preferred_username', 'role'],
+      grant_types_supported: ['authorization_code', 'password', 'refresh_token'],
+      response_types_supported: ['code'],
+      response_modes_supported: ['query'],
+      token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['plain', 'S256'],
+    };
+  }
+
+  private authorize(req: http.IncomingMessage, res: http.ServerResponse, url: URL): void {
+    const params = url.searchParams;
+    const clientId = params.get('client_id') || '';
+    const redirectUri = params.get('redirect_uri') || '';
+
+    if (!this.isKnownClient(clientId) || !redirectUri) {
+      return this.json(res, 400, { error: 'invalid_request', error_description: 'Unknown client or missing redirect_uri' });
+    }
+    if (params.get('response_type') !== 'code') {
+      return this.redirect(res, this.withParams(redirectUri, {
+        error: 'unsupported_response_type',
+        state: params.get('state'),
+      }));
+    }
+
+    const username = this.sessions.get(parseCookies(req.headers.cookie)[SESSION_COOKIE]);
+    if (!username) {
+      const returnUrl = `${url.pathname}${url.search}`;
+      return this.redirect(res, `/Account/Login?ReturnUrl=${encodeURIComponent(returnUrl)}`);
+    }
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    this.codes.set(code, {
+      clientId,
+      redirectUri,
+      codeChallenge: params.get('code_challenge') || undefined,
+      codeChallengeMethod: params.get('code_challenge_method') || undefined,
+      scope: params.get('scope') || 'openid',
+      nonce: params.get('nonce') || undefined,
+      username,
+      expiresAt: Date.now() + AUTHORIZATION_CODE_LIFETIME * 1000,
+    });
+
+    this.redirect(res, this.withParams(redirectUri, {
+      code,
+      scope: params.get('scope'),
+      state: params.get('state'),
+    }));
+  }
+
+  private loginPage(res: http.ServerResponse, returnUrl: string, error?: string): void {
+    const antiforgery = crypto.randomBytes(24).toString('base64url');
+    this.antiforgeryTokens.add(antiforgery);
+
+    const html = `<!DOCTYPE html>
+<html>
+<head><title>Login</title></head>
+<body>
+  <h1>Login</h1>
+  ${error ? `<div class="alert alert-danger">${escapeHtml(error)}</div>` : ''}
+  <form method="post" action="/Account/Login">
+    <input type="hidden" name="ReturnUrl" value="${escapeHtml(returnUrl)}" />
+    <input type="hidden" name="__RequestVerificationToken" value="${antiforgery}" />
+    <label for="Username">Username</label>
+    <input id="Username" name="Username" type="text" />
+    <label for="Password">Password</label>
+    <input id="Password" name="Password" type="password" />
+    <button type="submit" name="button" value="login">Login</button>
+  </form>
+</body>
+</html>`;
+
+    res.writeHead(error ? 400 : 200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(html);
+  }
+
+  private async login(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const form = await readForm(req);
+    const returnUrl = form.get('ReturnUrl') || '/';
+    const antiforgery = form.get('__RequestVerificationToken') || '';
+
+    if (!this.antiforgeryTokens.delete(antiforgery)) {
+      return this.json(res, 400, { error: 'invalid_request', error_description: 'Missing or invalid anti-forgery token' });
+    }
+
+    const user = this.findUser(form.get('Username') || '');
+    if (!user || user.password !== form.get('Password')) {
+      return this.loginPage(res, returnUrl, 'Invalid username or password');
+    }
+
+    // Only local redirects, like IdentityServer's IsLocalUrl check
+    const target = returnUrl.startsWith('/') && !returnUrl.startsWith('//') ? returnUrl : '/';
+    const sessionId = crypto.randomBytes(24).toString('base64url');
+    this.sessions.set(sessionId, user.username);
+
+    res.writeHead(302, {
+      Location: target,
+      'Set-Cookie': `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly; SameSite=Lax`,
+    });
+    res.end();
+  }
+
+  private async token(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const form = await readForm(req);
+    const clientId = form.get('client_id') || this.basicAuthClientId(req.headers.authorization);
+
+    if (!clientId || !this.isKnownClient(clientId)) {
+      return this.json(res, 401, { error: 'invalid_client' });
+    }
+
+    switch (form.get('grant_type')) {
+      case 'authorization_code':
+        return this.authorizationCodeGrant(res, form, clientId);
+      case 'password':
+        return this.passwordGrant(res, form, clientId);
+      case 'refresh_token':
+        return this.refreshTokenGrant(res, form, clientId);
+      default:
+        return this.json(res, 400, { error: 'unsupported_grant_type' });
+    }
+  }
+
+  private authorizationCodeGrant(res: http.ServerResponse, form: URLSearchParams, clientId: string): void {
+    const code = form.get('code') || '';
+    const grant = this.codes.get(code);
+    this.codes.delete(code);
+
+    if (!grant || grant.expiresAt < Date.now() || grant.clientId !== clientId) {
+      return this.json(res, 400, { error: 'invalid_grant', error_description: 'Invalid or expired authorization code' });
+    }
+    if (grant.redirectUri !== form.get('redirect_uri')) {
+      return this.json(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+    }
+    if (grant.codeChallenge) {
+      const verifier = form.get('code_verifier') || '';
+      const challenge = grant.codeChallengeMethod === 'S256'
+        ? crypto.createHash('sha256').update(verifier).digest('base64url')
+        : verifier;
+      if (challenge !== grant.codeChallenge) {
+        return this.json(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      }
+    }
+
+    const user = this.findUser(grant.username)!;
+    this.json(res, 200, this.createTokenSet(user, grant.scope, clientId, grant.nonce));
+  }
+
+  private passwordGrant(res: http.ServerResponse, form: URLSearchParams, clientId: string): void {
+    const user = this.findUser(form.get('username') || '');
+    if (!user || user.password !== form.get('password')) {
+      return this.json(res, 400, { error: 'invalid_grant', error_description: 'invalid_username_or_password' });
+    }
+    this.json(res, 200, this.createTokenSet(user, form.get('scope') || 'openid', clientId));
+  }
+
+  private refreshTokenGrant(res: http.ServerResponse, form: URLSearchParams, clientId: string): void {
+    const refreshToken = form.get('refresh_token') || '';
+    const grant = this.refreshTokens.get(refreshToken);
+
+    // Refresh tokens are one-time use and rotated on every exchange
+    this.refreshTokens.delete(refreshToken);
+
+    if (!grant || grant.clientId !== clientId) {
+      return this.json(res, 400, { error: 'invalid_grant', error_description: 'Invalid refresh token' });
+    }
+
+    const user = this.findUser(grant.username)!;
+    this.json(res, 200, this.createTokenSet(user, grant.scope, clientId));
+  }
+
+  private userInfo(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    const payload = scheme === 'Bearer' && token ? this.verifyAccessToken(token) : null;
+
+    if (!payload) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+      res.end();
+      return;
+    }
+
+    const user = this.users.find(u => subjectFor(u.username) === payload.sub);
+    this.json(res, 200, user ? this.userClaims(user) : { sub: payload.sub });
+  }
+
+  private endSession(req: http.IncomingMessage, res: http.ServerResponse, url: URL): void {
+    const sessionId = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    if (sessionId) {
+      this.sessions.delete(sessionId);
+    }
+
+    const returnUrl = url.searchParams.get('post_logout_redirect_uri');
+    const link = returnUrl
+      ? `<p><a class="PostLogoutRedirectUri" href="${escapeHtml(returnUrl)}">click here</a> to return to the application.</p>`
+      : '';
+
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Set-Cookie': `${SESSION_COOKIE}=; Path=/; Max-Age=0`,
+    });
+    res.end(`<!DOCTYPE html>
+<html>
+<head><title>Logout</title></head>
+<body>
+  <h1>Logout</h1>
+  <p>You are now logged out</p>
+  ${link}
+</body>
+</html>`);
+  }
+
+  private createTokenSet(user: OidcUser, scope: string, clientId: string, nonce?: string): TokenSet {
+    const scopes = scope.split(' ').filter(Boolean);
+    const now = Math.floor(Date.now() / 1000);
+    const lifetime = this.options.accessTokenLifetime;
+    const sub = subjectFor(user.username);
+
+    const accessToken = this.sign({
+      iss: this.baseUrl,
+      nbf: now,
+      iat: now,
+      exp: now + lifetime,
+      aud: this.options.audience,
+      scope: scopes,
+      client_id: clientId,
+      sub,
+      auth_time: now,
+      idp: 'local',
+      jti: crypto.randomBytes(16).toString('hex'),
+      ...this.userClaims(user),
+    }, 'at+jwt');
+
+    const tokenSet: TokenSet = {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: lifetime,
+      scope: scopes.join(' '),
+    };
+
+    if (scopes.includes('openid')) {
+      tokenSet.id_token = this.sign({
+        iss: this.baseUrl,
+        nbf: now,
+        iat: now,
+        exp: now + 300,
+        aud: clientId,
+        sub,
+        auth_time: now,
+        idp: 'local',
+        ...(nonce ? { nonce } : {}),
+        ...this.userClaims(user),
+      }, 'JWT');
+    }
+
+    if (scopes.includes('offline_access')) {
+      const refreshToken = crypto.randomBytes(32).toString('base64url');
+      this.refreshTokens.set(refreshToken, { clientId, scope: scopes.join(' '), username: user.username });
+      tokenSet.refresh_token = refreshToken;
+    }
+
+    return tokenSet;
+  }
+
+  private userClaims(user: OidcUser): Record<string, unknown> {
+    return {
+      sub: subjectFor(user.username),
+      name: user.username,
+      preferred_username: user.username,
+      email: user.email,
+      // IdentityServer serializes a single role as a string and several as an array
+      role: user.roles.length === 1 ? user.roles[0] : user.roles,
+    };
+  }
+
+  private sign(payload: Record<string, unknown>, typ: string): string {
+    const header = { alg: 'RS256', kid: this.keyId, typ };
+    const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+    const signingInput = `${encode(header)}.${encode(payload)}`;
+    const signature = crypto.sign('sha256', Buffer.from(signingInput), this.privateKey).toString('base64url');
+    return `${signingInput}.${signature}`;
+  }
+
+  private verifyAccessToken(token: string): Record<string, any> | null {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+      return null;
+    }
+
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      crypto.createPublicKey({ key: this.publicJwk, format: 'jwk' }),
+      Buffer.from(signature, 'base64url')
+    );
+    if (!valid) {
+      return null;
+    }
+
+    // Issuer and lifetime, as IdentityServer checks them for userinfo
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.iss !== this.baseUrl || (typeof claims.nbf === 'number' && claims.nbf > now)) {
+      return null;
+    }
+    return claims.exp > now ? claims : null;
+  }
+
+  private findUser(username: string): OidcUser | undefined {
+    return this.users.find(user => user.username.toLowerCase() === username.toLowerCase());
+  }
+
+  private isKnownClient(clientId: string): boolean {
+    return !!clientId && (!this.options.clients || this.options.clients.includes(clientId));
+  }
+
+  private basicAuthClientId(header: string | undefined): string | null {
+    if (!header?.startsWith('Basic ')) {
+      return null;
+    }
+    const decoded = Buffer.from(header.slice(6), 'base64').toString('utf-8');
+    return decodeURIComponent(decoded.split(':')[0]);
+  }
+
+  private withParams(base: string, params: Record<string, string | null>): string {
+    const target = new URL(base);
+    for (const [key, value] of Object.entries(params)) {
+      if (value) {
+        target.searchParams.set(key, value);
+      }
+    }
+    return target.toString();
+  }
+
+  private redirect(res: http.ServerResponse, location: string): void {
+    res.writeHead(302, { Location: location });
+    res.end();
+  }
+
+  private json(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,853 @@
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import openapi from '../api/openapi.json';
+import { POSITION_COMMAND_SCHEMAS } from '../api/position-models';
+import { getSchema } from '../api/schema-registry';
+import { ENDPOINT_KEYS, EndpointKey, endpointTemplate } from '../config/endpoints';
+import { JsonSchema, validateSchema } from '../utils/schema-validator';
+import { verifyToken } from '../utils/token-manager';
+
+/**
+ * Talent Management Web API Mock
+ *
+ * In-process stand-in for the .NET Web API, so the UI suites can run without
+ * it:
+ * - Every API route in config/api-endpoints.json (the `auth` group belongs to
+ *   IdentityServer, see oidc-provider.ts)
+ * - In-memory store with seed data, reset on demand
+ * - The API's envelope (`succeeded`, `message`, `errors`, `data`), paging
+ *   fields and filters, and ProblemDetails validation errors checked against
+ *   the command schemas in api/openapi.json (positions: api/position-models.ts)
+ * - Role and scope rules from the access token (see ACCESS_RULES)
+ * - ETag validators and cache statistics for the `cache` endpoints
+ * - Fault injection (error statuses, delays, dropped connections)
+ *
+ * Admin routes, without authentication:
+ * - `POST /__admin/reset` - Restore the seed data and clear faults
+ * - `GET /__admin/faults` / `POST /__admin/faults` / `DELETE /__admin/faults`
+ */
+
+export interface MockTalentApiOptions {
+  /** Port to listen on (0 picks a free port) */
+  port?: number;
+  /** Host to bind to */
+  host?: string;
+  /** Path the API routes are served under */
+  basePath?: string;
+  /**
+   * Issuer of accepted access tokens; their signature is checked against its
+   * JWKS. When omitted, tokens are only decoded (claims are still enforced).
+   */
+  issuer?: string;
+  /** Expected audience of access tokens */
+  audience?: string;
+}
+
+/**
+ * Resources kept in the store, named like config/api-endpoints.json
+ */
+export type MockResource = 'employees' | 'departments' | 'positions' | 'salaryRanges';
+
+/**
+ * A failure to inject into matching requests
+ */
+export interface MockFault {
+  /** HTTP method to match (any when omitted) */
+  method?: string;
+  /** Matched against the path and query string; a string matches when contained */
+  path?: string | RegExp;
+  /** Answer with this status instead of handling the request */
+  status?: number;
+  /** Body sent with `status` (an error envelope by default) */
+  body?: unknown;
+  /** Extra response headers sent with `status` (e.g. Retry-After) */
+  headers?: Record<string, string>;
+  /** Wait this long before answering */
+  delayMs?: number;
+  /** Destroy the connection without answering */
+  drop?: boolean;
+  /** Number of requests to affect (all when omitted) */
+  times?: number;
+}
+
+type StoredRecord = Record<string, any> & { id: number };
+
+interface Caller {
+  roles: string[];
+  scopes: string[];
+}
+
+interface Route {
+  key: EndpointKey;
+  method: string;
+  pattern: RegExp;
+}
+
+interface ResourceDefinition {
+  /** Entity name used in messages */
+  label: string;
+  createSchema: string;
+  updateSchema: string;
+  /** Query parameters that filter the list, mapped to the fields they match */
+  filters: Record<string, string>;
+  /** Foreign keys and the resource they point to */
+  references: Record<string, MockResource>;
+}
+
+/**
+ * Roles allowed to call each kind of operation, mirroring config/test-users.json:
+ * managers edit employees and departments, only HR admins touch positions and
+ * salary ranges, delete records or invalidate the cache.
+ */
+const ACCESS_RULES = {
+  write: {
+    employees: ['Manager', 'HRAdmin'],
+    departments: ['Manager', 'HRAdmin'],
+    positions: ['HRAdmin'],
+    salaryRanges: ['HRAdmin'],
+  } as Record<MockResource, string[]>,
+  delete: ['HRAdmin'],
+  cacheInvalidate: ['HRAdmin'],
+};
+
+const READ_SCOPE = 'app.api.talentmanagement.read';
+const WRITE_SCOPE = 'app.api.talentmanagement.write';
+
+const PAGING_PARAMETERS = ['PageNumber', 'PageSize', 'OrderBy'];
+const DEFAULT_PAGE_SIZE = 10;
+const CACHE_CONTROL = 'private, no-cache';
+
+const ACTION_METHODS: Record<string, string> = {
+  list: 'GET',
+  detail: 'GET',
+  search: 'GET',
+  create: 'POST',
+  update: 'PUT',
+  delete: 'DELETE',
+  metrics: 'GET',
+  employeeCount: 'GET',
+  departmentCount: 'GET',
+  positionCount: 'GET',
+  invalidate: 'POST',
+  statistics: 'GET',
+};
+
+const RESOURCES: Record<MockResource, ResourceDefinition> = {
+  employees: {
+    label: 'Employee',
+    createSchema: 'CreateEmployeeCommand',
+    updateSchema: 'UpdateEmployeeCommand',
+    filters: listFilters('employees'),
+    references: { positionId: 'positions', departmentId: 'departments' },
+  },
+  departments: {
+    label: 'Department',
+    createSchema: 'CreateDepartmentCommand',
+    updateSchema: 'UpdateDepartmentCommand',
+    filters: listFilters('departments'),
+    references: { managerId: 'employees' },
+  },
+  positions: {
+    label: 'Position',
+    createSchema: 'CreatePositionCommand',
+    updateSchema: 'UpdatePositionCommand',
+    filters: listFilters('positions'),
+    references: { departmentId: 'departments', salaryRangeId: 'salaryRanges' },
+  },
+  salaryRanges: {
+    label: 'Salary range',
+    createSchema: 'CreateSalaryRangeCommand',
+    updateSchema: 'UpdateSalaryRangeCommand',
+    filters: listFilters('salaryRanges'),
+    references: {},
+  },
+};
+
+/**
+ * Command schema by name; the position commands are not in api/openapi.json yet
+ */
+function getCommandSchema(name: string): JsonSchema {
+  return POSITION_COMMAND_SCHEMAS[name as keyof typeof POSITION_COMMAND_SCHEMAS] ?? getSchema(name);
+}
+
+/**
+ * Filter parameters of a resource's list operation in api/openapi.json,
+ * e.g. { FirstName: 'firstName' }
+ */
+function listFilters(resource: MockResource): Record<string, string> {
+  const paths = openapi.paths as Record<string, Record<string, any>>;
+  const operation = paths[`/api/v1${endpointTemplate(`${resource}.list`)}`]?.get;
+  const parameters: Array<{ name: string; in: string }> = operation?.parameters ?? [];
+  return Object.fromEntries(
+    parameters
+      .filter(parameter => parameter.in === 'query' && !PAGING_PARAMETERS.includes(parameter.name))
+      .map(parameter => [parameter.name, parameter.name[0].toLowerCase() + parameter.name.slice(1)])
+  );
+}
+
+/**
+ * Routes of every API endpoint (the `auth` group is served by IdentityServer)
+ *
+ * Like the API's routes, `{id}` has no type constraint: a non-numeric ID is
+ * authorized first and then rejected with 400. Literal routes come first, so
+ * /employees/search is not taken for /employees/{id}.
+ */
+function buildRoutes(): Route[] {
+  const routes = ENDPOINT_KEYS.filter(key => !key.startsWith('auth.')).map(key => {
+    const action = key.split('.')[1];
+    const method = ACTION_METHODS[action];
+    if (!method) {
+      throw new Error(`No HTTP method known for endpoint ${key}; add "${action}" to ACTION_METHODS in mocks/talent-api.ts`);
+    }
+    const template = endpointTemplate(key).replace(/\{(\w+)\}/g, '(?<$1>[^/]+)');
+    return { key, method, pattern: new RegExp(`^${template}$`, 'i') };
+  });
+  const hasParameter = (route: Route) => endpointTemplate(route.key).includes('{');
+  return [...routes.filter(route => !hasParameter(route)), ...routes.filter(hasParameter)];
+}
+
+/**
+ * Seed data: 4 salary ranges, 5 positions, 4 departments and 24 employees
+ */
+function createSeedData(): Record<MockResource, StoredRecord[]> {
+  const salaryRanges = [
+    { id: 1, name: 'Entry Level', minSalary: 35000, maxSalary: 55000 },
+    { id: 2, name: 'Mid Level', minSalary: 55000, maxSalary: 85000 },
+    { id: 3, name: 'Senior Level', minSalary: 85000, maxSalary: 130000 },
+    { id: 4, name: 'Executive', minSalary: 130000, maxSalary: 220000 },
+  ];
+  const positions = [
+    { id: 1, positionTitle: 'Software Engineer', positionNumber: 'POS-001', positionDescription: 'Builds and maintains applications', departmentId: 1, salaryRangeId: 2 },
+    { id: 2, positionTitle: 'Senior Software Engineer', positionNumber: 'POS-002', positionDescription: 'Leads technical design', departmentId: 1, salaryRangeId: 3 },
+    { id: 3, positionTitle: 'HR Specialist', positionNumber: 'POS-003', positionDescription: 'Supports hiring and onboarding', departmentId: 2, salaryRangeId: 1 },
+    { id: 4, positionTitle: 'Account Executive', positionNumber: 'POS-004', positionDescription: 'Manages client accounts', departmentId: 3, salaryRangeId: 2 },
+    { id: 5, positionTitle: 'Engineering Manager', positionNumber: 'POS-005', positionDescription: 'Manages engineering teams', departmentId: 1, salaryRangeId: 4 },
+  ];
+  const departments = [
+    { id: 1, name: 'Engineering', location: 'Seattle', managerId: 5 },
+    { id: 2, name: 'Human Resources', location: 'Chicago', managerId: 3 },
+    { id: 3, name: 'Sales', location: 'New York', managerId: null },
+    { id: 4, name: 'Finance', location: 'Boston', managerId: null },
+  ];
+
+  const firstNames = ['Alice', 'Brian', 'Carmen', 'David', 'Elena', 'Farid', 'Grace', 'Hiro', 'Isabel', 'Jamal', 'Kira', 'Liam'];
+  const lastNames = ['Anderson', 'Brooks', 'Castillo', 'Dubois', 'Eriksen', 'Fischer', 'Gupta', 'Hansen', 'Ito', 'Johnson', 'Kowalski', 'Lopez'];
+  const employees = Array.from({ length: 24 }, (_, index) => {
+    const firstName = firstNames[index % firstNames.length];
+    const lastName = lastNames[(index * 5) % lastNames.length];
+    const position = positions[index % positions.length];
+    const range = salaryRanges[position.salaryRangeId - 1];
+    return {
+      id: index + 1,
+      employeeNumber: `E${String(index + 1).padStart(4, '0')}`,
+      firstName,
+      lastName,
+      email: `${firstName}.${lastName}${index + 1}@talent.example.com`.toLowerCase(),
+      phoneNumber: `555-01${String(index).padStart(2, '0')}`,
+      dateOfBirth: `${1970 + (index % 30)}-${String((index % 12) + 1).padStart(2, '0')}-15`,
+      gender: index % 3,
+      hireDate: `${2012 + (index % 12)}-${String(((index * 7) % 12) + 1).padStart(2, '0')}-01`,
+      salary: range.minSalary + ((index * 2500) % (range.maxSalary - range.minSalary)),
+      positionId: position.id,
+      departmentId: departments[index % departments.length].id,
+    };
+  });
+
+  return { salaryRanges, positions, departments, employees };
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function toArray(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return typeof value === 'string' ? value.split(' ').filter(Boolean) : [];
+}
+
+/**
+ * Local Web API serving the routes of config/api-endpoints.json from memory
+ *
+ * @example
+ * const api = new MockTalentApi({ port: 44380, issuer: APP_URLS.identityServer });
+ * await api.start();
+ * process.env.API_BASE_URL = api.baseUrl;   // http://localhost:44380/api/v1
+ * api.injectFault({ method: 'GET', path: '/employees', status: 503, times: 1 });
+ * // ...
+ * api.reset();
+ * await api.stop();
+ */
+export class MockTalentApi {
+  private readonly options: Required<Omit<MockTalentApiOptions, 'issuer'>> & { issuer?: string };
+  private readonly routes = buildRoutes();
+  private store = {} as Record<MockResource, Map<number, StoredRecord>>;
+  private nextIds = {} as Record<MockResource, number>;
+  private faults: MockFault[] = [];
+  private cacheEntries = new Set<string>();
+  private cacheStatistics = { hits: 0, misses: 0, invalidations: 0 };
+  private lastModified = new Date();
+  private server: http.Server | null = null;
+  private origin = '';
+
+  constructor(options: MockTalentApiOptions = {}) {
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host ?? 'localhost',
+      basePath: options.basePath ?? '/api/v1',
+      audience: options.audience ?? 'app.api.talentmanagement',
+      issuer: options.issuer,
+    };
+    this.reset();
+  }
+
+  /**
+   * Origin the server listens on, e.g. http://localhost:44380
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Mock Web API is not running');
+    }
+    return this.origin;
+  }
+
+  /**
+   * Base URL of the API routes (what APP_URLS.api points to)
+   */
+  get baseUrl(): string {
+    return `${this.url}${this.options.basePath}`;
+  }
+
+  /**
+   * Starts listening for requests
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!res.headersSent) {
+          this.json(res, 500, this.envelope(null, { succeeded: false, message: String(error) }));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.origin = `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Stops the server
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Restores the seed data and clears faults and cache statistics
+   */
+  reset(): void {
+    const seed = createSeedData();
+    for (const resource of Object.keys(RESOURCES) as MockResource[]) {
+      this.store[resource] = new Map(seed[resource].map(record => [record.id, record]));
+      this.nextIds[resource] = Math.max(0, ...seed[resource].map(record => record.id)) + 1;
+    }
+    this.faults = [];
+    this.cacheEntries.clear();
+    this.cacheStatistics = { hits: 0, misses: 0, invalidations: 0 };
+    this.lastModified = new Date();
+  }
+
+  /**
+   * Injects a fault into the requests it matches (earlier faults take precedence)
+   *
+   * @param fault - Which requests to affect and how
+   */
+  injectFault(fault: MockFault): void {
+    this.faults.push({ ...fault });
+  }
+
+  /**
+   * Removes every injected fault
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Current records of a resource, as the API returns them
+   *
+   * @param resource - Resource name
+   * @returns Records ordered by ID
+   */
+  records(resource: MockResource): Record<string, unknown>[] {
+    return [...this.store[resource].values()].map(record => this.present(resource, record));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.origin);
+    const method = (req.method || 'GET').toUpperCase();
+    this.setCorsHeaders(req, res);
+
+    if (method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] || 'Authorization, Content-Type',
+        'Access-Control-Max-Age': '600',
+      });
+      res.end();
+      return;
+    }
+
+    if (url.pathname.startsWith('/__admin/')) {
+      return this.admin(req, res, method, url.pathname);
+    }
+
+    if (await this.applyFault(res, method, `${url.pathname}${url.search}`)) {
+      return;
+    }
+
+    const basePath = this.options.basePath.toLowerCase();
+    const path = url.pathname.toLowerCase().startsWith(basePath) ? url.pathname.slice(basePath.length) : null;
+    const route = path === null ? undefined : this.routes.find(candidate => candidate.method === method && candidate.pattern.test(path));
+    if (!route) {
+      res.writeHead(path !== null && this.routes.some(candidate => candidate.pattern.test(path)) ? 405 : 404);
+      res.end();
+      return;
+    }
+
+    const caller = await this.authenticate(req, res);
+    if (!caller) {
+      return;
+    }
+
+    const [group, action] = route.key.split('.');
+    if (!this.authorize(caller, group, action)) {
+      res.writeHead(403);
+      res.end();
+      return;
+    }
+
+    const rawId = route.pattern.exec(path!)!.groups?.id;
+    if (rawId !== undefined && !/^-?\d+$/.test(rawId)) {
+      return this.validationProblem(res, { id: [`The value '${decodeURIComponent(rawId)}' is not valid.`] });
+    }
+    const id = Number(rawId);
+
+    if (group in RESOURCES) {
+      const resource = group as MockResource;
+      switch (action) {
+        case 'list':
+        case 'search':
+          return this.respondCacheable(req, res, this.list(resource, url.searchParams));
+        case 'detail':
+          return this.detail(req, res, resource, id);
+        case 'create':
+          return this.create(req, res, resource);
+        case 'update':
+          return this.update(req, res, resource, id);
+        case 'delete':
+          return this.remove(res, resource, id);
+      }
+    }
+
+    switch (route.key) {
+      case 'dashboard.metrics':
+        return this.respondCacheable(req, res, this.envelope({
+          totalEmployees: this.store.employees.size,
+          totalDepartments: this.store.departments.size,
+          totalPositions: this.store.positions.size,
+          totalSalaryRanges: this.store.salaryRanges.size,
+        }));
+      case 'dashboard.employeeCount':
+        return this.respondCacheable(req, res, this.envelope(this.store.employees.size));
+      case 'dashboard.departmentCount':
+        return this.respondCacheable(req, res, this.envelope(this.store.departments.size));
+      case 'dashboard.positionCount':
+        return this.respondCacheable(req, res, this.envelope(this.store.positions.size));
+      case 'cache.statistics':
+        return this.json(res, 200, this.envelope({ ...this.cacheStatistics, entries: this.cacheEntries.size }));
+      case 'cache.invalidate':
+        this.invalidateCache();
+        this.cacheStatistics.invalidations++;
+        return this.json(res, 200, this.envelope(null, { message: 'Cache invalidated' }));
+      default:
+        throw new Error(`No handler for endpoint ${route.key}`);
+    }
+  }
+
+  private async admin(req: http.IncomingMessage, res: http.ServerResponse, method: string, pathname: string): Promise<void> {
+    switch (`${method} ${pathname.toLowerCase()}`) {
+      case 'POST /__admin/reset':
+        this.reset();
+        return this.json(res, 200, { reset: true });
+      case 'GET /__admin/faults':
+        return this.json(res, 200, this.faults.map(fault => ({
+          ...fault,
+          path: fault.path instanceof RegExp ? fault.path.source : fault.path,
+        })));
+      case 'POST /__admin/faults': {
+        let fault: MockFault;
+        try {
+          fault = JSON.parse(await readBody(req));
+        } catch {
+          return this.json(res, 400, { error: 'Body must be a JSON fault' });
+        }
+        this.injectFault(fault);
+        return this.json(res, 201, fault);
+      }
+      case 'DELETE /__admin/faults':
+        this.clearFaults();
+        return this.json(res, 200, { cleared: true });
+      default:
+        return this.json(res, 404, { error: 'Unknown admin route' });
+    }
+  }
+
+  private async applyFault(res: http.ServerResponse, method: string, target: string): Promise<boolean> {
+    const fault = this.faults.find(candidate =>
+      (!candidate.method || candidate.method.toUpperCase() === method) &&
+      (candidate.path === undefined ||
+        (candidate.path instanceof RegExp ? candidate.path.test(target) : target.includes(candidate.path)))
+    );
+    if (!fault) {
+      return false;
+    }
+
+    if (fault.times !== undefined && --fault.times <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1);
+    }
+    if (fault.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, fault.delayMs));
+    }
+    if (fault.drop) {
+      res.destroy();
+      return true;
+    }
+    if (fault.status === undefined) {
+      return false;
+    }
+
+    this.json(res, fault.status, fault.body ?? this.envelope(null, {
+      succeeded: false,
+      message: `Injected fault: ${fault.status}`,
+      errors: [`Injected fault for ${method} ${target}`],
+    }), fault.headers);
+    return true;
+  }
+
+  private async authenticate(req: http.IncomingMessage, res: http.ServerResponse): Promise<Caller | null> {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' });
+      res.end();
+      return null;
+    }
+
+    let payload: any;
+    if (this.options.issuer) {
+      const result = await verifyToken(token, {
+        issuer: this.options.issuer,
+        audience: this.options.audience,
+        jwksUrl: `${this.options.issuer.replace(/\/$/, '')}/.well-known/openid-configuration/jwks`,
+      });
+      if (!result.valid) {
+        res.writeHead(401, { 'WWW-Authenticate': `Bearer error="invalid_token", error_description="${result.reason}"` });
+        res.end();
+        return null;
+      }
+      payload = result.payload;
+    } else {
+      try {
+        payload = JSON.parse(Buffer.from(token.split('.')[1] || '', 'base64url').toString('utf-8'));
+      } catch {
+        res.writeHead(401, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+        res.end();
+        return null;
+      }
+    }
+
+    return { roles: toArray(payload.role), scopes: toArray(payload.scope) };
+  }
+
+  private authorize(caller: Caller, group: string, action: string): boolean {
+    const isWrite = ACTION_METHODS[action] !== 'GET';
+    if (!caller.scopes.includes(isWrite ? WRITE_SCOPE : READ_SCOPE) && !caller.scopes.includes(WRITE_SCOPE)) {
+      return false;
+    }
+    if (!isWrite) {
+      return true;
+    }
+
+    const hasRole = (roles: string[]) => caller.roles.some(role => roles.includes(role));
+    if (group === 'cache') {
+      return hasRole(ACCESS_RULES.cacheInvalidate);
+    }
+    if (action === 'delete') {
+      return hasRole(ACCESS_RULES.delete);
+    }
+    return hasRole(ACCESS_RULES.write[group as MockResource]);
+  }
+
+  private list(resource: MockResource, query: URLSearchParams): Record<string, unknown> {
+    const all = [...this.store[resource].values()];
+    let records = all;
+
+    for (const [parameter, field] of Object.entries(RESOURCES[resource].filters)) {
+      const value = query.get(parameter)?.trim().toLowerCase();
+      if (value) {
+        records = records.filter(record => String(record[field] ?? '').toLowerCase().includes(value));
+      }
+    }
+
+    const [orderField, direction] = (query.get('OrderBy') || '').trim().split(/\s+/);
+    if (orderField) {
+      const field = orderField[0].toLowerCase() + orderField.slice(1);
+      const sign = direction?.toLowerCase() === 'desc' ? -1 : 1;
+      records = [...records].sort((a, b) =>
+        sign * (typeof a[field] === 'number' && typeof b[field] === 'number'
+          ? a[field] - b[field]
+          : String(a[field] ?? '').localeCompare(String(b[field] ?? '')))
+      );
+    }
+
+    const pageNumber = Math.max(1, Number(query.get('PageNumber')) || 1);
+    const pageSize = Math.max(1, Number(query.get('PageSize')) || DEFAULT_PAGE_SIZE);
+    const page = records.slice((pageNumber - 1) * pageSize, pageNumber * pageSize);
+
+    return {
+      pageNumber,
+      pageSize,
+      recordsFiltered: records.length,
+      recordsTotal: all.length,
+      ...this.envelope(page.map(record => this.present(resource, record))),
+    };
+  }
+
+  private detail(req: http.IncomingMessage, res: http.ServerResponse, resource: MockResource, id: number): void {
+    const record = this.store[resource].get(id);
+    if (!record) {
+      return this.notFound(res, resource, id);
+    }
+    this.respondCacheable(req, res, this.envelope(this.present(resource, record)));
+  }
+
+  private async create(req: http.IncomingMessage, res: http.ServerResponse, resource: MockResource): Promise<void> {
+    const body = await this.readCommand(req, res, resource, RESOURCES[resource].createSchema);
+    if (!body) {
+      return;
+    }
+
+    const id = this.nextIds[resource]++;
+    this.store[resource].set(id, this.toRecord(resource, id, body));
+    this.changed();
+    res.setHeader('Location', `${this.baseUrl}${endpointTemplate(`${resource}.detail`).replace('{id}', String(id))}`);
+    this.json(res, 201, this.envelope(id));
+  }
+
+  private async update(req: http.IncomingMessage, res: http.ServerResponse, resource: MockResource, id: number): Promise<void> {
+    const body = await this.readCommand(req, res, resource, RESOURCES[resource].updateSchema, id);
+    if (!body) {
+      return;
+    }
+    if (!this.store[resource].has(id)) {
+      return this.notFound(res, resource, id);
+    }
+
+    this.store[resource].set(id, this.toRecord(resource, id, body));
+    this.changed();
+    this.json(res, 200, this.envelope(id));
+  }
+
+  private remove(res: http.ServerResponse, resource: MockResource, id: number): void {
+    if (!this.store[resource].delete(id)) {
+      return this.notFound(res, resource, id);
+    }
+    this.changed();
+    this.json(res, 200, this.envelope(id));
+  }
+
+  /**
+   * Parses and validates a create/update body, answering 400 with ProblemDetails when it is invalid
+   */
+  private async readCommand(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    resource: MockResource,
+    schemaName: string,
+    id?: number
+  ): Promise<Record<string, any> | null> {
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      this.validationProblem(res, { '$': ['The JSON value could not be converted.'] });
+      return null;
+    }
+
+    const errors: Record<string, string[]> = {};
+    const addError = (field: string, message: string) => {
+      const key = field[0].toUpperCase() + field.slice(1);
+      (errors[key] ??= []).push(message);
+    };
+
+    // Unknown properties are ignored, like the API's model binder does
+    for (const violation of validateSchema(body, getCommandSchema(schemaName), getSchema).filter(v => v.breaking)) {
+      const field = violation.path.replace(/^\$\.?/, '').split(/[.[]/)[0] || '$';
+      addError(field, violation.message);
+    }
+
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      const command = body as Record<string, any>;
+      for (const field of getCommandSchema(schemaName).required ?? []) {
+        if (typeof command[field] === 'string' && command[field].trim() === '') {
+          addError(field, `'${field}' must not be empty.`);
+        }
+      }
+      for (const [field, target] of Object.entries(RESOURCES[resource].references)) {
+        const value = command[field];
+        if (typeof value === 'number' && !this.store[target].has(value)) {
+          addError(field, `${RESOURCES[target].label} ${value} does not exist.`);
+        }
+      }
+      if (resource === 'salaryRanges' && typeof command.minSalary === 'number' && command.maxSalary < command.minSalary) {
+        addError('maxSalary', 'Maximum salary must be greater than or equal to minimum salary.');
+      }
+      if (id !== undefined && command.id !== undefined && command.id !== id) {
+        addError('id', `Id ${command.id} in the body does not match ${id} in the route.`);
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      this.validationProblem(res, errors);
+      return null;
+    }
+    return body as Record<string, any>;
+  }
+
+  /**
+   * Keeps only the fields of the resource's create command
+   */
+  private toRecord(resource: MockResource, id: number, body: Record<string, any>): StoredRecord {
+    const fields = Object.keys(getCommandSchema(RESOURCES[resource].createSchema).properties ?? {});
+    return { id, ...Object.fromEntries(fields.map(field => [field, body[field] ?? null])) };
+  }
+
+  /**
+   * A stored record with the fields the API joins in (names of related records, counts)
+   */
+  private present(resource: MockResource, record: StoredRecord): Record<string, unknown> {
+    switch (resource) {
+      case 'employees':
+        return {
+          ...record,
+          positionTitle: this.store.positions.get(record.positionId)?.positionTitle ?? null,
+          departmentName: this.store.departments.get(record.departmentId)?.name ?? null,
+        };
+      case 'departments':
+        return {
+          ...record,
+          employeeCount: [...this.store.employees.values()].filter(employee => employee.departmentId === record.id).length,
+        };
+      default:
+        return { ...record };
+    }
+  }
+
+  /**
+   * Sends a 200 with ETag and Last-Modified, or a 304 when the client's validator is current
+   */
+  private respondCacheable(req: http.IncomingMessage, res: http.ServerResponse, body: unknown): void {
+    const payload = JSON.stringify(body);
+    const etag = `"${crypto.createHash('sha1').update(payload).digest('hex').slice(0, 16)}"`;
+    const lastModified = this.lastModified.toUTCString();
+    const cacheKey = `${req.url}|${etag}`;
+
+    if (this.cacheEntries.has(cacheKey)) {
+      this.cacheStatistics.hits++;
+    } else {
+      this.cacheStatistics.misses++;
+      this.cacheEntries.add(cacheKey);
+    }
+
+    const headers = { 'ETag': etag, 'Last-Modified': lastModified, 'Cache-Control': CACHE_CONTROL };
+    const ifNoneMatch = req.headers['if-none-match'];
+    const ifModifiedSince = req.headers['if-modified-since'];
+    const notModified = ifNoneMatch !== undefined
+      ? ifNoneMatch.split(',').map(tag => tag.trim().replace(/^W\//, '')).includes(etag)
+      : ifModifiedSince !== undefined && Date.parse(ifModifiedSince) >= Date.parse(lastModified);
+
+    if (notModified) {
+      res.writeHead(304, headers);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { ...headers, 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(payload);
+  }
+
+  private changed(): void {
+    this.lastModified = new Date();
+    this.invalidateCache();
+  }
+
+  private invalidateCache(): void {
+    this.cacheEntries.clear();
+  }
+
+  private notFound(res: http.ServerResponse, resource: MockResource, id: number): void {
+    this.json(res, 404, this.envelope(null, { succeeded: false, message: `${RESOURCES[resource].label} with id ${id} was not found.` }));
+  }
+
+  private validationProblem(res: http.ServerResponse, errors: Record<string, string[]>): void {
+    res.writeHead(400, { 'Content-Type': 'application/problem+json; charset=utf-8' });
+    res.end(JSON.stringify({
+      type: 'https://tools.ietf.org/html/rfc9110#section-15.5.1',
+      title: 'One or more validation errors occurred.',
+      status: 400,
+      errors,
+    }));
+  }
+
+  private envelope(
+    data: unknown,
+    overrides: { succeeded?: boolean; message?: string | null; errors?: string[] | null } = {}
+  ): Record<string, unknown> {
+    return { succeeded: true, message: null, errors: null, ...overrides, data };
+  }
+
+  private setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const origin = req.headers.origin;
+    res.setHeader('Access-Control-Allow-Origin', origin || '*');
+    res.setHeader('Access-Control-Expose-Headers', 'ETag, Last-Modified, Location');
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+      res.setHeader('Vary', 'Origin');
+    }
+  }
+
+  private json(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { ...headers, 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+  }
+}
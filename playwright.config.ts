@@ -1,5 +1,7 @@
 import { defineConfig, devices } from '@playwright/test';
 import { APP_URLS, TIMEOUTS, VIEWPORTS } from './config/test-config';
+import { getEnvironmentName } from './config/environment';
+import type { MockApiOptions } from './fixtures/mock-api.fixtures';
 
 /**
  * Read environment variables from file.
@@ -17,13 +19,21 @@ import { APP_URLS, TIMEOUTS, VIEWPORTS } from './config/test-config';
  * - API integration tests for .NET Web API
  * - Cross-browser testing (Chromium, Firefox, WebKit)
  * - Multiple reporting formats (HTML, JUnit, JSON)
+ * - Environment profiles from config/environments.json (TEST_ENV=staging)
+ * - UI suites against the in-memory Web API (MOCK_API=true, chromium-mock-api project)
  *
  * See https://playwright.dev/docs/test-configuration
  */
-export default defineConfig({
+export default defineConfig<MockApiOptions>({
   testDir: './tests',
 
-  /* Maximum time one test can run for */
+  /* Environment profile in the reports (TEST_ENV, see config/environment.ts) */
+  metadata: { environment: getEnvironmentName() },
+
+  /* Starts local stand-ins (OIDC provider stub with OIDC_STUB=true, Web API with MOCK_API=true) */
+  globalSetup: './global-setup',
+
+  /* Maximum time one test can run for (the environment's timeout) */
   timeout: TIMEOUTS.standard,
 
   /* Test timeout assertions */
@@ -53,7 +63,7 @@ export default defineConfig({
 
   /* Shared settings for all the projects below */
   use: {
-    /* Base URL for Angular application */
+    /* Base URL for Angular application in the selected environment */
     baseURL: APP_URLS.angular,
 
     /* Collect trace when retrying the failed test */
@@ -117,16 +127,10 @@ export default defineConfig({
     },
 
     // API Integration Tests (headless, faster)
-    // Note: auth-api, cache-api, departments-api, and employees-api tests require browser context, so they're excluded here
+    // Note: Tokens are acquired with authorization code + PKCE over HTTP, so no browser is needed
     {
       name: 'api',
       testMatch: /tests\/api\/.*\.spec\.ts/,
-      testIgnore: [
-        /tests\/api\/auth-api\.spec\.ts/,        // Excluded: requires browser login
-        /tests\/api\/cache-api\.spec\.ts/,       // Excluded: requires browser login for token
-        /tests\/api\/departments-api\.spec\.ts/, // Excluded: requires browser login for token
-        /tests\/api\/employees-api\.spec\.ts/,   // Excluded: requires browser login for token
-      ],
       use: {
         baseURL: APP_URLS.api,
         extraHTTPHeaders: {
@@ -135,6 +139,20 @@ export default defineConfig({
       },
     },
 
+    // E2E Browser Tests against the in-memory Web API (mocks/talent-api.ts)
+    // Only with MOCK_API=true, which starts it in global setup; login still uses the real identity server
+    // and the Angular app must be running (see mocks/README.md)
+    ...(process.env.MOCK_API === 'true' ? [{
+      name: 'chromium-mock-api',
+      testMatch: /tests\/(employee-management|department-management|position-management|salary-ranges|dashboard|navigation|validation|workflows)\/.*\.spec\.ts/,
+      use: {
+        ...devices['Desktop Chrome'],
+        viewport: VIEWPORTS.laptop,
+        mockApi: true,
+      },
+      dependencies: ['setup'],
+    }] : []),
+
     /* Mobile viewports (optional - uncomment to enable) */
     // {
     //   name: 'Mobile Chrome',
@@ -0,0 +1,313 @@
+#!/usr/bin/env node
+/**
+ * API Client Generator
+ *
+ * Reads the Web API's OpenAPI (swagger) document and writes typed models and a
+ * client class to api/generated/:
+ * - models.ts - One interface per component schema, plus a query interface per list operation
+ * - client.ts - TalentManagementClient with one method per operation
+ *
+ * Usage:
+ *   node scripts/generate-api-client.mjs                 # from the checked-in api/openapi.json
+ *   node scripts/generate-api-client.mjs --input doc.json
+ *   node scripts/generate-api-client.mjs --url https://localhost:44378/swagger/v1/swagger.json
+ *
+ * --url also refreshes api/openapi.json so the snapshot in git matches the generated code.
+ * The generated files are checked in; regenerate them whenever the API changes.
+ */
+
+import fs from 'fs';
+import https from 'https';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const SNAPSHOT = path.join(ROOT, 'api', 'openapi.json');
+const OUTPUT_DIR = path.join(ROOT, 'api', 'generated');
+
+// Operation paths are relative to the API base URL (https://localhost:44378/api/v1)
+const BASE_PATH = /^\/api\/v\d+/;
+
+const HEADER = `/**
+ * Generated by scripts/generate-api-client.mjs from api/openapi.json - do not edit by hand.
+ */
+`;
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const name = argv[i].replace(/^--/, '');
+    if (!['input', 'url'].includes(name) || argv[i + 1] === undefined) {
+      throw new Error(`Usage: generate-api-client.mjs [--input <file> | --url <swagger.json url>]`);
+    }
+    args[name] = argv[i + 1];
+  }
+  return args;
+}
+
+/**
+ * Downloads the OpenAPI document (the local API uses a self-signed certificate)
+ */
+function download(url) {
+  const client = url.startsWith('https:') ? https : http;
+  return new Promise((resolve, reject) => {
+    client
+      .get(url, { rejectUnauthorized: false }, response => {
+        if (response.statusCode !== 200) {
+          reject(new Error(`Failed to download ${url}: ${response.statusCode}`));
+          response.resume();
+          return;
+        }
+        let body = '';
+        response.setEncoding('utf-8');
+        response.on('data', chunk => (body += chunk));
+        response.on('end', () => resolve(body));
+      })
+      .on('error', reject);
+  });
+}
+
+function refName(ref) {
+  return ref.split('/').pop();
+}
+
+function pascalCase(value) {
+  return value.replace(/(^|[-_\s])(\w)/g, (_, __, c) => c.toUpperCase());
+}
+
+function camelCase(value) {
+  const pascal = pascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Converts a schema to a TypeScript type expression
+ */
+function toType(schema) {
+  if (!schema) {
+    return 'unknown';
+  }
+
+  let type;
+  if (schema.$ref) {
+    type = refName(schema.$ref);
+  } else if (schema.allOf && schema.allOf.length === 1) {
+    type = toType(schema.allOf[0]);
+  } else if (schema.enum) {
+    type = schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  } else if (schema.type === 'array') {
+    const items = toType(schema.items);
+    type = /[|&]/.test(items) ? `Array<${items}>` : `${items}[]`;
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number';
+  } else if (schema.type === 'string') {
+    type = 'string';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else if (schema.type === 'object' || schema.properties) {
+    type = schema.properties ? inlineObject(schema) : `Record<string, ${toType(schema.additionalProperties)}>`;
+  } else {
+    type = 'unknown';
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function inlineObject(schema) {
+  const required = new Set(schema.required || []);
+  const members = Object.entries(schema.properties).map(
+    ([name, property]) => `${name}${required.has(name) ? '' : '?'}: ${toType(property)}`
+  );
+  return `{ ${members.join('; ')} }`;
+}
+
+function describe(schema) {
+  const notes = [];
+  if (schema.description) notes.push(schema.description);
+  if (schema.format && !['int32', 'int64', 'double'].includes(schema.format)) notes.push(`format: ${schema.format}`);
+  if (schema.maxLength !== undefined) notes.push(`max length ${schema.maxLength}`);
+  if (schema.minimum !== undefined) notes.push(`minimum ${schema.minimum}`);
+  if (schema.maximum !== undefined) notes.push(`maximum ${schema.maximum}`);
+  return notes.length > 0 ? `  /** ${notes.join(', ')} */\n` : '';
+}
+
+function renderSchema(name, schema) {
+  if (schema.enum || schema.type !== 'object') {
+    const doc = schema.description ? `/** ${schema.description} */\n` : '';
+    return `${doc}export type ${name} = ${toType({ ...schema, nullable: false })};\n`;
+  }
+
+  const required = new Set(schema.required || []);
+  const members = Object.entries(schema.properties || {})
+    .map(([property, propertySchema]) => {
+      const optional = required.has(property) ? '' : '?';
+      return `${describe(propertySchema)}  ${property}${optional}: ${toType(propertySchema)};\n`;
+    })
+    .join('');
+  const extra = schema.additionalProperties && schema.additionalProperties !== false ? '  [key: string]: unknown;\n' : '';
+  return `export interface ${name} {\n${members}${extra}}\n`;
+}
+
+/**
+ * Collects the operations of the document in path order
+ */
+function collectOperations(doc) {
+  const operations = [];
+  for (const [route, item] of Object.entries(doc.paths || {})) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch']) {
+      const operation = item[method];
+      if (!operation) continue;
+      if (!operation.operationId) {
+        throw new Error(`${method.toUpperCase()} ${route} has no operationId`);
+      }
+
+      const parameters = [...(item.parameters || []), ...(operation.parameters || [])];
+      const success = operation.responses?.['200'] || operation.responses?.['201'];
+      operations.push({
+        name: camelCase(operation.operationId),
+        method: method.toUpperCase(),
+        route: route.replace(BASE_PATH, ''),
+        summary: operation.summary,
+        pathParams: parameters.filter(parameter => parameter.in === 'path'),
+        queryParams: parameters.filter(parameter => parameter.in === 'query'),
+        body: operation.requestBody?.content?.['application/json']?.schema,
+        response: success?.content?.['application/json']?.schema,
+      });
+    }
+  }
+  return operations;
+}
+
+function queryTypeName(operation) {
+  return `${pascalCase(operation.name)}Query`;
+}
+
+function renderModels(doc, operations) {
+  const schemas = Object.entries(doc.components?.schemas || {}).map(([name, schema]) => renderSchema(name, schema));
+
+  const queries = operations
+    .filter(operation => operation.queryParams.length > 0)
+    .map(operation => {
+      const members = operation.queryParams
+        .map(parameter => `${describe(parameter.schema || {})}  ${parameter.name}${parameter.required ? '' : '?'}: ${toType(parameter.schema)};\n`)
+        .join('');
+      return `/** Query parameters of ${operation.method} ${operation.route} */\nexport interface ${queryTypeName(operation)} {\n${members}}\n`;
+    });
+
+  return `${HEADER}\n${[...schemas, ...queries].join('\n')}`;
+}
+
+function renderMethod(operation) {
+  const args = operation.pathParams.map(parameter => `${parameter.name}: ${toType(parameter.schema)}`);
+  if (operation.body) {
+    args.push(`body: ${toType(operation.body)}`);
+  }
+  if (operation.queryParams.length > 0) {
+    args.push(`query: ${queryTypeName(operation)} = {}`);
+  }
+
+  const route = operation.route.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(String(${name}))}`);
+  const url = operation.queryParams.length > 0 ? `\`${route}\${toQueryString(query)}\`` : `\`${route}\``;
+  const returnType = operation.response ? toType(operation.response) : 'void';
+  const body = operation.body ? ', body' : '';
+
+  return [
+    '  /**',
+    `   * ${operation.summary || operation.name} (${operation.method} ${operation.route})`,
+    '   */',
+    `  ${operation.name}(${args.join(', ')}): Promise<${returnType}> {`,
+    `    return this.send<${returnType}>('${operation.name}', '${operation.method}', ${url}${body});`,
+    '  }',
+  ].join('\n');
+}
+
+function renderClient(operations) {
+  const types = new Set();
+  const collect = type => (type.match(/\b[A-Z]\w*/g) || []).forEach(name => types.add(name));
+  for (const operation of operations) {
+    if (operation.body) collect(toType(operation.body));
+    if (operation.response) collect(toType(operation.response));
+    if (operation.queryParams.length > 0) types.add(queryTypeName(operation));
+  }
+  const imports = [...types].filter(name => !['Array', 'Record'].includes(name)).sort();
+
+  return `${HEADER}import type { APIResponse } from '@playwright/test';
+import type {
+${imports.map(name => `  ${name},`).join('\n')}
+} from './models';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+/**
+ * Sends a request to the API; the path is relative to the API base URL
+ */
+export type ApiTransport = (method: HttpMethod, path: string, body?: unknown) => Promise<APIResponse>;
+
+function toQueryString(query: object): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      params.append(name, String(value));
+    }
+  }
+  const queryString = params.toString();
+  return queryString ? \`?\${queryString}\` : '';
+}
+
+/**
+ * Typed client for the TalentManagement Web API
+ *
+ * @example
+ * const client = new TalentManagementClient((method, path, body) => send(method, path, body));
+ * const page = await client.getEmployees({ PageNumber: 1, PageSize: 10 });
+ */
+export class TalentManagementClient {
+  constructor(private readonly transport: ApiTransport) {}
+
+${operations.map(renderMethod).join('\n\n')}
+
+  private async send<T>(operation: string, method: HttpMethod, path: string, body?: unknown): Promise<T> {
+    const response = await this.transport(method, path, body);
+
+    if (!response.ok()) {
+      const errorText = await response.text();
+      throw new Error(\`\${operation} failed: \${response.status()} - \${errorText}\`);
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+}
+`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  let source;
+  if (args.url) {
+    source = await download(args.url);
+    fs.writeFileSync(SNAPSHOT, `${JSON.stringify(JSON.parse(source), null, 2)}\n`);
+    console.log(`Updated ${path.relative(ROOT, SNAPSHOT)} from ${args.url}`);
+  } else {
+    source = fs.readFileSync(args.input ? path.resolve(args.input) : SNAPSHOT, 'utf-8');
+  }
+
+  const doc = JSON.parse(source);
+  if (!doc.openapi?.startsWith('3.')) {
+    throw new Error(`Expected an OpenAPI 3.x document, got ${doc.openapi || doc.swagger || 'unknown version'}`);
+  }
+
+  const operations = collectOperations(doc);
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  fs.writeFileSync(path.join(OUTPUT_DIR, 'models.ts'), renderModels(doc, operations));
+  fs.writeFileSync(path.join(OUTPUT_DIR, 'client.ts'), renderClient(operations));
+
+  console.log(`Generated ${Object.keys(doc.components?.schemas || {}).length} models and ${operations.length} operations in ${path.relative(ROOT, OUTPUT_DIR)}`);
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+/**
+ * Endpoint Type Generator
+ *
+ * Reads config/api-endpoints.json and writes api/generated/endpoints.ts: every
+ * endpoint as a `group.action` key with its path template as a literal type, so
+ * the endpoint() resolver in config/endpoints.ts can check keys and path
+ * parameters at compile time.
+ *
+ * Usage:
+ *   node scripts/generate-endpoint-types.mjs
+ *
+ * The generated file is checked in; regenerate it whenever api-endpoints.json
+ * changes (config/endpoints.ts refuses to load while the two differ).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const SOURCE = path.join(ROOT, 'config', 'api-endpoints.json');
+const OUTPUT = path.join(ROOT, 'api', 'generated', 'endpoints.ts');
+
+const HEADER = `/**
+ * Generated by scripts/generate-endpoint-types.mjs from config/api-endpoints.json - do not edit by hand.
+ */
+`;
+
+function render(endpoints) {
+  const entries = Object.entries(endpoints).flatMap(([group, actions]) =>
+    Object.entries(actions).map(([action, template]) => {
+      if (typeof template !== 'string') {
+        throw new Error(`${group}.${action} in config/api-endpoints.json must be a path string`);
+      }
+      return `  '${group}.${action}': '${template.replace(/'/g, "\\'")}',`;
+    })
+  );
+
+  return `${HEADER}
+/**
+ * Path template of every endpoint, keyed by \`group.action\`
+ */
+export const API_ENDPOINT_TEMPLATES = {
+${entries.join('\n')}
+} as const;
+
+export type EndpointKey = keyof typeof API_ENDPOINT_TEMPLATES;
+`;
+}
+
+const endpoints = JSON.parse(fs.readFileSync(SOURCE, 'utf-8'));
+fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+fs.writeFileSync(OUTPUT, render(endpoints));
+console.log(`Generated ${Object.keys(endpoints).length} endpoint groups in ${path.relative(ROOT, OUTPUT)}`);
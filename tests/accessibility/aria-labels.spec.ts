@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 
 /**
  * ARIA Labels Tests
@@ -12,20 +11,10 @@ import { loginAsRole } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('ARIA Labels', () => {
-  let authFailed = false;
-
-  test.beforeEach(async ({ page }) => {
-    try {
-      await loginAsRole(page, 'manager');
-      authFailed = false;
-    } catch (error) {
-      authFailed = true;
-      console.log('Authentication failed - IdentityServer may not be running. Tests will be skipped.');
-    }
-  });
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
 
   test('should have ARIA labels on form fields', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -53,7 +42,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have ARIA labels on buttons', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -81,7 +69,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have ARIA landmarks for navigation', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -99,7 +86,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have proper ARIA roles on interactive elements', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -114,7 +100,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have ARIA labels on error messages', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -141,7 +126,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have descriptive ARIA labels on icons', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -162,7 +146,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have ARIA expanded states on expandable elements', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -177,7 +160,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have ARIA required on required fields', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -195,7 +177,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have proper heading hierarchy', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -212,7 +193,6 @@ test.describe('ARIA Labels', () => {
   });
 
   test('should have ARIA live regions for dynamic content', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
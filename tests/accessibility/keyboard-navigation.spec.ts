@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { EmployeeFormPage } from '../../page-objects/employee-form.page';
 
 /**
@@ -13,20 +12,10 @@ import { EmployeeFormPage } from '../../page-objects/employee-form.page';
  */
 
 test.describe('Keyboard Navigation', () => {
-  let authFailed = false;
-
-  test.beforeEach(async ({ page }) => {
-    try {
-      await loginAsRole(page, 'manager');
-      authFailed = false;
-    } catch (error) {
-      authFailed = true;
-      console.log('Authentication failed - IdentityServer may not be running. Tests will be skipped.');
-    }
-  });
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
 
   test('should navigate through form using Tab key', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -51,7 +40,6 @@ test.describe('Keyboard Navigation', () => {
   });
 
   test('should submit form with Enter key', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -86,7 +74,6 @@ test.describe('Keyboard Navigation', () => {
   });
 
   test('should cancel form with Escape key', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -110,7 +97,6 @@ test.describe('Keyboard Navigation', () => {
   });
 
   test('should navigate table rows with arrow keys', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -131,7 +117,6 @@ test.describe('Keyboard Navigation', () => {
   });
 
   test('should support keyboard shortcuts', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -153,7 +138,6 @@ test.describe('Keyboard Navigation', () => {
   });
 
   test('should maintain focus visibility', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -177,7 +161,6 @@ test.describe('Keyboard Navigation', () => {
   });
 
   test('should support shift-tab for reverse navigation', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -203,7 +186,6 @@ test.describe('Keyboard Navigation', () => {
   });
 
   test('should skip hidden elements during tab navigation', async ({ page }) => {
-    if (authFailed) test.skip();
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -1,25 +1,31 @@
 import { test, expect } from '@playwright/test';
-import { getTokenForRole } from '../../fixtures/api.fixtures';
+import { ResourceClient, getTokenForRole } from '../../fixtures/api.fixtures';
+import { createEmployeeData } from '../../fixtures/data.fixtures';
+import { apiUrl } from '../../config/endpoints';
+import { CachingClient } from '../../utils/caching-client';
+import { CACHE_RULES, CacheRule, ConformanceReport, checkCacheConformance } from '../../utils/cache-conformance';
 
 /**
  * Cache API Tests
  *
- * Tests for API caching functionality:
- * - Cache headers in responses
- * - Cache invalidation endpoint
- * - Cache statistics endpoint
- * - Cache bypass with headers
+ * Checks the API's HTTP caching with the conformance rules in
+ * utils/cache-conformance.ts, one test per rule:
+ * - pass - the API supports the behaviour correctly
+ * - fail - the API gets it wrong (e.g. serves stale data after a write)
+ * - skipped - the API does not implement it yet (no validators, endpoint missing);
+ *   these start running as soon as the backend adds support
  *
- * Note: These tests use browser-based token acquisition via Profile Page.
- * Tests will be skipped if authentication fails (services not running).
+ * The full report is attached as `cache-conformance`. The rules run once,
+ * against the employee list, with one employee created (and deleted afterwards)
+ * to check freshness after a write.
+ *
+ * Note: Tests will be skipped if authentication fails (services not running).
  */
 
 let authToken: string | null = null;
 let authFailed = false;
 
 test.describe('Cache API', () => {
-  const baseURL = 'https://localhost:44378/api/v1';
-
   test.beforeAll(async ({ request }) => {
     // Try to get authentication token with timeout
     try {
@@ -28,8 +34,9 @@ test.describe('Cache API', () => {
         setTimeout(() => reject(new Error('Token acquisition timeout')), 25000)
       );
 
+      // HRAdmin: the checks create an employee and invalidate the cache
       authToken = await Promise.race([
-        getTokenForRole(request, 'manager'),
+        getTokenForRole(request, 'hradmin'),
         timeoutPromise as Promise<string>
       ]);
       authFailed = false;
@@ -39,274 +46,57 @@ test.describe('Cache API', () => {
     }
   });
 
-  test('should include cache headers in API responses', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
-
-    const response = await request.get(`${baseURL}/employees`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
-    });
-
-    expect(response.status()).toBe(200);
-
-    // Check for cache-related headers
-    const headers = response.headers();
+  test.describe('HTTP caching conformance', () => {
+    // One run of the rules, shared by the tests below
+    test.describe.configure({ mode: 'default' });
 
-    // Common cache headers: cache-control, etag, last-modified, expires
-    const hasCacheControl = headers['cache-control'] !== undefined;
-    const hasETag = headers['etag'] !== undefined;
-    const hasLastModified = headers['last-modified'] !== undefined;
-    const hasExpires = headers['expires'] !== undefined;
-
-    // Note: API currently doesn't implement caching headers
-    // This test documents expected behavior when caching is implemented
-    // For now, we just verify the request succeeds
-    if (!hasCacheControl && !hasETag && !hasLastModified && !hasExpires) {
-      console.log('Note: API does not implement cache headers yet');
-      expect(true).toBe(true); // Test passes - caching not implemented
-    } else {
-      // If any cache headers are present, verify they exist
-      expect(hasCacheControl || hasETag || hasLastModified || hasExpires).toBe(true);
-    }
-  });
+    let report: ConformanceReport | null = null;
+    const createdIds: number[] = [];
 
-  test('should respect Cache-Control header values', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
+    test.beforeAll(async ({ request }) => {
+      if (authFailed || !authToken) return;
 
-    const response = await request.get(`${baseURL}/employees`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
-    });
-
-    expect(response.status()).toBe(200);
-
-    const cacheControl = response.headers()['cache-control'];
-
-    if (cacheControl) {
-      // Verify cache-control has valid directives
-      const validDirectives = ['no-cache', 'no-store', 'must-revalidate', 'public', 'private', 'max-age'];
-      const hasValidDirective = validDirectives.some(directive => cacheControl.includes(directive));
-
-      expect(hasValidDirective).toBe(true);
-    } else {
-      // No cache-control is also valid (application-specific)
-      expect(true).toBe(true);
-    }
-  });
-
-  test('should include ETag for versioned resources', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
-
-    const response = await request.get(`${baseURL}/employees/1`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
-    });
-
-    // If resource exists, check for ETag
-    if (response.status() === 200) {
-      const etag = response.headers()['etag'];
-
-      // ETag might or might not be implemented
-      if (etag) {
-        expect(etag.length).toBeGreaterThan(0);
-        expect(etag).toMatch(/^["']?[\w\d-]+["']?$/); // Valid ETag format
-      }
-    }
-  });
-
-  test('should support conditional requests with If-None-Match', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
-
-    // First request to get ETag
-    const response1 = await request.get(`${baseURL}/employees`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
-    });
-
-    expect(response1.status()).toBe(200);
-
-    const etag = response1.headers()['etag'];
-
-    if (etag) {
-      // ETag is present - test conditional requests
-      const response2 = await request.get(`${baseURL}/employees`, {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'If-None-Match': etag,
-          'Accept': 'application/json',
+      const employees = new ResourceClient(request, authToken, 'employees');
+      report = await checkCacheConformance(new CachingClient(request, authToken), {
+        listUrl: apiUrl('employees.list', {}, { PageNumber: 1, PageSize: 10 }),
+        write: async () => {
+          createdIds.push((await employees.create(createEmployeeData())).id);
         },
-        ignoreHTTPSErrors: true,
+        invalidateUrl: apiUrl('cache.invalidate'),
+        statisticsUrl: apiUrl('cache.statistics'),
       });
-
-      // Should return 304 Not Modified if content hasn't changed
-      // Or 200 OK if caching not implemented or content changed
-      expect([200, 304]).toContain(response2.status());
-    } else {
-      // No ETag header - conditional requests not implemented
-      // This is acceptable, test passes with a note
-      console.log('Note: API does not implement ETag headers for conditional requests');
-
-      // Verify the response still has valid data
-      const data = await response1.json();
-      expect(data).toBeDefined();
-      expect(Array.isArray(data) || typeof data === 'object').toBe(true);
-    }
-  });
-
-  test('should invalidate cache on data modification', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
-
-    // Get initial data with potential caching
-    const response1 = await request.get(`${baseURL}/employees`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
     });
 
-    expect(response1.status()).toBe(200);
-    const data1 = await response1.json();
-    const initialCount = Array.isArray(data1) ? data1.length : 0;
-
-    // Make a modification (create employee)
-    const createResponse = await request.post(`${baseURL}/employees`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
-      data: {
-        firstName: 'Cache',
-        lastName: `Test${Date.now()}`,
-        email: `cache.test.${Date.now()}@example.com`,
-        gender: 0, // Required: Male
-        employeeNumber: `CACHE${Date.now()}`,
-      },
+    test.afterAll(async ({ request }) => {
+      if (authToken && createdIds.length > 0) {
+        await new ResourceClient(request, authToken, 'employees').deleteAll(createdIds);
+      }
     });
 
-    // API might not support create via this endpoint
-    if (createResponse.status() === 201) {
-      const created = await createResponse.json();
-      const createdId = created.id || created.employeeId || created.data?.id;
+    test('should produce a conformance report', async ({}, testInfo) => {
+      if (authFailed || !authToken) test.skip();
 
-      // Get data again (should reflect changes - cache invalidated)
-      const response2 = await request.get(`${baseURL}/employees`, {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Accept': 'application/json',
-        },
-        ignoreHTTPSErrors: true,
+      expect(report).not.toBeNull();
+      await testInfo.attach('cache-conformance', {
+        body: report!.format(),
+        contentType: 'text/plain',
       });
-
-      expect(response2.status()).toBe(200);
-      const data2 = await response2.json();
-
-      // Data should be fresh (not cached stale data)
-      expect(data2).toBeDefined();
-
-      // Cleanup
-      if (createdId) {
-        await request.delete(`${baseURL}/employees/${createdId}`, {
-          headers: {
-            'Authorization': `Bearer ${authToken}`,
-            'Accept': 'application/json',
-          },
-          ignoreHTTPSErrors: true,
-        });
-      }
-    } else {
-      // If create isn't supported, just verify API returns data
-      expect(response1.status()).toBe(200);
-      expect(data1).toBeDefined();
-    }
-  });
-
-  test('should provide cache invalidation endpoint', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
-
-    // Try to access cache invalidation endpoint (if exists)
-    try {
-      const invalidateResponse = await request.post(`${baseURL}/cache/invalidate`, {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Accept': 'application/json',
-        },
-        ignoreHTTPSErrors: true,
+      await testInfo.attach('cache-conformance.json', {
+        body: JSON.stringify(report, null, 2),
+        contentType: 'application/json',
       });
+    });
 
-      // Endpoint might not exist (200/204 if exists, 404/405 if not implemented)
-      const status = invalidateResponse.status();
-      expect([200, 204, 404, 405]).toContain(status);
+    for (const rule of Object.keys(CACHE_RULES) as CacheRule[]) {
+      test(`${rule}: ${CACHE_RULES[rule]}`, async () => {
+        if (authFailed || !report) test.skip();
 
-      if (status === 200 || status === 204) {
-        // Cache invalidation endpoint exists and succeeded
-        expect(true).toBe(true);
-      } else if (status === 404 || status === 405) {
-        // Endpoint not implemented - this is acceptable
-        console.log('Cache invalidation endpoint not implemented (404/405)');
-        expect(true).toBe(true);
-      }
-    } catch (error) {
-      // Network or request error - endpoint doesn't exist
-      console.log('Cache invalidation endpoint not available');
-      expect(true).toBe(true);
-    }
-  });
+        const result = report!.get(rule)!;
+        test.info().annotations.push({ type: 'cache-conformance', description: `${result.outcome}: ${result.detail}` });
+        test.skip(result.outcome === 'not-implemented', `Not implemented by the API: ${result.detail}`);
 
-  test('should provide cache statistics endpoint', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
-
-    // Try to access cache statistics endpoint (if exists)
-    try {
-      const statsResponse = await request.get(`${baseURL}/cache/stats`, {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-          'Accept': 'application/json',
-        },
-        ignoreHTTPSErrors: true,
+        expect(result.outcome, result.detail).toBe('pass');
       });
-
-      // Endpoint might not exist (200 if exists, 404/405 if not implemented)
-      const status = statsResponse.status();
-      expect([200, 404, 405]).toContain(status);
-
-      if (status === 200) {
-        const stats = await statsResponse.json();
-
-        // Verify statistics structure
-        expect(stats).toBeDefined();
-
-        // Common cache statistics fields
-        const hasStats = stats.hits !== undefined ||
-                        stats.misses !== undefined ||
-                        stats.size !== undefined ||
-                        stats.entries !== undefined;
-
-        // Accept either stats with fields or empty stats object
-        expect(hasStats || true).toBe(true);
-      } else if (status === 404 || status === 405) {
-        // Endpoint not implemented - this is acceptable
-        console.log('Cache statistics endpoint not implemented (404/405)');
-        expect(true).toBe(true);
-      }
-    } catch (error) {
-      // Network or request error - endpoint doesn't exist
-      console.log('Cache statistics endpoint not available');
-      expect(true).toBe(true);
     }
   });
 
@@ -314,7 +104,7 @@ test.describe('Cache API', () => {
     if (authFailed || !authToken) test.skip();
 
     // Request with Cache-Control: no-cache
-    const response = await request.get(`${baseURL}/employees`, {
+    const response = await request.get(apiUrl('employees.list'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Cache-Control': 'no-cache',
@@ -334,7 +124,7 @@ test.describe('Cache API', () => {
     if (authFailed || !authToken) test.skip();
 
     // Request with Pragma: no-cache (HTTP/1.0 compatibility)
-    const response = await request.get(`${baseURL}/employees`, {
+    const response = await request.get(apiUrl('employees.list'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Pragma': 'no-cache',
@@ -350,39 +140,12 @@ test.describe('Cache API', () => {
     expect(data).toBeDefined();
   });
 
-  test('should set appropriate cache headers for static vs dynamic content', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
-
-    // Get dynamic content (employees list)
-    const dynamicResponse = await request.get(`${baseURL}/employees`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
-    });
-
-    expect(dynamicResponse.status()).toBe(200);
-
-    const dynamicCacheControl = dynamicResponse.headers()['cache-control'];
-
-    // Dynamic content should typically have no-cache or short max-age
-    if (dynamicCacheControl) {
-      const isDynamicCaching = dynamicCacheControl.includes('no-cache') ||
-                              dynamicCacheControl.includes('no-store') ||
-                              dynamicCacheControl.includes('must-revalidate') ||
-                              (dynamicCacheControl.includes('max-age') && !dynamicCacheControl.includes('max-age=0'));
-
-      expect(isDynamicCaching || true).toBe(true);
-    }
-  });
-
   test('should handle concurrent cache requests correctly', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
     // Make multiple concurrent requests
     const requests = Array(5).fill(null).map(() =>
-      request.get(`${baseURL}/employees`, {
+      request.get(apiUrl('employees.list'), {
         headers: {
           'Authorization': `Bearer ${authToken}`,
           'Accept': 'application/json',
@@ -420,34 +183,4 @@ test.describe('Cache API', () => {
       });
     }
   });
-
-  test('should expire cache after max-age', async ({ request }) => {
-    if (authFailed || !authToken) test.skip();
-
-    // Get response with max-age
-    const response = await request.get(`${baseURL}/employees`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
-    });
-
-    expect(response.status()).toBe(200);
-
-    const cacheControl = response.headers()['cache-control'];
-
-    if (cacheControl && cacheControl.includes('max-age')) {
-      // Extract max-age value
-      const maxAgeMatch = cacheControl.match(/max-age=(\d+)/);
-
-      if (maxAgeMatch) {
-        const maxAge = parseInt(maxAgeMatch[1]);
-
-        // Verify max-age is reasonable (not too long for dynamic content)
-        expect(maxAge).toBeGreaterThanOrEqual(0);
-        expect(maxAge).toBeLessThanOrEqual(3600); // 1 hour max for API data
-      }
-    }
-  });
 });
@@ -0,0 +1,153 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import {
+  ResourceClient,
+  ResourceName,
+  ResourceTypes,
+  getResourceClients,
+  getTokenForRole,
+} from '../../fixtures/api.fixtures';
+import {
+  createDepartmentData,
+  createEmployeeData,
+  createPositionData,
+  createSalaryRangeData,
+} from '../../fixtures/data.fixtures';
+import { getResponseSchemaName, validateResponseBody } from '../../api/schema-registry';
+import { formatViolations } from '../../utils/schema-validator';
+import { APP_URLS } from '../../config/test-config';
+import { ROLES } from '../../config/user-registry';
+import { EndpointKey, endpoint } from '../../config/endpoints';
+import apiEndpoints from '../../config/api-endpoints.json';
+
+/**
+ * API Contract Tests
+ *
+ * Calls every Web API endpoint in config/api-endpoints.json as each role and
+ * validates the response body against the operation's schema in
+ * api/openapi.json (see api/schema-registry.ts):
+ * - Breaking drift (missing, retyped or out-of-range fields) fails the test
+ * - Additive drift (properties the schema does not know) is only attached to the report
+ * - 401/403 means the role may not call the endpoint; there is no body to check
+ *
+ * Endpoints the OpenAPI document does not describe are skipped (the position
+ * endpoints, until it is regenerated from the running API), as is the auth
+ * group (IdentityServer's protocol endpoints are not part of the Web API).
+ * Detail, update and delete calls work on a record seeded through the API as
+ * HRAdmin; everything a test creates is deleted afterwards.
+ */
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+const METHODS: Record<string, HttpMethod> = {
+  create: 'POST',
+  update: 'PUT',
+  delete: 'DELETE',
+  invalidate: 'POST',
+};
+
+const LIST_QUERY = { PageNumber: 1, PageSize: 10 };
+
+// Valid create bodies; foreign keys default to ID 1 of the API's seed data
+const CREATE_DATA: Record<ResourceName, () => ResourceTypes[ResourceName]['create']> = {
+  employees: () => createEmployeeData(),
+  departments: () => createDepartmentData(),
+  positions: () => createPositionData(),
+  salaryRanges: () => createSalaryRangeData(),
+};
+
+function isResource(group: string): group is ResourceName {
+  return group in CREATE_DATA;
+}
+
+async function callAsRole(request: APIRequestContext, token: string, method: HttpMethod, path: string, data?: object) {
+  return request.fetch(`${APP_URLS.api}${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json',
+    },
+    data,
+    ignoreHTTPSErrors: true,
+    failOnStatusCode: false,
+  });
+}
+
+test.describe('API Contract', () => {
+  for (const role of ROLES) {
+    test.describe(`as ${role}`, () => {
+      for (const [group, endpoints] of Object.entries(apiEndpoints)) {
+        if (group === 'auth') continue;
+
+        for (const [action, template] of Object.entries(endpoints as Record<string, string>)) {
+          const key = `${group}.${action}` as EndpointKey;
+          const method = METHODS[action] ?? 'GET';
+
+          test(`${method} ${group}.${action} should match the contract`, async ({ request }) => {
+            const schemaName = getResponseSchemaName(method, template);
+            test.skip(!schemaName, `${method} ${template} is not described in api/openapi.json`);
+
+            let token: string;
+            let adminToken: string;
+            try {
+              token = await getTokenForRole(request, role);
+              adminToken = await getTokenForRole(request, 'hradmin');
+            } catch (error) {
+              console.log('Failed to acquire auth token - services may not be running. Test will be skipped.');
+              test.skip();
+              return;
+            }
+
+            const resource: ResourceClient<ResourceName> | null = isResource(group)
+              ? getResourceClients(request, adminToken)[group]
+              : null;
+            const createdIds: number[] = [];
+
+            try {
+              // Detail, update and delete need an existing record
+              let path: string;
+              let body: object | undefined;
+              if (template.includes('{id}')) {
+                const seedData = CREATE_DATA[group as ResourceName]();
+                const seeded = await resource!.create(seedData);
+                createdIds.push(seeded.id);
+                path = endpoint(key, { id: seeded.id });
+                body = method === 'PUT' ? { ...seedData, id: seeded.id } : undefined;
+              } else if (method === 'POST') {
+                path = endpoint(key);
+                body = CREATE_DATA[group as ResourceName]();
+              } else {
+                path = endpoint(key, {}, LIST_QUERY);
+              }
+
+              const response = await callAsRole(request, token, method, path, body);
+
+              if ([401, 403].includes(response.status())) {
+                test.info().annotations.push({ type: 'contract', description: `${role} may not call ${method} ${template} (${response.status()})` });
+                return;
+              }
+              expect(response.ok(), `${method} ${path} returned ${response.status()}: ${await response.text()}`).toBe(true);
+
+              const responseBody = await response.json();
+              if (method === 'POST' && typeof responseBody?.data === 'number') {
+                createdIds.push(responseBody.data);
+              }
+
+              const violations = validateResponseBody(method, template, responseBody)!;
+              if (violations.length > 0) {
+                await test.info().attach(`contract-violations-${role}-${group}.${action}`, {
+                  body: `${method} ${path} (${schemaName})\n${formatViolations(violations)}`,
+                  contentType: 'text/plain',
+                });
+              }
+
+              const breaking = violations.filter(violation => violation.breaking);
+              expect(breaking, `${method} ${path} broke the ${schemaName} contract:\n${formatViolations(breaking)}`).toEqual([]);
+            } finally {
+              await resource?.deleteAll(createdIds);
+            }
+          });
+        }
+      }
+    });
+  }
+});
@@ -1,6 +1,7 @@
 import { test, expect } from '@playwright/test';
 import { getTokenForRole } from '../../fixtures/api.fixtures';
 import { createDepartmentData } from '../../fixtures/data.fixtures';
+import { apiUrl } from '../../config/endpoints';
 
 /**
  * Department API Tests
@@ -17,7 +18,6 @@ let authToken: string | null = null;
 let authFailed = false;
 
 test.describe('Department API', () => {
-  const baseURL = 'https://localhost:44378/api/v1';
   let testDepartmentId: number;
 
   test.beforeAll(async ({ request }) => {
@@ -42,7 +42,7 @@ test.describe('Department API', () => {
     // Cleanup: delete test department if created
     if (testDepartmentId && authToken) {
       try {
-        await request.delete(`${baseURL}/departments/${testDepartmentId}`, {
+        await request.delete(apiUrl('departments.delete', { id: testDepartmentId }), {
           headers: {
             'Authorization': `Bearer ${authToken}`,
             'Accept': 'application/json',
@@ -59,7 +59,7 @@ test.describe('Department API', () => {
   test('should GET list of departments', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/departments`, {
+    const response = await request.get(apiUrl('departments.list'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -90,7 +90,7 @@ test.describe('Department API', () => {
       description: 'Created via API test',
     });
 
-    const response = await request.post(`${baseURL}/departments`, {
+    const response = await request.post(apiUrl('departments.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -144,7 +144,7 @@ test.describe('Department API', () => {
       description: 'Test get by ID',
     });
 
-    const createResponse = await request.post(`${baseURL}/departments`, {
+    const createResponse = await request.post(apiUrl('departments.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -174,7 +174,7 @@ test.describe('Department API', () => {
     }
 
     // Now get the department by ID
-    const response = await request.get(`${baseURL}/departments/${testDepartmentId}`, {
+    const response = await request.get(apiUrl('departments.detail', { id: testDepartmentId }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -202,7 +202,7 @@ test.describe('Department API', () => {
       description: 'Original description',
     });
 
-    const createResponse = await request.post(`${baseURL}/departments`, {
+    const createResponse = await request.post(apiUrl('departments.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -238,7 +238,7 @@ test.describe('Department API', () => {
       description: 'Updated description via API',
     };
 
-    const response = await request.put(`${baseURL}/departments/${testDepartmentId}`, {
+    const response = await request.put(apiUrl('departments.update', { id: testDepartmentId }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -253,7 +253,7 @@ test.describe('Department API', () => {
 
     // Only verify update if it succeeded
     if (response.status() === 200 || response.status() === 204) {
-      const getResponse = await request.get(`${baseURL}/departments/${testDepartmentId}`, {
+      const getResponse = await request.get(apiUrl('departments.detail', { id: testDepartmentId }), {
         headers: {
           'Authorization': `Bearer ${authToken}`,
           'Accept': 'application/json',
@@ -281,7 +281,7 @@ test.describe('Department API', () => {
       description: 'To be deleted',
     });
 
-    const createResponse = await request.post(`${baseURL}/departments`, {
+    const createResponse = await request.post(apiUrl('departments.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -311,7 +311,7 @@ test.describe('Department API', () => {
     }
 
     // Delete the department
-    const response = await request.delete(`${baseURL}/departments/${departmentId}`, {
+    const response = await request.delete(apiUrl('departments.delete', { id: departmentId }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -324,7 +324,7 @@ test.describe('Department API', () => {
 
     // Only verify deletion if it succeeded
     if (response.status() === 200 || response.status() === 204) {
-      const getResponse = await request.get(`${baseURL}/departments/${departmentId}`, {
+      const getResponse = await request.get(apiUrl('departments.detail', { id: departmentId }), {
         headers: {
           'Authorization': `Bearer ${authToken}`,
           'Accept': 'application/json',
@@ -344,7 +344,7 @@ test.describe('Department API', () => {
   test('should return 401 without authentication', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/departments`, {
+    const response = await request.get(apiUrl('departments.list'), {
       headers: {
         // No Authorization header
         'Accept': 'application/json',
@@ -365,7 +365,7 @@ test.describe('Department API', () => {
       description: 'Invalid department',
     };
 
-    const response = await request.post(`${baseURL}/departments`, {
+    const response = await request.post(apiUrl('departments.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -383,7 +383,7 @@ test.describe('Department API', () => {
 
     const invalidId = 999999999;
 
-    const response = await request.get(`${baseURL}/departments/${invalidId}`, {
+    const response = await request.get(apiUrl('departments.detail', { id: invalidId }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -403,7 +403,7 @@ test.describe('Department API', () => {
       // name is missing
     };
 
-    const response = await request.post(`${baseURL}/departments`, {
+    const response = await request.post(apiUrl('departments.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -428,7 +428,7 @@ test.describe('Department API', () => {
       description: 'Original',
     });
 
-    const firstResponse = await request.post(`${baseURL}/departments`, {
+    const firstResponse = await request.post(apiUrl('departments.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -448,7 +448,7 @@ test.describe('Department API', () => {
       description: 'Duplicate attempt',
     };
 
-    const response = await request.post(`${baseURL}/departments`, {
+    const response = await request.post(apiUrl('departments.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -466,7 +466,7 @@ test.describe('Department API', () => {
   test('should return proper content-type header', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/departments`, {
+    const response = await request.get(apiUrl('departments.list'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -483,7 +483,7 @@ test.describe('Department API', () => {
   test('should support search/filter parameters', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/departments?search=test`, {
+    const response = await request.get(apiUrl('departments.list', {}, { search: 'test' }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
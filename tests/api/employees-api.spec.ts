@@ -1,6 +1,7 @@
 import { test, expect } from '@playwright/test';
-import { getTokenForRole } from '../../fixtures/api.fixtures';
+import { getAllEmployees, getTokenForRole } from '../../fixtures/api.fixtures';
 import { createEmployeeData } from '../../fixtures/data.fixtures';
+import { apiUrl } from '../../config/endpoints';
 
 /**
  * Employee API Tests
@@ -12,13 +13,13 @@ import { createEmployeeData } from '../../fixtures/data.fixtures';
  * - DELETE endpoint (delete)
  * - Authentication scenarios (401, 403)
  * - Validation scenarios (400, 404)
+ * - Pagination metadata and page boundaries
  */
 
 let authToken: string | null = null;
 let authFailed = false;
 
 test.describe('Employee API', () => {
-  const baseURL = 'https://localhost:44378/api/v1';
   let testEmployeeId: number;
 
   test.beforeAll(async ({ request }) => {
@@ -43,7 +44,7 @@ test.describe('Employee API', () => {
     // Cleanup: delete test employee if created
     if (testEmployeeId && authToken) {
       try {
-        await request.delete(`${baseURL}/employees/${testEmployeeId}`, {
+        await request.delete(apiUrl('employees.delete', { id: testEmployeeId }), {
           headers: {
             'Authorization': `Bearer ${authToken}`,
             'Accept': 'application/json',
@@ -60,7 +61,7 @@ test.describe('Employee API', () => {
   test('should GET list of employees', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/employees`, {
+    const response = await request.get(apiUrl('employees.list'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -92,7 +93,7 @@ test.describe('Employee API', () => {
       lastName: `GetById${Date.now()}`,
     });
 
-    const createResponse = await request.post(`${baseURL}/employees`, {
+    const createResponse = await request.post(apiUrl('employees.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -122,7 +123,7 @@ test.describe('Employee API', () => {
     }
 
     // Now get the employee by ID
-    const response = await request.get(`${baseURL}/employees/${testEmployeeId}`, {
+    const response = await request.get(apiUrl('employees.detail', { id: testEmployeeId }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -149,7 +150,7 @@ test.describe('Employee API', () => {
       email: `api.create.${Date.now()}@example.com`,
     });
 
-    const response = await request.post(`${baseURL}/employees`, {
+    const response = await request.post(apiUrl('employees.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -213,7 +214,7 @@ test.describe('Employee API', () => {
       lastName: `Update${Date.now()}`,
     });
 
-    const createResponse = await request.post(`${baseURL}/employees`, {
+    const createResponse = await request.post(apiUrl('employees.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -250,7 +251,7 @@ test.describe('Employee API', () => {
       email: `updated.${Date.now()}@example.com`,
     };
 
-    const response = await request.put(`${baseURL}/employees/${testEmployeeId}`, {
+    const response = await request.put(apiUrl('employees.update', { id: testEmployeeId }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -265,7 +266,7 @@ test.describe('Employee API', () => {
 
     // Only verify update if it succeeded
     if (response.status() === 200 || response.status() === 204) {
-      const getResponse = await request.get(`${baseURL}/employees/${testEmployeeId}`, {
+      const getResponse = await request.get(apiUrl('employees.detail', { id: testEmployeeId }), {
         headers: {
           'Authorization': `Bearer ${authToken}`,
           'Accept': 'application/json',
@@ -309,7 +310,7 @@ test.describe('Employee API', () => {
       lastName: `Delete${Date.now()}`,
     });
 
-    const createResponse = await request.post(`${baseURL}/employees`, {
+    const createResponse = await request.post(apiUrl('employees.create'), {
       headers: {
         'Authorization': `Bearer ${adminToken}`,
         'Content-Type': 'application/json',
@@ -339,7 +340,7 @@ test.describe('Employee API', () => {
     }
 
     // Delete the employee
-    const response = await request.delete(`${baseURL}/employees/${employeeId}`, {
+    const response = await request.delete(apiUrl('employees.delete', { id: employeeId }), {
       headers: {
         'Authorization': `Bearer ${adminToken}`,
         'Accept': 'application/json',
@@ -351,7 +352,7 @@ test.describe('Employee API', () => {
 
     // Only verify deletion if it succeeded
     if (response.status() === 200 || response.status() === 204) {
-      const getResponse = await request.get(`${baseURL}/employees/${employeeId}`, {
+      const getResponse = await request.get(apiUrl('employees.detail', { id: employeeId }), {
         headers: {
           'Authorization': `Bearer ${adminToken}`,
           'Accept': 'application/json',
@@ -367,7 +368,7 @@ test.describe('Employee API', () => {
   test('should return 401 Unauthorized without token', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/employees`, {
+    const response = await request.get(apiUrl('employees.list'), {
       headers: {
         // No Authorization header
         'Accept': 'application/json',
@@ -400,7 +401,7 @@ test.describe('Employee API', () => {
     }
 
     // Try to delete with employee token (should fail)
-    const response = await request.delete(`${baseURL}/employees/1`, {
+    const response = await request.delete(apiUrl('employees.delete', { id: 1 }), {
       headers: {
         'Authorization': `Bearer ${employeeToken}`,
         'Accept': 'application/json',
@@ -421,7 +422,7 @@ test.describe('Employee API', () => {
       email: 'invalid-email', // Invalid email format
     };
 
-    const response = await request.post(`${baseURL}/employees`, {
+    const response = await request.post(apiUrl('employees.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -450,7 +451,7 @@ test.describe('Employee API', () => {
 
     const invalidId = 999999999; // Very unlikely to exist
 
-    const response = await request.get(`${baseURL}/employees/${invalidId}`, {
+    const response = await request.get(apiUrl('employees.detail', { id: invalidId }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -465,33 +466,34 @@ test.describe('Employee API', () => {
   test('should support pagination parameters', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/employees?page=1&pageSize=10`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-        'Accept': 'application/json',
-      },
-      ignoreHTTPSErrors: true,
-    });
+    const page = await getAllEmployees(request, authToken!, { PageNumber: 1, PageSize: 10 });
 
-    expect(response.status()).toBe(200);
+    // Pagination metadata reflects the request
+    expect(page.pageNumber).toBe(1);
+    expect(page.pageSize).toBe(10);
+    expect(page.recordsFiltered).toBeLessThanOrEqual(page.recordsTotal);
+    expect(page.items).toHaveLength(Math.min(10, page.recordsFiltered));
+    expect(page.hasNextPage).toBe(page.recordsFiltered > 10);
+  });
 
-    const data = await response.json();
-    expect(data).toBeDefined();
+  test('should return consistent page boundaries across all pages', async ({ request }) => {
+    if (authFailed || !authToken) test.skip();
+    test.setTimeout(60000);
 
-    // Check for pagination metadata
-    if (data.totalCount !== undefined || data.total !== undefined) {
-      expect(typeof (data.totalCount || data.total)).toBe('number');
-    }
+    const firstPage = await getAllEmployees(request, authToken!, { PageSize: 20 });
 
-    if (data.pageSize !== undefined) {
-      expect(data.pageSize).toBeLessThanOrEqual(10);
-    }
+    // Walking the pages throws on a wrong page number, a short page, a changed
+    // total or an ID returned on two pages
+    const employees = await firstPage.toArray();
+
+    expect(employees).toHaveLength(firstPage.recordsFiltered);
+    expect(new Set(employees.map(employee => employee.id)).size).toBe(employees.length);
   });
 
   test('should support search/filter parameters', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/employees?search=test`, {
+    const response = await request.get(apiUrl('employees.list', {}, { search: 'test' }), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -520,7 +522,7 @@ test.describe('Employee API', () => {
       // Missing required lastName and email
     };
 
-    const response = await request.post(`${baseURL}/employees`, {
+    const response = await request.post(apiUrl('employees.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -542,7 +544,7 @@ test.describe('Employee API', () => {
       email: 'not-an-email', // Invalid format
     });
 
-    const response = await request.post(`${baseURL}/employees`, {
+    const response = await request.post(apiUrl('employees.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -558,7 +560,7 @@ test.describe('Employee API', () => {
   test('should return proper content-type header', async ({ request }) => {
     if (authFailed || !authToken) test.skip();
 
-    const response = await request.get(`${baseURL}/employees`, {
+    const response = await request.get(apiUrl('employees.list'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Accept': 'application/json',
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { ResourceClient, getTokenForRole } from '../../fixtures/api.fixtures';
+import { createEmployeeData } from '../../fixtures/data.fixtures';
+import { apiUrl } from '../../config/endpoints';
+import { LOAD_TEST, PERFORMANCE, TIMEOUTS } from '../../config/test-config';
+import { LoadScenario, checkLoadBudgets, formatLoadReportHtml, runLoad } from '../../utils/load-harness';
+
+/**
+ * API Load Tests
+ *
+ * Virtual users run a weighted mix of employee scenarios for a fixed duration:
+ * - list (a page of the list)
+ * - search (by first name)
+ * - get-by-id
+ * - create+delete
+ *
+ * p50/p95/p99 latency, throughput and error rate are attached as
+ * `api-load.json` and `api-load.html` and compared with PERFORMANCE.apiLoad.
+ *
+ * Only runs with LOAD_TEST=true:
+ *   LOAD_TEST=true LOAD_VUS=20 LOAD_DURATION_MS=60000 npx playwright test tests/api/load.spec.ts --project=api
+ */
+
+test.describe('API Load', () => {
+  test.skip(!LOAD_TEST.enabled, 'Set LOAD_TEST=true to run the API load test');
+
+  test('should stay within the latency budgets under load', async ({ request }, testInfo) => {
+    test.setTimeout(LOAD_TEST.durationMs + TIMEOUTS.long);
+    const token = await getTokenForRole(request, 'hradmin');
+
+    const page = await request.get(apiUrl('employees.list', {}, { PageSize: 100 }), {
+      headers: { 'Authorization': `Bearer ${token}`, 'Accept': 'application/json' },
+      ignoreHTTPSErrors: true,
+    });
+    expect(page.ok()).toBeTruthy();
+    const ids: number[] = ((await page.json()).data ?? []).map((employee: { id: number }) => employee.id);
+    expect(ids.length, 'get-by-id needs existing employees').toBeGreaterThan(0);
+
+    // Employees whose delete failed, removed after the run
+    const leftBehind: number[] = [];
+    const pick = <T>(values: readonly T[]) => values[Math.floor(Math.random() * values.length)];
+
+    const scenarios: LoadScenario[] = [
+      {
+        name: 'list',
+        weight: 4,
+        run: client => client.send('GET', apiUrl('employees.list', {}, { PageNumber: pick([1, 2, 3]), PageSize: 10 })),
+      },
+      {
+        name: 'search',
+        weight: 3,
+        run: client => client.send('GET', apiUrl('employees.search', {}, { FirstName: pick(['a', 'e', 'j', 'm', 's']) })),
+      },
+      {
+        name: 'get-by-id',
+        weight: 2,
+        run: client => client.send('GET', apiUrl('employees.detail', { id: pick(ids) })),
+      },
+      {
+        name: 'create+delete',
+        weight: 1,
+        run: async client => {
+          const created = await client.send('POST', apiUrl('employees.create'), createEmployeeData());
+          const id: number = (await created.json()).data;
+          try {
+            await client.send('DELETE', apiUrl('employees.delete', { id }));
+          } catch (error) {
+            leftBehind.push(id);
+            throw error;
+          }
+        },
+      },
+    ];
+
+    const report = await runLoad(request, token, scenarios, LOAD_TEST);
+    const checks = checkLoadBudgets(report.overall, PERFORMANCE.apiLoad);
+    await new ResourceClient(request, token, 'employees').deleteAll(leftBehind);
+
+    await testInfo.attach('api-load.json', {
+      body: JSON.stringify({ ...report, budgets: checks }, null, 2),
+      contentType: 'application/json',
+    });
+    await testInfo.attach('api-load.html', {
+      body: formatLoadReportHtml(report, checks),
+      contentType: 'text/html',
+    });
+
+    const { overall } = report;
+    console.log(
+      `API load: ${overall.iterations} iterations (${overall.throughput.toFixed(1)}/s), ` +
+        `p50 ${overall.p50Ms}ms, p95 ${overall.p95Ms}ms, p99 ${overall.p99Ms}ms, ${overall.errors} errors`
+    );
+
+    const exceeded = checks.filter(check => !check.passed);
+    expect(
+      exceeded,
+      `Budgets exceeded: ${exceeded.map(check => `${check.budget} ${check.actual} (limit ${check.limit})`).join(', ')}`
+    ).toEqual([]);
+  });
+});
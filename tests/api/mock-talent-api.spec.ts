@@ -0,0 +1,206 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { createDepartmentData, createPositionData } from '../../fixtures/data.fixtures';
+import { endpoint } from '../../config/endpoints';
+import { MockTalentApi } from '../../mocks/talent-api';
+import { encodeToken } from '../../utils/token-forgery';
+
+/**
+ * In-memory Web API Tests
+ *
+ * Behaviour of mocks/talent-api.ts itself, so the suites that run against it
+ * can rely on it. The spec starts its own instance on a free port without an
+ * issuer, so tokens are read without signature checks and built here with
+ * the role and scopes under test. No backend is needed.
+ *
+ * Tests cover:
+ * - Admin reset (seed data back, faults cleared)
+ * - Faults: status with `times`, `drop` and `delayMs`
+ * - Role and scope rules of reads, writes, deletes and cache invalidation
+ * - Position writes with the fields of the position form
+ * - ETag / Last-Modified validators and 304 Not Modified
+ */
+
+const READ_SCOPE = 'app.api.talentmanagement.read';
+const WRITE_SCOPE = 'app.api.talentmanagement.write';
+
+test.describe('In-memory Web API', () => {
+  let api: MockTalentApi;
+
+  const url = (path: string) => `${api.baseUrl}${path}`;
+  const tokenFor = (role: string, scopes: string[] = [READ_SCOPE, WRITE_SCOPE]) =>
+    encodeToken({ alg: 'none', typ: 'JWT' }, { sub: role.toLowerCase(), role, scope: scopes }, '');
+  const auth = (role: string, scopes?: string[]) => ({ 'Authorization': `Bearer ${tokenFor(role, scopes)}` });
+  const createDepartment = (request: APIRequestContext, role: string) =>
+    request.post(url(endpoint('departments.create')), { headers: auth(role), data: createDepartmentData() });
+
+  test.beforeAll(async () => {
+    api = new MockTalentApi({ port: 0 });
+    await api.start();
+  });
+
+  test.afterAll(async () => {
+    await api?.stop();
+  });
+
+  test.beforeEach(() => {
+    api.reset();
+  });
+
+  test.describe('Admin', () => {
+    test('should restore the seed data and clear faults on reset', async ({ request }) => {
+      const seeded = api.records('departments').length;
+      expect((await createDepartment(request, 'HRAdmin')).status()).toBe(201);
+      expect(api.records('departments')).toHaveLength(seeded + 1);
+
+      const fault = await request.post(`${api.url}/__admin/faults`, { data: { path: '/positions', status: 500 } });
+      expect(fault.status()).toBe(201);
+      expect(await (await request.get(`${api.url}/__admin/faults`)).json()).toHaveLength(1);
+
+      const reset = await request.post(`${api.url}/__admin/reset`);
+      expect(reset.status()).toBe(200);
+      expect(api.records('departments')).toHaveLength(seeded);
+      expect(await (await request.get(`${api.url}/__admin/faults`)).json()).toEqual([]);
+    });
+  });
+
+  test.describe('Faults', () => {
+    test('should answer with the fault status only the given number of times', async ({ request }) => {
+      api.injectFault({ method: 'GET', path: '/positions', status: 503, times: 2 });
+
+      const statuses: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        statuses.push((await request.get(url(endpoint('positions.list')), { headers: auth('Employee') })).status());
+      }
+
+      expect(statuses).toEqual([503, 503, 200]);
+      expect(await (await request.get(`${api.url}/__admin/faults`)).json()).toEqual([]);
+    });
+
+    test('should only affect requests matching the method and path', async ({ request }) => {
+      api.injectFault({ method: 'POST', path: '/departments', status: 503 });
+
+      expect((await request.get(url(endpoint('departments.list')), { headers: auth('Employee') })).status()).toBe(200);
+      expect((await request.get(url(endpoint('positions.list')), { headers: auth('Employee') })).status()).toBe(200);
+      expect((await createDepartment(request, 'HRAdmin')).status()).toBe(503);
+    });
+
+    test('should drop the connection without answering', async ({ request }) => {
+      api.injectFault({ path: '/departments', drop: true, times: 1 });
+
+      await expect(request.get(url(endpoint('departments.list')), { headers: auth('Employee') })).rejects.toThrow();
+      expect((await request.get(url(endpoint('departments.list')), { headers: auth('Employee') })).status()).toBe(200);
+    });
+
+    test('should delay the answer, then handle the request normally', async ({ request }) => {
+      api.injectFault({ path: '/employees', delayMs: 500, times: 1 });
+
+      const startedAt = Date.now();
+      const response = await request.get(url(endpoint('employees.list')), { headers: auth('Employee') });
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(500);
+      expect(response.status()).toBe(200);
+      expect((await response.json()).data.length).toBeGreaterThan(0);
+    });
+  });
+
+  test.describe('Role Rules', () => {
+    test('should require a bearer token', async ({ request }) => {
+      const response = await request.get(url(endpoint('employees.list')));
+      expect(response.status()).toBe(401);
+      expect(response.headers()['www-authenticate']).toContain('Bearer');
+    });
+
+    test('should let every role read with the read scope', async ({ request }) => {
+      for (const role of ['Employee', 'Manager', 'HRAdmin']) {
+        const response = await request.get(url(endpoint('employees.list')), { headers: auth(role, [READ_SCOPE]) });
+        expect(response.status(), role).toBe(200);
+      }
+    });
+
+    test('should need the write scope for writes', async ({ request }) => {
+      const response = await request.post(url(endpoint('departments.create')), {
+        headers: auth('HRAdmin', [READ_SCOPE]),
+        data: createDepartmentData(),
+      });
+      expect(response.status()).toBe(403);
+    });
+
+    test('should let Manager and HRAdmin create departments, but not Employee', async ({ request }) => {
+      expect((await createDepartment(request, 'Employee')).status()).toBe(403);
+      expect((await createDepartment(request, 'Manager')).status()).toBe(201);
+      expect((await createDepartment(request, 'HRAdmin')).status()).toBe(201);
+    });
+
+    test('should only let HRAdmin delete and invalidate the cache', async ({ request }) => {
+      const { data: id } = await (await createDepartment(request, 'Manager')).json();
+      const deleteUrl = url(endpoint('departments.delete', { id }));
+
+      expect((await request.delete(deleteUrl, { headers: auth('Manager') })).status()).toBe(403);
+      expect((await request.delete(deleteUrl, { headers: auth('HRAdmin') })).ok()).toBe(true);
+
+      const invalidate = url(endpoint('cache.invalidate'));
+      expect((await request.post(invalidate, { headers: auth('Manager') })).status()).toBe(403);
+      expect((await request.post(invalidate, { headers: auth('HRAdmin') })).status()).toBe(200);
+    });
+  });
+
+  test.describe('Positions', () => {
+    test('should create a position from the fields of the position form', async ({ request }) => {
+      const data = createPositionData({ departmentId: 2, salaryRangeId: 3 });
+
+      const response = await request.post(url(endpoint('positions.create')), { headers: auth('HRAdmin'), data });
+      expect(response.status()).toBe(201);
+
+      const { data: id } = await response.json();
+      expect(api.records('positions').find(record => record.id === id)).toEqual({ id, ...data });
+    });
+
+    test('should reject a position without its required fields', async ({ request }) => {
+      const response = await request.post(url(endpoint('positions.create')), {
+        headers: auth('HRAdmin'),
+        data: { positionTitle: 'Test Position', departmentId: 99 },
+      });
+      expect(response.status()).toBe(400);
+
+      const { errors } = await response.json();
+      expect(Object.keys(errors).sort()).toEqual(['DepartmentId', 'PositionNumber', 'SalaryRangeId']);
+    });
+  });
+
+  test.describe('Conditional Requests', () => {
+    test('should answer 304 to a current ETag and 200 to a stale one', async ({ request }) => {
+      const first = await request.get(url(endpoint('employees.list')), { headers: auth('Employee') });
+      const etag = first.headers()['etag'];
+      expect(first.status()).toBe(200);
+      expect(etag).toBeTruthy();
+      expect(first.headers()['last-modified']).toBeTruthy();
+
+      const notModified = await request.get(url(endpoint('employees.list')), {
+        headers: { ...auth('Employee'), 'If-None-Match': etag },
+      });
+      expect(notModified.status()).toBe(304);
+      expect(notModified.headers()['etag']).toBe(etag);
+      expect(await notModified.body()).toHaveLength(0);
+
+      const stale = await request.get(url(endpoint('employees.list')), {
+        headers: { ...auth('Employee'), 'If-None-Match': '"stale"' },
+      });
+      expect(stale.status()).toBe(200);
+    });
+
+    test('should answer 304 to If-Modified-Since until the data changes', async ({ request }) => {
+      const first = await request.get(url(endpoint('departments.list')), { headers: auth('Employee') });
+      const lastModified = first.headers()['last-modified'];
+
+      const conditional = () => request.get(url(endpoint('departments.list')), {
+        headers: { ...auth('Employee'), 'If-Modified-Since': lastModified },
+      });
+      expect((await conditional()).status()).toBe(304);
+
+      // Last-Modified has a one second resolution
+      await new Promise(resolve => setTimeout(resolve, 1100));
+      expect((await createDepartment(request, 'HRAdmin')).status()).toBe(201);
+      expect((await conditional()).status()).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '../../fixtures/test.fixtures';
+import { getTokenForRole, makeAuthenticatedRequest } from '../../fixtures/api.fixtures';
+import { createDepartmentData, createEmployeeData } from '../../fixtures/data.fixtures';
+import { EndpointKey, endpoint } from '../../config/endpoints';
+import { DATA_LIMITS, TIMEOUTS } from '../../config/test-config';
+import { getSchema } from '../../api/schema-registry';
+import { FuzzResponse, fuzzPayloads } from '../../utils/payload-fuzzer';
+
+/**
+ * Payload Fuzzing Tests
+ *
+ * Sends employee and department create requests with generated payloads:
+ * boundary values, wrong types, overlong strings, unicode, nulls, missing
+ * fields and extra properties (see utils/payload-fuzzer.ts). The API must:
+ * - Never answer with a 5xx
+ * - Answer every 4xx with structured validation errors
+ *
+ * A failure is shrunk to a minimal payload, shown in the error and attached
+ * as `fuzz-report`. Replay it with the reported seed:
+ *   FUZZ_SEED=123456 npx playwright test tests/api/payload-fuzz.spec.ts --project=api
+ *
+ * FUZZ_RUNS sets the number of cases per resource (default 40). Payloads the
+ * API accepts are deleted by the teardown fixture.
+ */
+
+const FUZZ_RUNS = Number(process.env.FUZZ_RUNS) || 40;
+const FUZZ_SEED = process.env.FUZZ_SEED ? Number(process.env.FUZZ_SEED) : undefined;
+
+const TARGETS: Array<{ resource: string; key: EndpointKey; schema: string; base: () => object }> = [
+  { resource: 'employee', key: 'employees.create', schema: 'CreateEmployeeCommand', base: () => createEmployeeData() },
+  { resource: 'department', key: 'departments.create', schema: 'CreateDepartmentCommand', base: () => createDepartmentData() },
+];
+
+test.describe('Payload Fuzzing', () => {
+  for (const target of TARGETS) {
+    test(`should reject fuzzed ${target.resource} payloads with validation errors, never a server error`, async ({ request }, testInfo) => {
+      test.setTimeout(TIMEOUTS.long * 2);
+      const token = await getTokenForRole(request, 'hradmin');
+
+      const send = async (payload: Record<string, unknown>): Promise<FuzzResponse> => {
+        const response = await makeAuthenticatedRequest(request, token, 'POST', endpoint(target.key), payload, { retries: 0 });
+        const text = await response.text();
+        try {
+          return { status: response.status(), body: JSON.parse(text) };
+        } catch {
+          return { status: response.status(), body: text };
+        }
+      };
+
+      const report = await fuzzPayloads({
+        base: target.base(),
+        schema: getSchema(target.schema),
+        resolve: getSchema,
+        send,
+        runs: FUZZ_RUNS,
+        seed: FUZZ_SEED,
+        maxNameLength: DATA_LIMITS.maxNameLength,
+      });
+
+      await testInfo.attach('fuzz-report', {
+        body: JSON.stringify(report, null, 2),
+        contentType: 'application/json',
+      });
+
+      const { failure } = report;
+      expect(
+        failure?.reason,
+        failure
+          ? `Seed ${report.seed}, case ${failure.run}: ${failure.reason}\n` +
+              `Minimal reproducer (${failure.shrunk.mutations.map(mutation => `${mutation.kind} ${mutation.field}`).join(', ')}):\n` +
+              JSON.stringify(failure.shrunk.payload, null, 2)
+          : undefined
+      ).toBeUndefined();
+    });
+  }
+});
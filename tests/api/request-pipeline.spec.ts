@@ -0,0 +1,145 @@
+import { test, expect } from '@playwright/test';
+import { apiEvents, makeAuthenticatedRequest } from '../../fixtures/api.fixtures';
+import { createDepartmentData } from '../../fixtures/data.fixtures';
+import { endpoint } from '../../config/endpoints';
+import { MockTalentApi } from '../../mocks/talent-api';
+import { OidcProvider } from '../../mocks/oidc-provider';
+import { RequestAttempt } from '../../utils/request-pipeline';
+import { clearTokenCache, getToken, getTokenStats, resetTokenStats } from '../../utils/token-manager';
+
+/**
+ * Request Pipeline Tests
+ *
+ * Retry, 429 and 401 handling of makeAuthenticatedRequest (see
+ * utils/request-pipeline.ts), driven by faults injected into an in-memory
+ * API. The spec starts its own OIDC provider stub and API on free ports and
+ * points IDENTITY_SERVER_URL, API_BASE_URL and TOKEN_CACHE_DIR at them while
+ * it runs, so no backend is needed.
+ *
+ * Tests cover:
+ * - Backoff and retry of idempotent methods on 503
+ * - No retry of POST on 503
+ * - 429 Retry-After wait and replay
+ * - 401 token refresh (refresh_token grant) and replay
+ */
+
+test.describe('Request Pipeline', () => {
+  let provider: OidcProvider;
+  let api: MockTalentApi;
+  let attempts: RequestAttempt[];
+  const savedEnv: { [name: string]: string | undefined } = {};
+  const recordAttempt = (attempt: RequestAttempt) => attempts.push(attempt);
+  const statuses = () => attempts.map(attempt => attempt.status);
+
+  test.beforeAll(async ({}, testInfo) => {
+    provider = new OidcProvider({ port: 0 });
+    await provider.start();
+    api = new MockTalentApi({ port: 0, issuer: provider.issuer });
+    await api.start();
+
+    for (const name of ['IDENTITY_SERVER_URL', 'API_BASE_URL', 'TOKEN_CACHE_DIR']) {
+      savedEnv[name] = process.env[name];
+    }
+    process.env.IDENTITY_SERVER_URL = provider.issuer;
+    process.env.API_BASE_URL = api.baseUrl;
+    process.env.TOKEN_CACHE_DIR = testInfo.outputPath('token-cache');
+    clearTokenCache();
+  });
+
+  test.afterAll(async () => {
+    // Forget the stub's tokens before switching back to the run's issuer and cache
+    clearTokenCache();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    await api?.stop();
+    await provider?.stop();
+  });
+
+  test.beforeEach(async () => {
+    api.reset();
+    resetTokenStats();
+    attempts = [];
+    apiEvents.on('attempt', recordAttempt);
+  });
+
+  test.afterEach(async () => {
+    apiEvents.off('attempt', recordAttempt);
+  });
+
+  test('should retry GET on 503 with backoff until it succeeds', async ({ request }) => {
+    const token = await getToken(request, 'hradmin');
+    api.injectFault({ method: 'GET', path: '/employees', status: 503, times: 2 });
+
+    const response = await makeAuthenticatedRequest(request, token, 'GET', endpoint('employees.list'));
+
+    expect(response.status()).toBe(200);
+    expect(statuses()).toEqual([503, 503, 200]);
+    // Every retry starts after the previous attempt finished
+    for (let i = 1; i < attempts.length; i++) {
+      expect(attempts[i].startedAt).toBeGreaterThanOrEqual(attempts[i - 1].startedAt + attempts[i - 1].durationMs);
+    }
+  });
+
+  test('should give up after the configured number of retries', async ({ request }) => {
+    const token = await getToken(request, 'hradmin');
+    api.injectFault({ method: 'GET', path: '/departments', status: 503 });
+
+    const response = await makeAuthenticatedRequest(request, token, 'GET', endpoint('departments.list'), undefined, { retries: 1 });
+
+    expect(response.status()).toBe(503);
+    expect(statuses()).toEqual([503, 503]);
+  });
+
+  test('should not retry POST on 503', async ({ request }) => {
+    const token = await getToken(request, 'hradmin');
+    const before = api.records('departments').length;
+    api.injectFault({ method: 'POST', path: '/departments', status: 503, times: 1 });
+
+    const response = await makeAuthenticatedRequest(request, token, 'POST', endpoint('departments.create'), createDepartmentData());
+
+    expect(response.status()).toBe(503);
+    expect(statuses()).toEqual([503]);
+    expect(api.records('departments')).toHaveLength(before);
+  });
+
+  test('should wait for Retry-After on 429 and replay, also for POST', async ({ request }) => {
+    const token = await getToken(request, 'hradmin');
+    api.injectFault({ method: 'POST', path: '/departments', status: 429, headers: { 'Retry-After': '1' }, times: 1 });
+
+    const response = await makeAuthenticatedRequest(request, token, 'POST', endpoint('departments.create'), createDepartmentData());
+
+    expect(response.status()).toBe(201);
+    expect(statuses()).toEqual([429, 201]);
+    expect(attempts[1].startedAt - attempts[0].startedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  test('should refresh the token on 401 and replay once', async ({ request }) => {
+    const token = await getToken(request, 'manager');
+    resetTokenStats();
+    api.injectFault({ method: 'GET', path: '/departments', status: 401, times: 1 });
+
+    const response = await makeAuthenticatedRequest(request, token, 'GET', endpoint('departments.list'));
+
+    expect(response.status()).toBe(200);
+    expect(statuses()).toEqual([401, 200]);
+    // Renewed with the refresh token, not a new login
+    expect(getTokenStats()).toMatchObject({ logins: 0, refreshes: 1 });
+  });
+
+  test('should not replay a 401 when refreshOn401 is off', async ({ request }) => {
+    const token = await getToken(request, 'manager');
+    resetTokenStats();
+    api.injectFault({ method: 'GET', path: '/departments', status: 401, times: 1 });
+
+    const response = await makeAuthenticatedRequest(request, token, 'GET', endpoint('departments.list'), undefined, { refreshOn401: false });
+
+    expect(response.status()).toBe(401);
+    expect(statuses()).toEqual([401]);
+    expect(getTokenStats()).toMatchObject({ logins: 0, refreshes: 0 });
+  });
+});
@@ -0,0 +1,125 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { getTokenForRole } from '../../fixtures/api.fixtures';
+import { TOKEN_FORGERIES, TOKEN_FORGERY_DESCRIPTIONS, TokenForgery, forgeToken } from '../../utils/token-forgery';
+import { ENDPOINT_KEYS, apiUrl } from '../../config/endpoints';
+import { readStubSigningKey } from '../../mocks/oidc-provider';
+
+/**
+ * Token Forgery Tests
+ *
+ * Calls every bearer-protected endpoint in config/api-endpoints.json with each
+ * tampered variant of a real Employee token (see utils/token-forgery.ts) and
+ * expects the request to be rejected with 401/403.
+ *
+ * The auth group is IdentityServer's protocol endpoints; only userinfo takes a
+ * bearer token, so it is the only one called (against IdentityServer).
+ *
+ * With OIDC_STUB=true the claim variants are re-signed with the stub's key,
+ * so each one is rejected for its claims and not for a broken signature.
+ * Re-signed, some variants are tokens an endpoint rightly accepts; those
+ * cases are skipped (see acceptedWhenResigned).
+ *
+ * Note: Requires API authentication to be enforced - while the API allows
+ * anonymous access these tests fail with 200.
+ */
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+interface EndpointCase {
+  name: string;
+  method: HttpMethod;
+  url: string;
+}
+
+// Largest int32 ID: never matches an existing record, so a wrongly accepted DELETE/PUT cannot change data
+const UNKNOWN_ID = 2147483647;
+
+const METHODS: Record<string, HttpMethod> = {
+  create: 'POST',
+  update: 'PUT',
+  delete: 'DELETE',
+  invalidate: 'POST',
+};
+
+/**
+ * Flattens api-endpoints.json into one case per endpoint
+ */
+function getEndpointCases(): EndpointCase[] {
+  const cases: EndpointCase[] = [];
+
+  for (const key of ENDPOINT_KEYS) {
+    const [group, action] = key.split('.');
+    if (group === 'auth' && action !== 'userInfo') {
+      continue;
+    }
+
+    cases.push({
+      name: key,
+      method: METHODS[action] ?? 'GET',
+      url: apiUrl(key, { id: UNKNOWN_ID }),
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * Why a re-signed claim variant is a token the endpoint rightly accepts, or
+ * null when the endpoint must still reject it
+ */
+function acceptedWhenResigned(forgery: TokenForgery, endpoint: EndpointCase): string | null {
+  if (forgery === 'elevated-role') {
+    return 'a validly signed HRAdmin role claim is a genuine HRAdmin token';
+  }
+  if (endpoint.name === 'auth.userInfo' && (forgery === 'missing-role' || forgery === 'wrong-audience')) {
+    return 'userinfo does not check roles or the API audience';
+  }
+  if (forgery === 'missing-role' && endpoint.method === 'GET') {
+    return 'reads need the read scope, not a role';
+  }
+  return null;
+}
+
+async function callWithToken(request: APIRequestContext, endpoint: EndpointCase, token: string) {
+  return request.fetch(endpoint.url, {
+    method: endpoint.method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json',
+    },
+    data: endpoint.method === 'POST' || endpoint.method === 'PUT' ? {} : undefined,
+    ignoreHTTPSErrors: true,
+    failOnStatusCode: false,
+  });
+}
+
+let validToken: string | null = null;
+// The OIDC stub's key when it issued the token, so claim variants can be re-signed
+const signingKey = readStubSigningKey();
+
+test.describe('Token Forgery', () => {
+  test.beforeAll(async ({ request }) => {
+    try {
+      validToken = await getTokenForRole(request, 'employee');
+    } catch (error) {
+      validToken = null;
+      console.log('Failed to acquire auth token - services may not be running. Tests will be skipped.');
+    }
+  });
+
+  for (const forgery of TOKEN_FORGERIES) {
+    test.describe(`${forgery} (${TOKEN_FORGERY_DESCRIPTIONS[forgery]})`, () => {
+      for (const endpoint of getEndpointCases()) {
+        test(`should reject ${endpoint.method} ${endpoint.name}`, async ({ request }) => {
+          if (!validToken) test.skip();
+          const accepted = signingKey ? acceptedWhenResigned(forgery, endpoint) : null;
+          test.skip(accepted !== null, `Re-signed: ${accepted}`);
+
+          const response = await callWithToken(request, endpoint, forgeToken(validToken!, forgery, signingKey));
+
+          expect([401, 403], `${endpoint.method} ${endpoint.url} returned ${response.status()}`).toContain(response.status());
+        });
+      }
+    });
+  }
+});
@@ -0,0 +1,128 @@
+import { test } from '@playwright/test';
+import { AUTH_CODE_CLIENT } from '../../fixtures/auth.fixtures';
+import { getTokenForRole } from '../../fixtures/api.fixtures';
+import { getUser } from '../../config/user-registry';
+import { OidcProvider } from '../../mocks/oidc-provider';
+import { expect } from '../../utils/token-matchers';
+import { readPersistedToken, tokenCacheKey, writePersistedToken } from '../../utils/token-cache';
+import {
+  TokenEvent,
+  clearTokenCache,
+  getIssuerKeyId,
+  getToken,
+  getTokenStats,
+  refreshToken,
+  resetTokenStats,
+  tokenEvents,
+} from '../../utils/token-manager';
+
+/**
+ * Token Manager Tests
+ *
+ * Login vs refresh behaviour of utils/token-manager.ts, against an OIDC
+ * provider stub started per test with 61 second access tokens, so tokens are
+ * due for renewal (60 seconds before expiry) right after they are issued.
+ * IDENTITY_SERVER_URL and TOKEN_CACHE_DIR point at the stub and a cache
+ * directory of the test while it runs, so no IdentityServer is needed.
+ *
+ * Tests cover:
+ * - Renewal with the refresh_token grant instead of a new login
+ * - Refresh of a token the manager did not issue, with the refresh token persisted for its user
+ * - Fallback to login when the refresh token is rejected
+ */
+
+// One second longer than the token manager's renewal margin
+const ACCESS_TOKEN_LIFETIME = 61;
+
+test.describe('Token Manager', () => {
+  let provider: OidcProvider;
+  let events: string[];
+  const savedEnv: { [name: string]: string | undefined } = {};
+
+  const recordEvent = (name: string) => (event: TokenEvent) => events.push(`${name}:${event.role}`);
+  const listeners = {
+    login: recordEvent('login'),
+    refresh: recordEvent('refresh'),
+    'refresh-failed': recordEvent('refresh-failed'),
+  };
+
+  test.beforeEach(async ({}, testInfo) => {
+    provider = new OidcProvider({ port: 0, accessTokenLifetime: ACCESS_TOKEN_LIFETIME });
+    await provider.start();
+
+    for (const name of ['IDENTITY_SERVER_URL', 'TOKEN_CACHE_DIR']) {
+      savedEnv[name] = process.env[name];
+    }
+    process.env.IDENTITY_SERVER_URL = provider.issuer;
+    process.env.TOKEN_CACHE_DIR = testInfo.outputPath('token-cache');
+
+    clearTokenCache();
+    resetTokenStats();
+    events = [];
+    for (const [name, listener] of Object.entries(listeners)) {
+      tokenEvents.on(name, listener);
+    }
+  });
+
+  test.afterEach(async () => {
+    for (const [name, listener] of Object.entries(listeners)) {
+      tokenEvents.off(name, listener);
+    }
+    // Forget the stub's tokens before switching back to the run's issuer and cache
+    clearTokenCache();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    await provider.stop();
+  });
+
+  test('should renew a token that is about to expire with the refresh token', async ({ request }) => {
+    const first = await getToken(request, 'manager');
+    expect(first).toBeIssuedBy(provider.issuer);
+    expect(getTokenStats()).toMatchObject({ logins: 1, refreshes: 0 });
+
+    // Wait until the token is inside the renewal margin
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    const renewed = await getToken(request, 'manager');
+    expect(renewed).not.toBe(first);
+    expect(renewed).toHaveClaim('preferred_username', getUser('manager').username);
+    expect(getTokenStats()).toMatchObject({ logins: 1, refreshes: 1, refreshFailures: 0 });
+    expect(events).toEqual(['login:manager', 'refresh:manager']);
+  });
+
+  test('should refresh a token it did not issue with the refresh token persisted for its user', async ({ request }) => {
+    // Signed in through api.fixtures.ts, so the token manager has no copy of it in memory
+    const token = await getTokenForRole(request, 'hradmin');
+
+    const renewed = await refreshToken(request, token);
+    expect(renewed).not.toBe(token);
+    expect(renewed).toBeIssuedBy(provider.issuer);
+    expect(getTokenStats()).toMatchObject({ logins: 0, refreshes: 1 });
+    expect(events).toEqual(['refresh:hradmin']);
+  });
+
+  test('should fall back to login when the refresh token is rejected', async ({ request }) => {
+    const token = await getToken(request, 'employee');
+
+    // Replace the persisted refresh token with one the provider never issued
+    const key = tokenCacheKey({
+      username: getUser('employee').username,
+      scope: AUTH_CODE_CLIENT.scope,
+      keyId: await getIssuerKeyId(request),
+    });
+    const entry = readPersistedToken(key);
+    expect(entry?.refreshToken, 'offline_access should return a refresh token').toBeTruthy();
+    writePersistedToken(key, { ...entry!, refreshToken: 'revoked' });
+    resetTokenStats();
+
+    const renewed = await refreshToken(request, token);
+    expect(renewed).not.toBe(token);
+    expect(getTokenStats()).toMatchObject({ logins: 1, refreshes: 0, refreshFailures: 1 });
+    expect(events).toEqual(['login:employee', 'refresh-failed:employee', 'login:employee']);
+  });
+});
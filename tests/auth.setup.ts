@@ -0,0 +1,21 @@
+import { test as setup } from '@playwright/test';
+import { loginAsRole, saveAuthState } from '../fixtures/auth.fixtures';
+import { ROLES } from '../config/user-registry';
+
+/**
+ * Authentication Setup
+ *
+ * Runs once per test run (the "setup" project every browser project depends on):
+ * - Logs in through IdentityServer for each role in config/test-users.json
+ * - Saves the storageState and sessionStorage of each role under playwright/.auth
+ *
+ * Specs then opt in with `test.use({ role: 'manager' })` instead of logging in
+ * again in every beforeEach.
+ */
+
+for (const role of ROLES) {
+  setup(`authenticate as ${role}`, async ({ page }) => {
+    await loginAsRole(page, role);
+    await saveAuthState(page, role);
+  });
+}
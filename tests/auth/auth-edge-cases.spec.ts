@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
 
 /**
@@ -13,91 +13,6 @@ import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('Authentication Edge Cases', () => {
-  test('should handle session expiration gracefully', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Simulate session expiration by clearing tokens
-    await page.evaluate(() => {
-      localStorage.clear();
-      sessionStorage.clear();
-    });
-
-    // Try to navigate or perform action
-    await page.goto('/departments');
-    await page.waitForLoadState('networkidle');
-
-    // With optional auth, app should load as Guest/Anonymous
-    const guestCount = await page.locator('h4:has-text("Guest")').count();
-    const isGuest = guestCount > 0;
-
-    // Should be in Guest mode after token cleared
-    expect(isGuest).toBe(true);
-  });
-
-  test('should handle concurrent logins from same user', async ({ page, context }) => {
-    // Login in first tab
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Verify first tab is working
-    const table1 = page.locator('table, mat-table');
-    const isTable1Visible = await table1.isVisible({ timeout: 10000 }).catch(() => false);
-    expect(isTable1Visible).toBe(true);
-
-    // Open second tab and navigate (will share authentication from context)
-    const page2 = await context.newPage();
-    await page2.goto('/employees');
-    await page2.waitForLoadState('networkidle');
-
-    // Second tab should work (shares authentication context)
-    const table2 = page2.locator('table, mat-table');
-    const isTable2Visible = await table2.isVisible({ timeout: 10000 }).catch(() => false);
-
-    // Both sessions should work with same user
-    expect(isTable2Visible).toBe(true);
-
-    await page2.close();
-  });
-
-  test('should handle token refresh timing', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Simulate token about to expire
-    await page.evaluate(() => {
-      const token = localStorage.getItem('access_token') || sessionStorage.getItem('access_token');
-      if (token) {
-        // Decode and modify expiration (this is just for testing UI behavior)
-        const parts = token.split('.');
-        if (parts.length === 3) {
-          try {
-            const payload = JSON.parse(atob(parts[1]));
-            payload.exp = Math.floor(Date.now() / 1000) + 60; // Expires in 1 minute
-            // Note: This won't actually modify the real token, just for UI testing
-          } catch (e) {
-            // Ignore parsing errors
-          }
-        }
-      }
-    });
-
-    // Navigate to trigger potential refresh
-    await page.goto('/departments');
-    await page.waitForLoadState('networkidle');
-
-    // Should handle token refresh or prompt for re-auth
-    const isDepartmentsPage = page.url().includes('departments');
-    const isLoginPage = page.url().includes('login') || page.url().includes('sts.skoruba.local');
-
-    expect(isDepartmentsPage || isLoginPage).toBe(true);
-  });
-
   test('should handle invalid token gracefully', async ({ page }) => {
     // Set invalid token
     await page.goto('/');
@@ -120,31 +35,6 @@ test.describe('Authentication Edge Cases', () => {
     expect(isUserVisible).toBe(true);
   });
 
-  test('should handle logout during API call', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-
-    // Navigate to page
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Clear tokens (simulating logout)
-    await page.evaluate(() => {
-      localStorage.clear();
-      sessionStorage.clear();
-    });
-
-    // Reload page to trigger re-check
-    await page.reload();
-    await page.waitForLoadState('networkidle');
-
-    // Should load as Guest after tokens cleared
-    const guestCount = await page.locator('h4:has-text("Guest")').count();
-    const isGuest = guestCount > 0;
-
-    expect(isGuest).toBe(true);
-  });
-
   test('should handle missing authentication state', async ({ page }) => {
     // Try to access protected route without logging in
     await page.goto('/employees');
@@ -179,43 +69,12 @@ test.describe('Authentication Edge Cases', () => {
     expect(isUserVisible).toBe(true);
   });
 
-  test('should handle token stored in wrong storage location', async ({ page }) => {
-    // Login normally
-    await loginAsRole(page, 'manager');
-
-    // Get token
-    const token = await page.evaluate(() => {
-      return localStorage.getItem('access_token') || sessionStorage.getItem('access_token');
-    });
-
-    // Clear and set in wrong location
-    await page.evaluate((tok) => {
-      localStorage.clear();
-      sessionStorage.clear();
-      // Set in opposite location
-      if (localStorage.getItem('access_token')) {
-        sessionStorage.setItem('access_token', tok!);
-      } else {
-        localStorage.setItem('access_token', tok!);
-      }
-    }, token);
-
-    // Try to access protected route
-    await page.goto('/employees');
-    await page.waitForTimeout(2000);
-
-    // Might work or might require re-login
-    const isOnEmployees = page.url().includes('employees') && !page.url().includes('login');
-    const isOnLogin = page.url().includes('login') || page.url().includes('sts.skoruba.local');
-
-    expect(isOnEmployees || isOnLogin).toBe(true);
-  });
-
   test('should handle rapid login/logout cycles', async ({ page }) => {
     test.setTimeout(60000); // Increase timeout for Firefox compatibility
 
     // Perform single login/logout cycle to verify recovery
-    // Login
+    // A login of its own: logging out ends the IdentityServer session, which
+    // must not be the one the setup project saved for the role
     await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
@@ -239,75 +98,206 @@ test.describe('Authentication Edge Cases', () => {
     expect(isVisible).toBe(true);
   });
 
-  test('should maintain authentication after page refresh', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+  test.describe('as Manager', () => {
+    test.use({ role: 'manager' });
 
-    // Refresh page
-    await page.reload();
-    await page.waitForLoadState('networkidle');
+    test('should handle session expiration gracefully', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Should still be authenticated
-    const employeeTable = page.locator('table, mat-table');
-    const isVisible = await employeeTable.isVisible({ timeout: 5000 }).catch(() => false);
+      // Simulate session expiration by clearing tokens
+      await page.evaluate(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+      });
 
-    expect(isVisible).toBe(true);
-  });
+      // Try to navigate or perform action
+      await page.goto('/departments');
+      await page.waitForLoadState('networkidle');
 
-  test('should handle authentication across browser tabs', async ({ page, context }) => {
-    test.setTimeout(60000); // Increase timeout for Firefox compatibility
+      // With optional auth, app should load as Guest/Anonymous
+      const guestCount = await page.locator('h4:has-text("Guest")').count();
+      const isGuest = guestCount > 0;
 
-    // Login in first tab
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees', { timeout: 60000 });
-    await page.waitForLoadState('networkidle', { timeout: 60000 });
+      // Should be in Guest mode after token cleared
+      expect(isGuest).toBe(true);
+    });
 
-    // Verify first tab is authenticated
-    const table1 = page.locator('table, mat-table');
-    const isTable1Visible = await table1.isVisible({ timeout: 10000 }).catch(() => false);
-    expect(isTable1Visible).toBe(true);
+    test('should handle concurrent logins from same user', async ({ page, context }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Open second tab
-    const page2 = await context.newPage();
-    await page2.goto('/employees', { timeout: 60000 });
-    await page2.waitForLoadState('networkidle', { timeout: 60000 });
+      // Verify first tab is working
+      const table1 = page.locator('table, mat-table');
+      const isTable1Visible = await table1.isVisible({ timeout: 10000 }).catch(() => false);
+      expect(isTable1Visible).toBe(true);
 
-    // Second tab should use same authentication (context is shared)
-    const table2 = page2.locator('table, mat-table');
-    const isVisible = await table2.isVisible({ timeout: 10000 }).catch(() => false);
+      // Open second tab and navigate (will share authentication from context)
+      const page2 = await context.newPage();
+      await page2.goto('/employees');
+      await page2.waitForLoadState('networkidle');
 
-    // Second tab should share authentication from context
-    expect(isVisible).toBe(true);
+      // Second tab should work (shares authentication context)
+      const table2 = page2.locator('table, mat-table');
+      const isTable2Visible = await table2.isVisible({ timeout: 10000 }).catch(() => false);
 
-    await page2.close();
-  });
+      // Both sessions should work with same user
+      expect(isTable2Visible).toBe(true);
 
-  test('should handle logout in one tab affecting other tabs', async ({ page, context }) => {
-    // Login in first tab
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+      await page2.close();
+    });
 
-    // Open second tab
-    const page2 = await context.newPage();
-    await page2.goto('/employees');
-    await page2.waitForLoadState('networkidle');
+    test('should handle token refresh timing', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
+
+      // Simulate token about to expire
+      await page.evaluate(() => {
+        const token = localStorage.getItem('access_token') || sessionStorage.getItem('access_token');
+        if (token) {
+          // Decode and modify expiration (this is just for testing UI behavior)
+          const parts = token.split('.');
+          if (parts.length === 3) {
+            try {
+              const payload = JSON.parse(atob(parts[1]));
+              payload.exp = Math.floor(Date.now() / 1000) + 60; // Expires in 1 minute
+              // Note: This won't actually modify the real token, just for UI testing
+            } catch (e) {
+              // Ignore parsing errors
+            }
+          }
+        }
+      });
 
-    // Logout in first tab
-    await page.evaluate(() => {
-      localStorage.clear();
-      sessionStorage.clear();
+      // Navigate to trigger potential refresh
+      await page.goto('/departments');
+      await page.waitForLoadState('networkidle');
+
+      // Should handle token refresh or prompt for re-auth
+      const isDepartmentsPage = page.url().includes('departments');
+      const isLoginPage = page.url().includes('login') || page.url().includes('sts.skoruba.local');
+
+      expect(isDepartmentsPage || isLoginPage).toBe(true);
     });
 
-    // Try to navigate in second tab
-    await page2.goto('/departments');
-    await page2.waitForTimeout(2000);
+    test('should handle logout during API call', async ({ page }) => {
+      // Navigate to page
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Second tab might still work or require re-auth
-    expect(true).toBe(true); // Both behaviors are valid
+      // Clear tokens (simulating logout)
+      await page.evaluate(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+      });
 
-    await page2.close();
+      // Reload page to trigger re-check
+      await page.reload();
+      await page.waitForLoadState('networkidle');
+
+      // Should load as Guest after tokens cleared
+      const guestCount = await page.locator('h4:has-text("Guest")').count();
+      const isGuest = guestCount > 0;
+
+      expect(isGuest).toBe(true);
+    });
+
+    test('should handle token stored in wrong storage location', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
+
+      // Get token
+      const token = await page.evaluate(() => {
+        return localStorage.getItem('access_token') || sessionStorage.getItem('access_token');
+      });
+
+      // Clear and set in wrong location
+      await page.evaluate((tok) => {
+        localStorage.clear();
+        sessionStorage.clear();
+        // Set in opposite location
+        if (localStorage.getItem('access_token')) {
+          sessionStorage.setItem('access_token', tok!);
+        } else {
+          localStorage.setItem('access_token', tok!);
+        }
+      }, token);
+
+      // Try to access protected route
+      await page.goto('/employees');
+      await page.waitForTimeout(2000);
+
+      // Might work or might require re-login
+      const isOnEmployees = page.url().includes('employees') && !page.url().includes('login');
+      const isOnLogin = page.url().includes('login') || page.url().includes('sts.skoruba.local');
+
+      expect(isOnEmployees || isOnLogin).toBe(true);
+    });
+
+    test('should maintain authentication after page refresh', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
+
+      // Refresh page
+      await page.reload();
+      await page.waitForLoadState('networkidle');
+
+      // Should still be authenticated
+      const employeeTable = page.locator('table, mat-table');
+      const isVisible = await employeeTable.isVisible({ timeout: 5000 }).catch(() => false);
+
+      expect(isVisible).toBe(true);
+    });
+
+    test('should handle authentication across browser tabs', async ({ page, context }) => {
+      test.setTimeout(60000); // Increase timeout for Firefox compatibility
+
+      await page.goto('/employees', { timeout: 60000 });
+      await page.waitForLoadState('networkidle', { timeout: 60000 });
+
+      // Verify first tab is authenticated
+      const table1 = page.locator('table, mat-table');
+      const isTable1Visible = await table1.isVisible({ timeout: 10000 }).catch(() => false);
+      expect(isTable1Visible).toBe(true);
+
+      // Open second tab
+      const page2 = await context.newPage();
+      await page2.goto('/employees', { timeout: 60000 });
+      await page2.waitForLoadState('networkidle', { timeout: 60000 });
+
+      // Second tab should use same authentication (context is shared)
+      const table2 = page2.locator('table, mat-table');
+      const isVisible = await table2.isVisible({ timeout: 10000 }).catch(() => false);
+
+      // Second tab should share authentication from context
+      expect(isVisible).toBe(true);
+
+      await page2.close();
+    });
+
+    test('should handle logout in one tab affecting other tabs', async ({ page, context }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
+
+      // Open second tab
+      const page2 = await context.newPage();
+      await page2.goto('/employees');
+      await page2.waitForLoadState('networkidle');
+
+      // Logout in first tab
+      await page.evaluate(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+      });
+
+      // Try to navigate in second tab
+      await page2.goto('/departments');
+      await page2.waitForTimeout(2000);
+
+      // Second tab might still work or require re-auth
+      expect(true).toBe(true); // Both behaviors are valid
+
+      await page2.close();
+    });
   });
 });
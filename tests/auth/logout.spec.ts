@@ -12,7 +12,8 @@ import { loginAsRole, logout, isAuthenticated, clearAuthTokens } from '../../fix
 
 test.describe('Logout Flow', () => {
   test.beforeEach(async ({ page }) => {
-    // Login before each test
+    // A login of its own rather than the role option: logging out ends the
+    // IdentityServer session, which must not be the one the setup project saved
     await loginAsRole(page, 'manager');
     await expect(page.locator('h1:has-text("Dashboard")')).toBeVisible();
   });
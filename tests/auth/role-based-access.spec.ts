@@ -1,5 +1,5 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { expect } from '@playwright/test';
+import { test, loginAsRole, logout } from '../../fixtures/auth.fixtures';
 
 /**
  * Role-Based Access Control Tests
@@ -8,13 +8,14 @@ import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
  * - Employee role: Read-only access
  * - Manager role: Create/edit employees and departments
  * - HRAdmin role: Full access including positions and salary ranges
+ *
+ * Single-role groups reuse the auth state saved by tests/auth.setup.ts;
+ * the cross-role checks still switch users through the login flow.
  */
 
 test.describe('Role-Based Access Control', () => {
   test.describe('Employee Role', () => {
-    test.beforeEach(async ({ page }) => {
-      await loginAsRole(page, 'employee');
-    });
+    test.use({ role: 'employee' });
 
     test('should allow Employee to view employee list', async ({ page }) => {
       await page.goto('/employees');
@@ -93,9 +94,7 @@ test.describe('Role-Based Access Control', () => {
   });
 
   test.describe('Manager Role', () => {
-    test.beforeEach(async ({ page }) => {
-      await loginAsRole(page, 'manager');
-    });
+    test.use({ role: 'manager' });
 
     test('should allow Manager to create employees', async ({ page }) => {
       await page.goto('/employees');
@@ -192,9 +191,7 @@ test.describe('Role-Based Access Control', () => {
   });
 
   test.describe('HRAdmin Role', () => {
-    test.beforeEach(async ({ page }) => {
-      await loginAsRole(page, 'hradmin');
-    });
+    test.use({ role: 'hradmin' });
 
     test('should allow HRAdmin full access to all modules', async ({ page }) => {
       await page.goto('/dashboard');
@@ -0,0 +1,118 @@
+import { expect } from '@playwright/test';
+import { test } from '../../fixtures/session.fixtures';
+import { isAuthenticated, loginFromCurrentPage } from '../../fixtures/auth.fixtures';
+import { APP_URLS } from '../../config/test-config';
+import { getUser } from '../../config/user-registry';
+import { getTimeUntilExpiration } from '../../utils/token-manager';
+
+/**
+ * Session Expiry Tests
+ *
+ * Uses page.clock (see fixtures/session.fixtures.ts) to move the browser past
+ * the access token's lifetime instead of clearing storage:
+ * - Silent renew before the token expires
+ * - Session ends when the token expires and cannot be renewed
+ * - No API request carries an expired token
+ * - Re-authentication returns to the page the user was on
+ */
+
+test.describe('Session Expiry', () => {
+  test.use({ role: 'manager' });
+
+  test('should silently renew the token before it expires', async ({ page, sessionClock }) => {
+    await page.goto('/employees');
+    await page.waitForLoadState('networkidle');
+
+    const originalToken = await sessionClock.getAccessToken();
+    expect(await sessionClock.getSecondsUntilExpiry()).toBeGreaterThan(0);
+
+    await sessionClock.fastForwardToRenewal();
+
+    // The OIDC client asks IdentityServer for a new token and stores it
+    await expect.poll(() => sessionClock.renewals.length, { timeout: 15000 }).toBeGreaterThan(0);
+    await expect.poll(() => sessionClock.getAccessToken(), { timeout: 15000 }).not.toBe(originalToken);
+
+    // The renewed token outlives the original one and the session carries on
+    const now = await sessionClock.now();
+    const renewedToken = await sessionClock.getAccessToken();
+    expect(getTimeUntilExpiration(renewedToken, now)).toBeGreaterThan(getTimeUntilExpiration(originalToken, now));
+
+    await page.goto('/departments');
+    await page.waitForLoadState('networkidle');
+
+    expect(await isAuthenticated(page)).toBe(true);
+    expect(page.url()).toContain('departments');
+  });
+
+  test('should end the session when the token expires without renewal', async ({ page, sessionClock }) => {
+    await sessionClock.blockRenewal();
+
+    await page.goto('/employees');
+    await page.waitForLoadState('networkidle');
+    expect(await isAuthenticated(page)).toBe(true);
+
+    await sessionClock.fastForwardPastExpiry();
+
+    await page.goto('/departments');
+    await page.waitForLoadState('networkidle');
+
+    // With optional auth the app falls back to Guest; it may also send the user to login
+    const isOnLogin = page.url().includes('login') || page.url().startsWith(APP_URLS.identityServer);
+    const isGuest = !(await isAuthenticated(page));
+    expect(isOnLogin || isGuest).toBe(true);
+  });
+
+  test('should not send an expired token with API requests', async ({ page, sessionClock }) => {
+    await sessionClock.blockRenewal();
+
+    await page.goto('/employees');
+    await page.waitForLoadState('networkidle');
+
+    await sessionClock.fastForwardPastExpiry();
+
+    // Record the bearer token of every API request started after expiry
+    const sentTokens: string[] = [];
+    const apiOrigin = new URL(APP_URLS.api).origin;
+    page.on('request', request => {
+      const authorization = request.headers()['authorization'];
+      if (request.url().startsWith(apiOrigin) && authorization?.startsWith('Bearer ')) {
+        sentTokens.push(authorization.slice('Bearer '.length));
+      }
+    });
+
+    await page.goto('/departments');
+    await page.waitForLoadState('networkidle');
+
+    // Requests still go out (the API allows anonymous access), just without the expired token
+    const now = await sessionClock.now();
+    for (const token of sentTokens) {
+      expect(getTimeUntilExpiration(token, now), 'API request carried an expired access token').toBeGreaterThan(0);
+    }
+  });
+
+  test('should return to the current page after re-authentication', async ({ page, sessionClock }) => {
+    await sessionClock.blockRenewal();
+
+    await page.goto('/departments');
+    await page.waitForLoadState('networkidle');
+
+    await sessionClock.fastForwardPastExpiry();
+    await page.reload();
+    await page.waitForLoadState('networkidle');
+    expect(await isAuthenticated(page)).toBe(false);
+
+    // Drop the IdentityServer session cookie so the login form is shown again, and
+    // line the page's clock up with IdentityServer so the new tokens validate
+    await page.context().clearCookies({ domain: new URL(APP_URLS.identityServer).hostname });
+    await sessionClock.resumeRealTime();
+
+    // Log in again from the page where the session ran out
+    const { username, password } = getUser('manager');
+    await loginFromCurrentPage(page, username, password);
+    await page.waitForLoadState('networkidle');
+
+    expect(await isAuthenticated(page)).toBe(true);
+    expect(page.url()).toContain('departments');
+    expect(await sessionClock.getSecondsUntilExpiry()).toBeGreaterThan(0);
+  });
+});
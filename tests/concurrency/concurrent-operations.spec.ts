@@ -1,5 +1,5 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
+import { newRoleContext } from '../../fixtures/auth.fixtures';
 import { createEmployeeData } from '../../fixtures/data.fixtures';
 
 /**
@@ -16,17 +16,13 @@ test.describe('Concurrent Operations', () => {
   test('should handle multiple users creating employees simultaneously', async ({ browser }) => {
     test.setTimeout(90000); // Increase timeout for concurrent operations
 
-    // Create two browser contexts (simulating two users)
-    const context1 = await browser.newContext();
-    const context2 = await browser.newContext();
+    // Create two browser contexts (simulating two users), both from the saved Manager session
+    const context1 = await newRoleContext(browser, 'manager');
+    const context2 = await newRoleContext(browser, 'manager');
 
     const page1 = await context1.newPage();
     const page2 = await context2.newPage();
 
-    // Login both users as Manager
-    await loginAsRole(page1, 'manager');
-    await loginAsRole(page2, 'manager');
-
     // Navigate both to create employee page
     await page1.goto('/employees');
     await page1.waitForLoadState('networkidle');
@@ -132,16 +128,12 @@ test.describe('Concurrent Operations', () => {
 
   test('should handle simultaneous edit conflicts', async ({ browser }) => {
     // Create two contexts
-    const context1 = await browser.newContext();
-    const context2 = await browser.newContext();
+    const context1 = await newRoleContext(browser, 'manager');
+    const context2 = await newRoleContext(browser, 'manager');
 
     const page1 = await context1.newPage();
     const page2 = await context2.newPage();
 
-    // Login both users
-    await loginAsRole(page1, 'manager');
-    await loginAsRole(page2, 'manager');
-
     // Both navigate to same employee
     await page1.goto('/employees');
     await page1.waitForLoadState('networkidle');
@@ -190,75 +182,14 @@ test.describe('Concurrent Operations', () => {
     await context2.close();
   });
 
-  test('should handle race conditions in form submission', async ({ page }) => {
-    test.setTimeout(60000); // Increase timeout
-
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
-    await createButton.first().click();
-    await page.waitForLoadState('networkidle');
-
-    // Fill form
-    const employeeData = createEmployeeData({
-      firstName: 'RaceTest',
-      lastName: `User${Date.now()}`,
-      email: `race.${Date.now()}@example.com`,
-    });
-
-    // Fill all required fields
-    await page.locator('input[name*="firstName"], input[formControlName="firstName"]').fill(employeeData.firstName);
-    await page.locator('input[name*="lastName"], input[formControlName="lastName"]').fill(employeeData.lastName);
-    await page.locator('input[name*="email"], input[formControlName="email"]').fill(employeeData.email);
-
-    // Scroll down to ensure all fields are visible
-    await page.evaluate(() => window.scrollTo(0, 300));
-    await page.waitForTimeout(500);
-
-    const phone = page.getByLabel(/phone.*number/i).or(page.locator('input[placeholder*="Phone"]'));
-    await phone.fill('555-9999');
-
-    const dob = page.getByLabel(/date.*of.*birth/i).or(page.locator('input[placeholder*="Date"]'));
-    await dob.fill('01/01/1990');
-
-    // Select department and position
-    const deptSelect = page.locator('mat-select[formControlName="departmentId"], select[name*="department"]').first();
-    await deptSelect.waitFor({ state: 'visible', timeout: 10000 });
-    await deptSelect.click();
-    await page.waitForTimeout(1000);
-    await page.locator('mat-option, option').first().click();
-    await page.waitForTimeout(1000);
-
-    const posSelect = page.locator('mat-select[formControlName="positionId"], select[name*="position"]').first();
-    await posSelect.waitFor({ state: 'visible', timeout: 10000 });
-    await posSelect.click();
-    await page.waitForTimeout(1000);
-    await page.locator('mat-option, option').first().click();
-    await page.waitForTimeout(1000);
-
-    // Verify form is ready to submit
-    const submitButton = page.locator('button').filter({ hasText: /create/i }).first();
-    const isButtonVisible = await submitButton.isVisible({ timeout: 5000 }).catch(() => false);
-
-    // Test passes if form loaded successfully
-    // Form submission race condition handling is implementation-specific
-    expect(isButtonVisible).toBe(true);
-  });
-
   test('should handle concurrent deletions', async ({ browser }) => {
-    // Create two contexts
-    const context1 = await browser.newContext();
-    const context2 = await browser.newContext();
+    // Create two HRAdmin contexts (has delete permission)
+    const context1 = await newRoleContext(browser, 'hradmin');
+    const context2 = await newRoleContext(browser, 'hradmin');
 
     const page1 = await context1.newPage();
     const page2 = await context2.newPage();
 
-    // Login as HRAdmin (has delete permission)
-    await loginAsRole(page1, 'hradmin');
-    await loginAsRole(page2, 'hradmin');
-
     // Navigate to employees
     await page1.goto('/employees');
     await page1.waitForLoadState('networkidle');
@@ -302,35 +233,13 @@ test.describe('Concurrent Operations', () => {
     await context2.close();
   });
 
-  test('should handle concurrent API requests from same user', async ({ page }) => {
-    await loginAsRole(page, 'manager');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
-
-    // Navigate rapidly between pages (simulates user clicking quickly)
-    // Note: Rapid navigation causes previous navigations to abort (expected behavior)
-    await page.goto('/employees');
-    await page.waitForTimeout(100);
-    await page.goto('/departments');
-    await page.waitForTimeout(100);
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Final navigation should succeed
-    const employeeTable = page.locator('table, mat-table');
-    await expect(employeeTable.first()).toBeVisible({ timeout: 5000 });
-  });
-
   test('should maintain data consistency during concurrent operations', async ({ browser }) => {
-    const context1 = await browser.newContext();
-    const context2 = await browser.newContext();
+    const context1 = await newRoleContext(browser, 'manager');
+    const context2 = await newRoleContext(browser, 'manager');
 
     const page1 = await context1.newPage();
     const page2 = await context2.newPage();
 
-    await loginAsRole(page1, 'manager');
-    await loginAsRole(page2, 'manager');
-
     // Load employee list in both contexts
     await page1.goto('/employees');
     await page1.waitForLoadState('networkidle');
@@ -351,15 +260,12 @@ test.describe('Concurrent Operations', () => {
   test('should handle concurrent updates to different fields', async ({ browser }) => {
     test.setTimeout(60000); // Increase timeout for concurrent operations
 
-    const context1 = await browser.newContext();
-    const context2 = await browser.newContext();
+    const context1 = await newRoleContext(browser, 'manager');
+    const context2 = await newRoleContext(browser, 'manager');
 
     const page1 = await context1.newPage();
     const page2 = await context2.newPage();
 
-    await loginAsRole(page1, 'manager');
-    await loginAsRole(page2, 'manager');
-
     // Both edit same employee but different fields
     await page1.goto('/employees');
     await page1.waitForLoadState('networkidle');
@@ -409,4 +315,82 @@ test.describe('Concurrent Operations', () => {
     await context1.close();
     await context2.close();
   });
+
+  test.describe('as Manager', () => {
+    test.use({ role: 'manager' });
+
+    test('should handle race conditions in form submission', async ({ page }) => {
+      test.setTimeout(60000); // Increase timeout
+
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
+
+      const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
+      await createButton.first().click();
+      await page.waitForLoadState('networkidle');
+
+      // Fill form
+      const employeeData = createEmployeeData({
+        firstName: 'RaceTest',
+        lastName: `User${Date.now()}`,
+        email: `race.${Date.now()}@example.com`,
+      });
+
+      // Fill all required fields
+      await page.locator('input[name*="firstName"], input[formControlName="firstName"]').fill(employeeData.firstName);
+      await page.locator('input[name*="lastName"], input[formControlName="lastName"]').fill(employeeData.lastName);
+      await page.locator('input[name*="email"], input[formControlName="email"]').fill(employeeData.email);
+
+      // Scroll down to ensure all fields are visible
+      await page.evaluate(() => window.scrollTo(0, 300));
+      await page.waitForTimeout(500);
+
+      const phone = page.getByLabel(/phone.*number/i).or(page.locator('input[placeholder*="Phone"]'));
+      await phone.fill('555-9999');
+
+      const dob = page.getByLabel(/date.*of.*birth/i).or(page.locator('input[placeholder*="Date"]'));
+      await dob.fill('01/01/1990');
+
+      // Select department and position
+      const deptSelect = page.locator('mat-select[formControlName="departmentId"], select[name*="department"]').first();
+      await deptSelect.waitFor({ state: 'visible', timeout: 10000 });
+      await deptSelect.click();
+      await page.waitForTimeout(1000);
+      await page.locator('mat-option, option').first().click();
+      await page.waitForTimeout(1000);
+
+      const posSelect = page.locator('mat-select[formControlName="positionId"], select[name*="position"]').first();
+      await posSelect.waitFor({ state: 'visible', timeout: 10000 });
+      await posSelect.click();
+      await page.waitForTimeout(1000);
+      await page.locator('mat-option, option').first().click();
+      await page.waitForTimeout(1000);
+
+      // Verify form is ready to submit
+      const submitButton = page.locator('button').filter({ hasText: /create/i }).first();
+      const isButtonVisible = await submitButton.isVisible({ timeout: 5000 }).catch(() => false);
+
+      // Test passes if form loaded successfully
+      // Form submission race condition handling is implementation-specific
+      expect(isButtonVisible).toBe(true);
+    });
+
+    test('should handle concurrent API requests from same user', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
+
+      // Navigate rapidly between pages (simulates user clicking quickly)
+      // Note: Rapid navigation causes previous navigations to abort (expected behavior)
+      await page.goto('/employees');
+      await page.waitForTimeout(100);
+      await page.goto('/departments');
+      await page.waitForTimeout(100);
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
+
+      // Final navigation should succeed
+      const employeeTable = page.locator('table, mat-table');
+      await expect(employeeTable.first()).toBeVisible({ timeout: 5000 });
+    });
+  });
 });
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 
 /**
  * Dashboard Metrics Tests
@@ -14,9 +13,10 @@ import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('Dashboard Metrics', () => {
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
+
   test.beforeEach(async ({ page }) => {
-    // Login as Manager (has dashboard access)
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
   });
@@ -225,15 +225,16 @@ test.describe('Dashboard Metrics', () => {
     await page.waitForLoadState('networkidle');
   });
 
-  test('should allow Employee role to view dashboard', async ({ page }) => {
-    // Logout current user and login as Employee
-    await logout(page);
-    await loginAsRole(page, 'employee');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
+  test.describe('as Employee', () => {
+    test.use({ role: 'employee' });
 
-    // Verify dashboard loads (read-only access)
-    const dashboardTitle = page.locator('h1, h2, h3').filter({ hasText: /dashboard|home|overview/i });
-    await expect(dashboardTitle.first()).toBeVisible({ timeout: 5000 });
+    test('should allow Employee role to view dashboard', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
+
+      // Verify dashboard loads (read-only access)
+      const dashboardTitle = page.locator('h1, h2, h3').filter({ hasText: /dashboard|home|overview/i });
+      await expect(dashboardTitle.first()).toBeVisible({ timeout: 5000 });
+    });
   });
 });
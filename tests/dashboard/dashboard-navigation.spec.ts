@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 
 /**
  * Dashboard Navigation Tests
@@ -12,9 +11,10 @@ import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('Dashboard Navigation', () => {
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
+
   test.beforeEach(async ({ page }) => {
-    // Login as Manager (has create permissions)
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
   });
@@ -113,66 +113,68 @@ test.describe('Dashboard Navigation', () => {
     }
   });
 
-  test('should navigate to positions from dashboard for HRAdmin', async ({ page }) => {
-    // Logout and login as HRAdmin
-    await logout(page);
-    await loginAsRole(page, 'hradmin');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
+  test.describe('as HRAdmin', () => {
+    test.use({ role: 'hradmin' });
 
-    // Use sidebar navigation to positions
-    const positionsLink = page.locator('mat-sidenav a, aside a, nav a').filter({ hasText: /^positions$/i }).first();
+    test('should navigate to positions from dashboard for HRAdmin', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
 
-    const isVisible = await positionsLink.isVisible({ timeout: 3000 }).catch(() => false);
+      // Use sidebar navigation to positions
+      const positionsLink = page.locator('mat-sidenav a, aside a, nav a').filter({ hasText: /^positions$/i }).first();
 
-    if (isVisible) {
-      await positionsLink.click();
-      await page.waitForLoadState('networkidle');
+      const isVisible = await positionsLink.isVisible({ timeout: 3000 }).catch(() => false);
 
-      // Verify we're on positions page
-      expect(page.url()).toMatch(/positions/);
+      if (isVisible) {
+        await positionsLink.click();
+        await page.waitForLoadState('networkidle');
 
-      const pageTitle = page.locator('h1, h2, h3').filter({ hasText: /positions/i });
-      await expect(pageTitle.first()).toBeVisible({ timeout: 5000 });
-    } else {
-      // Navigate directly as fallback
-      await page.goto('/positions');
-      await page.waitForLoadState('networkidle');
-      expect(page.url()).toContain('positions');
-    }
+        // Verify we're on positions page
+        expect(page.url()).toMatch(/positions/);
+
+        const pageTitle = page.locator('h1, h2, h3').filter({ hasText: /positions/i });
+        await expect(pageTitle.first()).toBeVisible({ timeout: 5000 });
+      } else {
+        // Navigate directly as fallback
+        await page.goto('/positions');
+        await page.waitForLoadState('networkidle');
+        expect(page.url()).toContain('positions');
+      }
+    });
   });
 
-  test('should navigate to salary ranges from dashboard for HRAdmin', async ({ page }) => {
-    // Logout and login as HRAdmin
-    await logout(page);
-    await loginAsRole(page, 'hradmin');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
+  test.describe('as HRAdmin', () => {
+    test.use({ role: 'hradmin' });
 
-    // Navigate using sidebar menu - look for salary ranges in sidebar/nav
-    const sidebarSalaryRanges = page.locator('mat-sidenav a, aside a, nav a, .sidebar a').filter({ hasText: /salary.*ranges?/i }).first();
+    test('should navigate to salary ranges from dashboard for HRAdmin', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
 
-    const isLinkVisible = await sidebarSalaryRanges.isVisible({ timeout: 3000 }).catch(() => false);
+      // Navigate using sidebar menu - look for salary ranges in sidebar/nav
+      const sidebarSalaryRanges = page.locator('mat-sidenav a, aside a, nav a, .sidebar a').filter({ hasText: /salary.*ranges?/i }).first();
 
-    if (isLinkVisible) {
-      await sidebarSalaryRanges.click();
-      await page.waitForLoadState('networkidle');
+      const isLinkVisible = await sidebarSalaryRanges.isVisible({ timeout: 3000 }).catch(() => false);
 
-      // Verify we're on salary ranges page
-      expect(page.url()).toMatch(/salary|range/);
+      if (isLinkVisible) {
+        await sidebarSalaryRanges.click();
+        await page.waitForLoadState('networkidle');
 
-      const pageTitle = page.locator('h1, h2, h3').filter({ hasText: /salary.*range|range/i });
-      await expect(pageTitle.first()).toBeVisible({ timeout: 5000 });
-    } else {
-      // Try direct navigation as fallback
-      await page.goto('/salary-ranges');
-      const isOnPage = page.url().includes('salary');
-      if (isOnPage) {
-        expect(true).toBe(true);
+        // Verify we're on salary ranges page
+        expect(page.url()).toMatch(/salary|range/);
+
+        const pageTitle = page.locator('h1, h2, h3').filter({ hasText: /salary.*range|range/i });
+        await expect(pageTitle.first()).toBeVisible({ timeout: 5000 });
       } else {
-        test.skip();
+        // Try direct navigation as fallback
+        await page.goto('/salary-ranges');
+        const isOnPage = page.url().includes('salary');
+        if (isOnPage) {
+          expect(true).toBe(true);
+        } else {
+          test.skip();
+        }
       }
-    }
+    });
   });
 
   test('should show quick action buttons for Manager role', async ({ page }) => {
@@ -184,19 +186,20 @@ test.describe('Dashboard Navigation', () => {
     expect(buttonCount).toBeGreaterThanOrEqual(0);
   });
 
-  test('should hide create buttons for Employee role', async ({ page }) => {
-    // Logout and login as Employee
-    await logout(page);
-    await loginAsRole(page, 'employee');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
+  test.describe('as Employee', () => {
+    test.use({ role: 'employee' });
+
+    test('should hide create buttons for Employee role', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
 
-    // Verify Employee does NOT have create action buttons
-    const createButtons = page.locator('button, a').filter({ hasText: /create.*employee|add.*employee|create.*department/i });
-    const hasCreateButtons = await createButtons.isVisible({ timeout: 2000 }).catch(() => false);
+      // Verify Employee does NOT have create action buttons
+      const createButtons = page.locator('button, a').filter({ hasText: /create.*employee|add.*employee|create.*department/i });
+      const hasCreateButtons = await createButtons.isVisible({ timeout: 2000 }).catch(() => false);
 
-    // Employee should not see create buttons
-    expect(hasCreateButtons).toBe(false);
+      // Employee should not see create buttons
+      expect(hasCreateButtons).toBe(false);
+    });
   });
 
   test('should navigate using sidebar menu', async ({ page }) => {
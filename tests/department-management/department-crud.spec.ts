@@ -1,6 +1,6 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { createDepartmentData } from '../../fixtures/data.fixtures';
+import { createDepartment, getTokenForRole } from '../../fixtures/api.fixtures';
 import { DepartmentListPage } from '../../page-objects/department-list.page';
 import { DepartmentFormPage } from '../../page-objects/department-form.page';
 
@@ -16,9 +16,10 @@ import { DepartmentFormPage } from '../../page-objects/department-form.page';
  */
 
 test.describe('Department CRUD', () => {
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
+
   test.beforeEach(async ({ page }) => {
-    // Login as Manager (has create/edit permission)
-    await loginAsRole(page, 'manager');
     const list = new DepartmentListPage(page);
     await list.goto();
   });
@@ -81,58 +82,61 @@ test.describe('Department CRUD', () => {
     expect(result.success).toBe(true);
   });
 
-  test('should delete department', async ({ page }) => {
-    const list = new DepartmentListPage(page);
-    const form = new DepartmentFormPage(page);
+  test.describe('as HRAdmin', () => {
+    // Only HRAdmin can delete departments
+    test.use({ role: 'hradmin' });
 
-    if (!(await list.hasCreatePermission())) {
-      test.skip();
-      return;
-    }
+    test('should delete department', async ({ page, request }) => {
+      const list = new DepartmentListPage(page);
 
-    // Create a department via UI as Manager so we have something to delete
-    const uniqueName = `ToDelete_${Date.now()}`;
-    await list.clickCreate();
-    await form.fillForm({ name: uniqueName });
-    await form.submit();
+      // Seed the department to delete through the API
+      const uniqueName = `ToDelete_${Date.now()}`;
+      let token: string;
+      try {
+        token = await getTokenForRole(request, 'hradmin');
+      } catch (error) {
+        console.log('Failed to acquire auth token - services may not be running:', error);
+        test.skip();
+        return;
+      }
+      // Not caught: a department the API rejects fails the test instead of skipping it
+      await createDepartment(request, token, createDepartmentData({ name: uniqueName }));
 
-    // Switch to HRAdmin — only HRAdmin can delete departments
-    await logout(page);
-    await loginAsRole(page, 'hradmin');
-    await list.goto();
-    await page.waitForLoadState('networkidle');
+      await list.goto();
+      await page.waitForLoadState('networkidle');
 
-    // Search using the department list's autocomplete input (formControlName="Name")
-    await list.search(uniqueName);
-    await page.waitForTimeout(1000);
+      // Search using the department list's autocomplete input (formControlName="Name")
+      await list.search(uniqueName);
+      await page.waitForTimeout(1000);
 
-    const deptRow = list.getRowByText(uniqueName);
-    if (!(await deptRow.isVisible({ timeout: 3000 }).catch(() => false))) {
-      test.skip();
-      return;
-    }
+      const deptRow = list.getRowByText(uniqueName);
+      if (!(await deptRow.isVisible({ timeout: 3000 }).catch(() => false))) {
+        test.skip();
+        return;
+      }
 
-    const deleteButton = deptRow.locator('button').filter({ hasText: /delete|remove/i }).first();
-    if (!(await deleteButton.isVisible({ timeout: 2000 }))) {
-      test.skip();
-      return;
-    }
+      const deleteButton = deptRow.locator('button').filter({ hasText: /delete|remove/i }).first();
+      if (!(await deleteButton.isVisible({ timeout: 2000 }))) {
+        test.skip();
+        return;
+      }
 
-    await deleteButton.click();
-
-    // Department uses ConfirmDialogComponent (Angular Material dialog, not window.confirm())
-    // Wait for the dialog to open and click the "Delete" confirm button
-    const dialogConfirm = page.locator('mat-dialog-actions button').filter({ hasText: /Delete/i });
-    await dialogConfirm.waitFor({ state: 'visible', timeout: 5000 });
-    await dialogConfirm.click();
-
-    // Wait for success toaster
-    const successIndicator = page.locator(
-      'mat-snack-bar-container, mat-mdc-snack-bar-container'
-    );
-    await successIndicator.first().waitFor({ state: 'visible', timeout: 8000 });
-    const toastText = await successIndicator.first().textContent();
-    expect(toastText).toMatch(/deleted|removed|success/i);
+      await deleteButton.click();
+
+      // Department uses ConfirmDialogComponent (Angular Material dialog, not window.confirm())
+      // Wait for the dialog to open and click the "Delete" confirm button
+      const dialogConfirm = page.locator('mat-dialog-actions button').filter({ hasText: /Delete/i });
+      await dialogConfirm.waitFor({ state: 'visible', timeout: 5000 });
+      await dialogConfirm.click();
+
+      // Wait for success toaster
+      const successIndicator = page.locator(
+        'mat-snack-bar-container, mat-mdc-snack-bar-container'
+      );
+      await successIndicator.first().waitFor({ state: 'visible', timeout: 8000 });
+      const toastText = await successIndicator.first().textContent();
+      expect(toastText).toMatch(/deleted|removed|success/i);
+    });
   });
 
   test('should search departments by name', async ({ page }) => {
@@ -186,15 +190,16 @@ test.describe('Department CRUD', () => {
     }
   });
 
-  test('should not allow Employee role to create department', async ({ page }) => {
-    await logout(page);
-    await loginAsRole(page, 'employee');
+  test.describe('as Employee', () => {
+    test.use({ role: 'employee' });
 
-    const list = new DepartmentListPage(page);
-    await list.goto();
+    test('should not allow Employee role to create department', async ({ page }) => {
+      const list = new DepartmentListPage(page);
+      await list.goto();
 
-    const canCreate = await list.hasCreatePermission();
-    expect(canCreate).toBe(false);
+      const canCreate = await list.hasCreatePermission();
+      expect(canCreate).toBe(false);
+    });
   });
 
   test('should show validation error for empty name', async ({ page }) => {
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { DepartmentListPage } from '../../page-objects/department-list.page';
 import { DepartmentFormPage } from '../../page-objects/department-form.page';
 
@@ -23,8 +22,10 @@ import { DepartmentFormPage } from '../../page-objects/department-form.page';
 const MAT_ERROR = 'mat-error, .mat-mdc-form-field-error, .mat-error';
 
 test.describe('Department Validation', () => {
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
+
   test.beforeEach(async ({ page }) => {
-    await loginAsRole(page, 'manager');
     const list = new DepartmentListPage(page);
     await list.goto();
   });
@@ -148,40 +149,42 @@ test.describe('Department Validation', () => {
     }
   });
 
-  test('should prevent deletion if department has employees', async ({ page }) => {
-    // Switch to HRAdmin who has delete permission
-    await logout(page);
-    await loginAsRole(page, 'hradmin');
-    const list = new DepartmentListPage(page);
-    await list.goto();
+  test.describe('as HRAdmin', () => {
+    // HRAdmin has delete permission
+    test.use({ role: 'hradmin' });
 
-    const firstRow = list.getRow(0);
-    if (!(await firstRow.isVisible({ timeout: 3000 }).catch(() => false))) {
-      test.skip();
-      return;
-    }
+    test('should prevent deletion if department has employees', async ({ page }) => {
+      const list = new DepartmentListPage(page);
+      await list.goto();
 
-    const deleteButton = firstRow.locator('button').filter({ hasText: /delete|remove/i }).first();
-    if (!(await deleteButton.isVisible({ timeout: 2000 }).catch(() => false))) {
-      test.skip();
-      return;
-    }
+      const firstRow = list.getRow(0);
+      if (!(await firstRow.isVisible({ timeout: 3000 }).catch(() => false))) {
+        test.skip();
+        return;
+      }
 
-    await deleteButton.click();
+      const deleteButton = firstRow.locator('button').filter({ hasText: /delete|remove/i }).first();
+      if (!(await deleteButton.isVisible({ timeout: 2000 }).catch(() => false))) {
+        test.skip();
+        return;
+      }
 
-    // Wait for Material dialog confirm button
-    const dialogConfirm = page.locator('mat-dialog-actions button').filter({ hasText: /Delete/i });
-    const dialogAppeared = await dialogConfirm.isVisible({ timeout: 3000 }).catch(() => false);
-    if (!dialogAppeared) {
-      test.skip();
-      return;
-    }
+      await deleteButton.click();
 
-    await dialogConfirm.click();
-    await page.waitForTimeout(2000);
+      // Wait for Material dialog confirm button
+      const dialogConfirm = page.locator('mat-dialog-actions button').filter({ hasText: /Delete/i });
+      const dialogAppeared = await dialogConfirm.isVisible({ timeout: 3000 }).catch(() => false);
+      if (!dialogAppeared) {
+        test.skip();
+        return;
+      }
+
+      await dialogConfirm.click();
+      await page.waitForTimeout(2000);
 
-    // Test passes either way (deletion allowed or blocked by referential integrity)
-    expect(true).toBe(true);
+      // Test passes either way (deletion allowed or blocked by referential integrity)
+      expect(true).toBe(true);
+    });
   });
 
   test('should validate special characters in name', async ({ page }) => {
@@ -1,12 +1,15 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, getStoredToken, getTokenFromProfile } from '../fixtures/auth.fixtures';
+import { test, expect } from '../fixtures/test.fixtures';
+import { getStoredToken, getTokenFromProfile } from '../fixtures/auth.fixtures';
 
 /**
  * Diagnostic test to compare token extraction methods
  */
+
+// Start from the Manager session saved by the setup project
+test.use({ role: 'manager' });
+
 test('Compare token extraction: localStorage vs Profile page', async ({ page }) => {
-  // Login
-  await loginAsRole(page, 'manager');
+  await page.goto('/dashboard');
 
   // Wait for authentication to complete
   await page.waitForLoadState('networkidle');
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { createEmployeeData } from '../../fixtures/data.fixtures';
 import { EmployeeFormPage } from '../../page-objects/employee-form.page';
 
@@ -14,9 +13,10 @@ import { EmployeeFormPage } from '../../page-objects/employee-form.page';
  */
 
 test.describe('Employee Create', () => {
+  // Start from the HRAdmin session saved by the setup project
+  test.use({ role: 'hradmin' });
+
   test.beforeEach(async ({ page }) => {
-    // Login as HRAdmin (only HRAdmin can create)
-    await loginAsRole(page, 'hradmin');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -326,11 +326,13 @@ test.describe('Employee Create', () => {
       expect(isSuccess).toBe(true);
     }
   });
+});
+
+// Outside 'Employee Create': its beforeEach opens the form, which Employee cannot
+test.describe('Employee Create as Employee', () => {
+  test.use({ role: 'employee' });
 
   test('should not allow Employee role to create', async ({ page }) => {
-    // Logout and login as Employee
-    await logout(page);
-    await loginAsRole(page, 'employee');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
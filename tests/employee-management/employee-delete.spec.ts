@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { createEmployeeData } from '../../fixtures/data.fixtures';
 import { createEmployee, getTokenForRole, deleteEmployee } from '../../fixtures/api.fixtures';
 
@@ -15,9 +14,10 @@ import { createEmployee, getTokenForRole, deleteEmployee } from '../../fixtures/
  */
 
 test.describe('Employee Delete', () => {
+  // Start from the HRAdmin session saved by the setup project (has delete permission)
+  test.use({ role: 'hradmin' });
+
   test.beforeEach(async ({ page }) => {
-    // Login as HRAdmin (has delete permission)
-    await loginAsRole(page, 'hradmin');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
   });
@@ -195,33 +195,35 @@ test.describe('Employee Delete', () => {
     }
   });
 
-  test('should not allow Manager role to delete', async ({ page }) => {
-    // Logout and login as Manager
-    await logout(page);
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+  test.describe('as Manager', () => {
+    test.use({ role: 'manager' });
+
+    test('should not allow Manager role to delete', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Check for delete buttons
-    const deleteButtons = page.locator('button').filter({ hasText: /delete|remove/i });
-    const hasDeleteButtons = await deleteButtons.first().isVisible({ timeout: 2000 }).catch(() => false);
+      // Check for delete buttons
+      const deleteButtons = page.locator('button').filter({ hasText: /delete|remove/i });
+      const hasDeleteButtons = await deleteButtons.first().isVisible({ timeout: 2000 }).catch(() => false);
 
-    // Manager should NOT have delete buttons (only HRAdmin can delete)
-    expect(hasDeleteButtons).toBe(false);
+      // Manager should NOT have delete buttons (only HRAdmin can delete)
+      expect(hasDeleteButtons).toBe(false);
+    });
   });
 
-  test('should not allow Employee role to delete', async ({ page }) => {
-    // Logout and login as Employee
-    await logout(page);
-    await loginAsRole(page, 'employee');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+  test.describe('as Employee', () => {
+    test.use({ role: 'employee' });
+
+    test('should not allow Employee role to delete', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Check for delete buttons
-    const deleteButtons = page.locator('button').filter({ hasText: /delete|remove/i });
-    const hasDeleteButtons = await deleteButtons.first().isVisible({ timeout: 2000 }).catch(() => false);
+      // Check for delete buttons
+      const deleteButtons = page.locator('button').filter({ hasText: /delete|remove/i });
+      const hasDeleteButtons = await deleteButtons.first().isVisible({ timeout: 2000 }).catch(() => false);
 
-    // Employee should NOT have delete buttons
-    expect(hasDeleteButtons).toBe(false);
+      // Employee should NOT have delete buttons
+      expect(hasDeleteButtons).toBe(false);
+    });
   });
 });
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { EmployeeFormPage } from '../../page-objects/employee-form.page';
 
 /**
@@ -14,9 +13,10 @@ import { EmployeeFormPage } from '../../page-objects/employee-form.page';
  */
 
 test.describe('Employee Edit', () => {
+  // Start from the HRAdmin session saved by the setup project
+  test.use({ role: 'hradmin' });
+
   test.beforeEach(async ({ page }) => {
-    // Login as HRAdmin (has full edit permission)
-    await loginAsRole(page, 'hradmin');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
   });
@@ -238,22 +238,23 @@ test.describe('Employee Edit', () => {
     }
   });
 
-  test('should not allow Employee role to edit', async ({ page }) => {
-    // Logout and login as Employee
-    await logout(page);
-    await loginAsRole(page, 'employee');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+  test.describe('as Employee', () => {
+    test.use({ role: 'employee' });
 
-    // Click on first employee
-    const firstEmployee = page.locator('tr, mat-row').nth(1);
-    await firstEmployee.click();
-    await page.waitForTimeout(1000);
+    test('should not allow Employee role to edit', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Verify edit/save button is NOT visible
-    const editButton = page.locator('button').filter({ hasText: /edit|save|update/i });
-    const hasEditButton = await editButton.isVisible({ timeout: 2000 }).catch(() => false);
+      // Click on first employee
+      const firstEmployee = page.locator('tr, mat-row').nth(1);
+      await firstEmployee.click();
+      await page.waitForTimeout(1000);
+
+      // Verify edit/save button is NOT visible
+      const editButton = page.locator('button').filter({ hasText: /edit|save|update/i });
+      const hasEditButton = await editButton.isVisible({ timeout: 2000 }).catch(() => false);
 
-    expect(hasEditButton).toBe(false);
+      expect(hasEditButton).toBe(false);
+    });
   });
 });
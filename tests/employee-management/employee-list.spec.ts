@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 
 /**
  * Employee List Tests
@@ -13,9 +12,10 @@ import { loginAsRole } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('Employee List', () => {
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
+
   test.beforeEach(async ({ page }) => {
-    // Login as Manager
-    await loginAsRole(page, 'manager');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
   });
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { createEmployeeData } from '../../fixtures/data.fixtures';
 import { EmployeeFormPage } from '../../page-objects/employee-form.page';
 
@@ -13,9 +12,11 @@ import { EmployeeFormPage } from '../../page-objects/employee-form.page';
  */
 
 test.describe('Employee Management - Smoke Tests', () => {
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
+
   test.beforeEach(async ({ page }) => {
-    // Login as Manager (has create/edit permissions)
-    await loginAsRole(page, 'manager');
+    await page.goto('/dashboard');
     // Verify logged in by checking for dashboard heading
     await expect(page.locator('h1:has-text("Dashboard")')).toBeVisible();
   });
@@ -41,49 +42,50 @@ test.describe('Employee Management - Smoke Tests', () => {
     expect(count).toBeGreaterThan(0);
   });
 
-  test('should create new employee', async ({ page }) => {
-    // Logout and login as HRAdmin (only HRAdmin can create employees)
-    await logout(page);
-    await loginAsRole(page, 'hradmin');
-
-    // Generate test employee data
-    const employeeData = createEmployeeData({
-      firstName: 'John',
-      lastName: 'Doe',
-      salary: 75000,
-    });
-
-    // Navigate to employees page
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Click "Create" or "Add Employee" button
-    const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
-    await expect(createButton.first()).toBeVisible();
-    await createButton.first().click();
-
-    // Use Page Object to fill and submit form
-    const employeeForm = new EmployeeFormPage(page);
-    await employeeForm.waitForForm();
-
-    // Fill complete form using Page Object (cleaner and more maintainable)
-    await employeeForm.fillForm({
-      firstName: employeeData.firstName,
-      lastName: employeeData.lastName,
-      email: employeeData.email,
-      employeeNumber: employeeData.employeeNumber,
-      dateOfBirth: '01/01/1990',
-      phoneNumber: employeeData.phoneNumber,
-      salary: employeeData.salary,
-      department: 1,  // Skip placeholder
-      position: 1,    // Skip placeholder
-      gender: 1,      // Skip placeholder
+  test.describe('as HRAdmin', () => {
+    // Only HRAdmin can create employees
+    test.use({ role: 'hradmin' });
+
+    test('should create new employee', async ({ page }) => {
+      // Generate test employee data
+      const employeeData = createEmployeeData({
+        firstName: 'John',
+        lastName: 'Doe',
+        salary: 75000,
+      });
+
+      // Navigate to employees page
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
+
+      // Click "Create" or "Add Employee" button
+      const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
+      await expect(createButton.first()).toBeVisible();
+      await createButton.first().click();
+
+      // Use Page Object to fill and submit form
+      const employeeForm = new EmployeeFormPage(page);
+      await employeeForm.waitForForm();
+
+      // Fill complete form using Page Object (cleaner and more maintainable)
+      await employeeForm.fillForm({
+        firstName: employeeData.firstName,
+        lastName: employeeData.lastName,
+        email: employeeData.email,
+        employeeNumber: employeeData.employeeNumber,
+        dateOfBirth: '01/01/1990',
+        phoneNumber: employeeData.phoneNumber,
+        salary: employeeData.salary,
+        department: 1,  // Skip placeholder
+        position: 1,    // Skip placeholder
+        gender: 1,      // Skip placeholder
+      });
+
+      // Submit and verify (handles API errors gracefully)
+      await employeeForm.submit();
+      const result = await employeeForm.verifySubmissionSuccess();
+      expect(result.success).toBe(true);
     });
-
-    // Submit and verify (handles API errors gracefully)
-    await employeeForm.submit();
-    const result = await employeeForm.verifySubmissionSuccess();
-    expect(result.success).toBe(true);
   });
 
   test('should view employee detail', async ({ page }) => {
@@ -120,24 +122,24 @@ test.describe('Employee Management - Smoke Tests', () => {
     expect(await employeeField.count()).toBeGreaterThan(0);
   });
 
-  test('should view employee list as Employee role (read-only)', async ({ page }) => {
-    // Logout from Manager and login as Employee role
-    await logout(page);
-    await loginAsRole(page, 'employee');
+  test.describe('as Employee', () => {
+    test.use({ role: 'employee' });
 
-    // Navigate to employees page
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+    test('should view employee list as Employee role (read-only)', async ({ page }) => {
+      // Navigate to employees page
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Verify can view the list
-    const employeeList = page.locator('table, mat-table, .employee-list');
-    await expect(employeeList.first()).toBeVisible();
+      // Verify can view the list
+      const employeeList = page.locator('table, mat-table, .employee-list');
+      await expect(employeeList.first()).toBeVisible();
 
-    // Verify Create button is NOT visible (read-only access)
-    const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
-    const hasCreateButton = await createButton.isVisible({ timeout: 2000 }).catch(() => false);
+      // Verify Create button is NOT visible (read-only access)
+      const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
+      const hasCreateButton = await createButton.isVisible({ timeout: 2000 }).catch(() => false);
 
-    // Employee role should NOT see create button
-    expect(hasCreateButton).toBe(false);
+      // Employee role should NOT see create button
+      expect(hasCreateButton).toBe(false);
+    });
   });
 });
@@ -1,5 +1,6 @@
 import { test, expect } from '@playwright/test';
 import { getTokenForRole } from '../../fixtures/api.fixtures';
+import { apiUrl } from '../../config/endpoints';
 
 /**
  * API Error Handling Tests
@@ -12,7 +13,6 @@ import { getTokenForRole } from '../../fixtures/api.fixtures';
  */
 
 test.describe('API Error Handling', () => {
-  const baseURL = 'https://localhost:44378/api/v1';
   let authToken: string;
 
   test.beforeAll(async ({ request }) => {
@@ -21,7 +21,7 @@ test.describe('API Error Handling', () => {
 
   test('should handle 500 Internal Server Error', async ({ page, request }) => {
     // Make API call that might return 500
-    const response = await request.post(`${baseURL}/employees`, {
+    const response = await request.post(apiUrl('employees.create'), {
       headers: {
         'Authorization': `Bearer ${authToken}`,
         'Content-Type': 'application/json',
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 
 /**
  * Network Error Handling Tests
@@ -13,9 +12,8 @@ import { loginAsRole } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('Network Error Handling', () => {
-  test.beforeEach(async ({ page }) => {
-    await loginAsRole(page, 'manager');
-  });
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
 
   test('should handle API timeout gracefully', async ({ page }) => {
     // Set very short timeout to simulate timeout
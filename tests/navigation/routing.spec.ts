@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { loginAsRole, logout, isAuthenticated } from '../../fixtures/auth.fixtures';
 
 /**
@@ -26,307 +26,279 @@ test.describe('Navigation & Routing', () => {
     expect(isOnLogin || isGuest).toBe(true);
   });
 
-  test('should allow direct URL access after authentication', async ({ page }) => {
-    // Login first
-    await loginAsRole(page, 'manager');
-
-    // Navigate directly to employees page via URL
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Should be on employees page
-    expect(page.url()).toMatch(/employees/);
-
-    // Verify page content loads
-    const pageTitle = page.locator('h1, h2, h3').filter({ hasText: /employees/i });
-    await expect(pageTitle.first()).toBeVisible({ timeout: 5000 });
-  });
-
-  test('should support browser back button navigation', async ({ page }) => {
-    // Login
+  test('should handle logout and redirect correctly', async ({ page }) => {
+    // A login of its own: logging out ends the IdentityServer session, which
+    // must not be the one the setup project saved for the role
     await loginAsRole(page, 'manager');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
-
-    // Navigate to employees
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
-    // Navigate to departments
-    await page.goto('/departments');
-    await page.waitForLoadState('networkidle');
-
-    // Use browser back button
-    await page.goBack();
-    await page.waitForLoadState('networkidle');
+    // Logout using the proper logout fixture
+    await logout(page);
 
-    // Should be back on employees page
-    expect(page.url()).toMatch(/employees/);
+    // After logout, should be back on Angular app as Guest/Anonymous
+    expect(page.url()).toMatch(/localhost:4200/);
 
-    // Go back again
-    await page.goBack();
-    await page.waitForLoadState('networkidle');
+    // Verify user is no longer authenticated
+    const authenticated = await isAuthenticated(page);
+    expect(authenticated).toBe(false);
 
-    // Should be on dashboard
-    expect(page.url()).toMatch(/dashboard|home|\//);
+    // Should see Guest heading
+    await expect(page.locator('h4:has-text("Guest")')).toBeVisible();
   });
 
-  test('should support browser forward button navigation', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
+  test.describe('as Manager', () => {
+    test.use({ role: 'manager' });
 
-    // Navigate to employees
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+    test('should allow direct URL access after authentication', async ({ page }) => {
+      // Navigate directly to employees page via URL
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Go back
-    await page.goBack();
-    await page.waitForLoadState('networkidle');
+      // Should be on employees page
+      expect(page.url()).toMatch(/employees/);
 
-    // Use forward button
-    await page.goForward();
-    await page.waitForLoadState('networkidle');
+      // Verify page content loads
+      const pageTitle = page.locator('h1, h2, h3').filter({ hasText: /employees/i });
+      await expect(pageTitle.first()).toBeVisible({ timeout: 5000 });
+    });
 
-    // Should be back on employees
-    expect(page.url()).toMatch(/employees/);
-  });
+    test('should support browser back button navigation', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
 
-  test('should support breadcrumb navigation', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+      // Navigate to employees
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Look for breadcrumb navigation
-    const breadcrumb = page.locator('nav[aria-label*="breadcrumb"], .breadcrumb, mat-breadcrumb');
+      // Navigate to departments
+      await page.goto('/departments');
+      await page.waitForLoadState('networkidle');
 
-    if (await breadcrumb.isVisible({ timeout: 3000 })) {
-      // Find home/dashboard link in breadcrumb
-      const homeLink = breadcrumb.locator('a').filter({ hasText: /home|dashboard/i });
+      // Use browser back button
+      await page.goBack();
+      await page.waitForLoadState('networkidle');
 
-      if (await homeLink.isVisible({ timeout: 2000 })) {
-        await homeLink.click();
-        await page.waitForLoadState('networkidle');
+      // Should be back on employees page
+      expect(page.url()).toMatch(/employees/);
 
-        // Should navigate to dashboard
-        expect(page.url()).toMatch(/dashboard|home|\//);
-      }
-    } else {
-      test.skip();
-    }
-  });
+      // Go back again
+      await page.goBack();
+      await page.waitForLoadState('networkidle');
 
-  test('should support deep linking to specific resources', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
+      // Should be on dashboard
+      expect(page.url()).toMatch(/dashboard|home|\//);
+    });
 
-    // Navigate directly to specific employee detail page
-    await page.goto('/employees/1');
-    await page.waitForLoadState('networkidle');
+    test('should support browser forward button navigation', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
 
-    // Should either show employee detail or list (if detail route not implemented)
-    const isDetailPage = page.url().includes('employees/1') || page.url().includes('employee/1');
-    const isListPage = page.url().match(/^.*\/employees\/?$/);
+      // Navigate to employees
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    expect(isDetailPage || isListPage).toBeTruthy();
-  });
+      // Go back
+      await page.goBack();
+      await page.waitForLoadState('networkidle');
 
-  test('should enforce read-only access for Employee role', async ({ page }) => {
-    // Login as Employee (read-only permissions)
-    await loginAsRole(page, 'employee');
+      // Use forward button
+      await page.goForward();
+      await page.waitForLoadState('networkidle');
 
-    // Employee CAN view positions (read-only access)
-    await page.goto('/positions');
-    await page.waitForLoadState('networkidle');
+      // Should be back on employees
+      expect(page.url()).toMatch(/employees/);
+    });
 
-    // Should be able to view the positions page
-    const positionsHeading = page.locator('h1, h2, h3').filter({ hasText: /positions/i });
-    await expect(positionsHeading.first()).toBeVisible();
+    test('should support breadcrumb navigation', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // But should NOT have create button (read-only)
-    // Try to access create route directly
-    await page.goto('/positions/create');
-    await page.waitForLoadState('networkidle');
+      // Look for breadcrumb navigation
+      const breadcrumb = page.locator('nav[aria-label*="breadcrumb"], .breadcrumb, mat-breadcrumb');
 
-    // Should be denied, redirected, or button doesn't work
-    const isOnCreatePage = page.url().includes('/positions/create') || page.url().includes('/positions/new');
-    const isForbidden = page.url().includes('403') || page.url().includes('forbidden');
-    const accessDenied = await page.locator('text=/access.*denied|forbidden|unauthorized/i').isVisible({ timeout: 2000 }).catch(() => false);
-
-    // If still on create page, verify form submission fails or button is disabled
-    if (isOnCreatePage) {
-      const createButton = page.locator('button[type="submit"], button').filter({ hasText: /create|save|submit/i }).first();
-      const isDisabled = await createButton.isDisabled().catch(() => true);
-
-      console.log('Employee on create page - button disabled:', isDisabled);
-      expect(isDisabled || isForbidden || accessDenied).toBe(true);
-    } else {
-      // Redirected away from create page (expected)
-      console.log('Employee redirected from create page');
-      expect(isForbidden || !isOnCreatePage || accessDenied).toBe(true);
-    }
-  });
+      if (await breadcrumb.isVisible({ timeout: 3000 })) {
+        // Find home/dashboard link in breadcrumb
+        const homeLink = breadcrumb.locator('a').filter({ hasText: /home|dashboard/i });
 
-  test('should preserve query parameters during navigation', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
+        if (await homeLink.isVisible({ timeout: 2000 })) {
+          await homeLink.click();
+          await page.waitForLoadState('networkidle');
 
-    // Navigate with query parameters
-    await page.goto('/employees?page=2&search=test');
-    await page.waitForLoadState('networkidle');
-
-    // Verify query parameters are preserved
-    const url = new URL(page.url());
+          // Should navigate to dashboard
+          expect(page.url()).toMatch(/dashboard|home|\//);
+        }
+      } else {
+        test.skip();
+      }
+    });
 
-    if (url.searchParams.size > 0) {
-      // Query parameters might be preserved
-      expect(url.searchParams.has('page') || url.searchParams.has('search') || true).toBe(true);
-    }
-  });
+    test('should support deep linking to specific resources', async ({ page }) => {
+      // Navigate directly to specific employee detail page
+      await page.goto('/employees/1');
+      await page.waitForLoadState('networkidle');
 
-  test('should handle invalid routes gracefully', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
+      // Should either show employee detail or list (if detail route not implemented)
+      const isDetailPage = page.url().includes('employees/1') || page.url().includes('employee/1');
+      const isListPage = page.url().match(/^.*\/employees\/?$/);
 
-    // Navigate to non-existent route
-    await page.goto('/this-route-does-not-exist-12345');
-    await page.waitForLoadState('networkidle');
+      expect(isDetailPage || isListPage).toBeTruthy();
+    });
 
-    // Should show 404 page or redirect to home
-    const is404 = page.url().includes('404') || page.url().includes('not-found');
-    const isHome = page.url().match(/dashboard|home|\/$/) !== null;
-    const hasErrorMessage = await page.locator('text=/404|not.*found|page.*not.*exist/i').isVisible({ timeout: 2000 }).catch(() => false);
+    test('should preserve query parameters during navigation', async ({ page }) => {
+      // Navigate with query parameters
+      await page.goto('/employees?page=2&search=test');
+      await page.waitForLoadState('networkidle');
 
-    expect(is404 || isHome || hasErrorMessage).toBe(true);
-  });
+      // Verify query parameters are preserved
+      const url = new URL(page.url());
 
-  test('should maintain scroll position on back navigation', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+      if (url.searchParams.size > 0) {
+        // Query parameters might be preserved
+        expect(url.searchParams.has('page') || url.searchParams.has('search') || true).toBe(true);
+      }
+    });
 
-    // Scroll down the page
-    await page.evaluate(() => window.scrollTo(0, 500));
-    await page.waitForTimeout(500);
+    test('should handle invalid routes gracefully', async ({ page }) => {
+      // Navigate to non-existent route
+      await page.goto('/this-route-does-not-exist-12345');
+      await page.waitForLoadState('networkidle');
 
-    // Get scroll position
-    const scrollY1 = await page.evaluate(() => window.scrollY);
+      // Should show 404 page or redirect to home
+      const is404 = page.url().includes('404') || page.url().includes('not-found');
+      const isHome = page.url().match(/dashboard|home|\/$/) !== null;
+      const hasErrorMessage = await page.locator('text=/404|not.*found|page.*not.*exist/i').isVisible({ timeout: 2000 }).catch(() => false);
 
-    // Navigate to another page
-    await page.goto('/departments');
-    await page.waitForLoadState('networkidle');
+      expect(is404 || isHome || hasErrorMessage).toBe(true);
+    });
 
-    // Go back
-    await page.goBack();
-    await page.waitForLoadState('networkidle');
+    test('should maintain scroll position on back navigation', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Scroll position might or might not be restored (browser-dependent)
-    const scrollY2 = await page.evaluate(() => window.scrollY);
+      // Scroll down the page
+      await page.evaluate(() => window.scrollTo(0, 500));
+      await page.waitForTimeout(500);
 
-    // Either restored or reset to top (both are valid)
-    expect(scrollY2 >= 0).toBe(true);
-  });
+      // Get scroll position
+      const scrollY1 = await page.evaluate(() => window.scrollY);
 
-  test('should navigate using route links', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
-
-    // Find and click employees link
-    const employeesLink = page.locator('a[href*="employees"], a[routerLink*="employees"]').first();
+      // Navigate to another page
+      await page.goto('/departments');
+      await page.waitForLoadState('networkidle');
 
-    if (await employeesLink.isVisible({ timeout: 3000 })) {
-      await employeesLink.click();
+      // Go back
+      await page.goBack();
       await page.waitForLoadState('networkidle');
 
-      // Should navigate to employees
-      expect(page.url()).toMatch(/employees/);
-    }
-  });
+      // Scroll position might or might not be restored (browser-dependent)
+      const scrollY2 = await page.evaluate(() => window.scrollY);
 
-  test('should handle route parameters correctly', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
+      // Either restored or reset to top (both are valid)
+      expect(scrollY2 >= 0).toBe(true);
+    });
 
-    // Navigate to route with parameter
-    await page.goto('/employees/123');
-    await page.waitForLoadState('networkidle');
+    test('should navigate using route links', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
 
-    // Route should handle parameter (show detail, redirect, or 404)
-    const url = page.url();
+      // Find and click employees link
+      const employeesLink = page.locator('a[href*="employees"], a[routerLink*="employees"]').first();
 
-    // Valid responses: detail page, list page, or 404
-    const isValidResponse = url.includes('employees') || url.includes('404');
+      if (await employeesLink.isVisible({ timeout: 3000 })) {
+        await employeesLink.click();
+        await page.waitForLoadState('networkidle');
 
-    expect(isValidResponse).toBe(true);
-  });
+        // Should navigate to employees
+        expect(page.url()).toMatch(/employees/);
+      }
+    });
 
-  test('should support hash-based routing if implemented', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
+    test('should handle route parameters correctly', async ({ page }) => {
+      // Navigate to route with parameter
+      await page.goto('/employees/123');
+      await page.waitForLoadState('networkidle');
 
-    // Try navigating with hash
-    await page.goto('/#/employees');
-    await page.waitForLoadState('networkidle');
+      // Route should handle parameter (show detail, redirect, or 404)
+      const url = page.url();
 
-    // Application might use hash routing or path routing
-    const url = page.url();
+      // Valid responses: detail page, list page, or 404
+      const isValidResponse = url.includes('employees') || url.includes('404');
 
-    // Either hash routing works or redirects to path-based
-    expect(url).toBeTruthy();
-  });
+      expect(isValidResponse).toBe(true);
+    });
 
-  test('should redirect from root to default route', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
+    test('should support hash-based routing if implemented', async ({ page }) => {
+      // Try navigating with hash
+      await page.goto('/#/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Navigate to root
-    await page.goto('/');
-    await page.waitForLoadState('networkidle');
+      // Application might use hash routing or path routing
+      const url = page.url();
 
-    // Should redirect to dashboard or home
-    const url = page.url();
-    const isDefaultRoute = url.includes('dashboard') || url.includes('home') || url.match(/\/$/) !== null;
+      // Either hash routing works or redirects to path-based
+      expect(url).toBeTruthy();
+    });
 
-    expect(isDefaultRoute).toBe(true);
-  });
+    test('should redirect from root to default route', async ({ page }) => {
+      // Navigate to root
+      await page.goto('/');
+      await page.waitForLoadState('networkidle');
 
-  test('should prevent navigation to unauthorized routes via direct URL', async ({ page }) => {
-    // Login as Manager
-    await loginAsRole(page, 'manager');
+      // Should redirect to dashboard or home
+      const url = page.url();
+      const isDefaultRoute = url.includes('dashboard') || url.includes('home') || url.match(/\/$/) !== null;
 
-    // Try to directly access HRAdmin route
-    await page.goto('/positions/create');
-    await page.waitForLoadState('networkidle');
+      expect(isDefaultRoute).toBe(true);
+    });
 
-    // Should block access
-    const isBlocked = !page.url().includes('positions/create');
-    const accessDenied = await page.locator('text=/access.*denied|forbidden|unauthorized/i').isVisible({ timeout: 2000 }).catch(() => false);
+    test('should prevent navigation to unauthorized routes via direct URL', async ({ page }) => {
+      // Try to directly access HRAdmin route
+      await page.goto('/positions/create');
+      await page.waitForLoadState('networkidle');
 
-    expect(isBlocked || accessDenied).toBe(true);
+      // Should block access
+      const isBlocked = !page.url().includes('positions/create');
+      const accessDenied = await page.locator('text=/access.*denied|forbidden|unauthorized/i').isVisible({ timeout: 2000 }).catch(() => false);
+
+      expect(isBlocked || accessDenied).toBe(true);
+    });
   });
 
-  test('should handle logout and redirect correctly', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+  test.describe('as Employee', () => {
+    test.use({ role: 'employee' });
 
-    // Logout using the proper logout fixture
-    await logout(page);
+    test('should enforce read-only access for Employee role', async ({ page }) => {
+      // Employee CAN view positions (read-only access)
+      await page.goto('/positions');
+      await page.waitForLoadState('networkidle');
 
-    // After logout, should be back on Angular app as Guest/Anonymous
-    expect(page.url()).toMatch(/localhost:4200/);
+      // Should be able to view the positions page
+      const positionsHeading = page.locator('h1, h2, h3').filter({ hasText: /positions/i });
+      await expect(positionsHeading.first()).toBeVisible();
 
-    // Verify user is no longer authenticated
-    const authenticated = await isAuthenticated(page);
-    expect(authenticated).toBe(false);
+      // But should NOT have create button (read-only)
+      // Try to access create route directly
+      await page.goto('/positions/create');
+      await page.waitForLoadState('networkidle');
 
-    // Should see Guest heading
-    await expect(page.locator('h4:has-text("Guest")')).toBeVisible();
+      // Should be denied, redirected, or button doesn't work
+      const isOnCreatePage = page.url().includes('/positions/create') || page.url().includes('/positions/new');
+      const isForbidden = page.url().includes('403') || page.url().includes('forbidden');
+      const accessDenied = await page.locator('text=/access.*denied|forbidden|unauthorized/i').isVisible({ timeout: 2000 }).catch(() => false);
+
+      // If still on create page, verify form submission fails or button is disabled
+      if (isOnCreatePage) {
+        const createButton = page.locator('button[type="submit"], button').filter({ hasText: /create|save|submit/i }).first();
+        const isDisabled = await createButton.isDisabled().catch(() => true);
+
+        console.log('Employee on create page - button disabled:', isDisabled);
+        expect(isDisabled || isForbidden || accessDenied).toBe(true);
+      } else {
+        // Redirected away from create page (expected)
+        console.log('Employee redirected from create page');
+        expect(isForbidden || !isOnCreatePage || accessDenied).toBe(true);
+      }
+    });
   });
 });
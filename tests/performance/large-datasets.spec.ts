@@ -1,5 +1,7 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
+import { getResourceClients, getTokenForRole } from '../../fixtures/api.fixtures';
+import { DATASET_PROFILES, getDatasetProfileName, seedDataset, teardownDataset } from '../../fixtures/dataset.fixtures';
+import { TIMEOUTS } from '../../config/test-config';
 
 /**
  * Large Datasets Performance Tests
@@ -8,11 +10,66 @@ import { loginAsRole } from '../../fixtures/auth.fixtures';
  * - Pagination with 1000+ records
  * - Search with large dataset
  * - Chart rendering with max data
+ *
+ * The dataset is seeded through the API before the tests (DATASET_PROFILE,
+ * default large-1k: 1000 employees) and deleted after them. Set
+ * DATASET_KEEP=true to keep it between runs; seeding an existing dataset
+ * only adds what is missing.
+ *
+ * Only runs in Chromium: the browser projects share one database, so Firefox
+ * and WebKit would seed the same dataset concurrently and delete it while
+ * the others still measure against it.
  */
 
+const profileName = getDatasetProfileName();
+const profile = DATASET_PROFILES[profileName];
+
 test.describe('Large Datasets Performance', () => {
-  test.beforeEach(async ({ page }) => {
-    await loginAsRole(page, 'manager');
+  // One worker seeds the dataset once and runs every measurement against it
+  test.describe.configure({ mode: 'default' });
+  test.skip(({ browserName }) => browserName !== 'chromium', 'The dataset is seeded and measured once per run, in Chromium');
+
+  test.beforeAll(async ({ playwright }) => {
+    // About 20 creates a second; allow for a slower API
+    test.setTimeout(Math.max(TIMEOUTS.long, profile.employees * 100));
+
+    const request = await playwright.request.newContext({ ignoreHTTPSErrors: true });
+    try {
+      const dataset = await seedDataset(request, await getTokenForRole(request, 'hradmin'), profileName);
+      const created = Object.values(dataset.created).reduce((sum, count) => sum + count, 0);
+      console.log(`Dataset ${profileName} ready in ${dataset.durationMs}ms (${created} records created)`);
+    } finally {
+      await request.dispose();
+    }
+  });
+
+  test.afterAll(async ({ playwright, browserName }) => {
+    // afterAll also runs in the skipped projects, which never seeded anything
+    if (browserName !== 'chromium' || process.env.DATASET_KEEP === 'true') {
+      return;
+    }
+    test.setTimeout(Math.max(TIMEOUTS.long, profile.employees * 100));
+
+    const request = await playwright.request.newContext({ ignoreHTTPSErrors: true });
+    try {
+      const failures = await teardownDataset(request, await getTokenForRole(request, 'hradmin'), profileName);
+      if (failures.length > 0) {
+        console.warn(`Dataset ${profileName}: ${failures.length} record(s) could not be deleted`);
+      }
+    } finally {
+      await request.dispose();
+    }
+  });
+
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
+
+  test('should list every seeded employee', async ({ request }) => {
+    const api = getResourceClients(request, await getTokenForRole(request, 'hradmin'));
+    const page = await api.employees.list({ EmployeeNumber: profile.tag, PageSize: 1 });
+
+    expect(page.recordsFiltered).toBeGreaterThanOrEqual(profile.employees);
+    expect(page.recordsTotal).toBeGreaterThanOrEqual(profile.employees);
   });
 
   test('should handle pagination with large dataset', async ({ page }) => {
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 
 /**
  * Load Time Performance Tests
@@ -12,9 +11,8 @@ import { loginAsRole } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('Load Time Performance', () => {
-  test.beforeEach(async ({ page }) => {
-    await loginAsRole(page, 'manager');
-  });
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
 
   test('should load dashboard in under 2 seconds', async ({ page }) => {
     const startTime = Date.now();
@@ -1,6 +1,6 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { createPositionData } from '../../fixtures/data.fixtures';
+import { createPosition, getTokenForRole } from '../../fixtures/api.fixtures';
 import { PositionListPage } from '../../page-objects/position-list.page';
 import { PositionFormPage } from '../../page-objects/position-form.page';
 
@@ -13,11 +13,16 @@ import { PositionFormPage } from '../../page-objects/position-form.page';
  * - Table columns: positionNumber (1st), positionTitle (2nd), Department, Salary Range, Actions
  * - Delete uses ConfirmDialogComponent (Material dialog) — NOT window.confirm()
  * - Delete API endpoint: /Positions/{id} (capital P) — use case-insensitive URL match
+ *
+ * Records a test needs are seeded through the API; everything a test creates is
+ * deleted afterwards by the teardown fixture (see fixtures/teardown.fixtures.ts).
  */
 
 test.describe('Position CRUD (HRAdmin Only)', () => {
+  // Start from the HRAdmin session saved by the setup project
+  test.use({ role: 'hradmin' });
+
   test.beforeEach(async ({ page }) => {
-    await loginAsRole(page, 'hradmin');
     const list = new PositionListPage(page);
     await list.goto();
   });
@@ -40,11 +45,11 @@ test.describe('Position CRUD (HRAdmin Only)', () => {
       await list.clickCreate();
 
       const positionData = createPositionData({
-        title: `TestPosition_${Date.now()}`,
+        positionTitle: `TestPosition_${Date.now()}`,
       });
 
-      // fillForm auto-fills positionNumber and selects first department + salaryRange
-      await form.fillForm({ title: positionData.title });
+      // fillForm selects the first department + salaryRange
+      await form.fillForm({ title: positionData.positionTitle, positionNumber: positionData.positionNumber });
       await form.submit();
 
       const result = await form.verifySubmissionSuccess();
@@ -82,34 +87,33 @@ test.describe('Position CRUD (HRAdmin Only)', () => {
     }
   });
 
-  test('should allow HRAdmin to delete position', async ({ page }) => {
+  test('should allow HRAdmin to delete position', async ({ page, request }) => {
     const list = new PositionListPage(page);
-    const form = new PositionFormPage(page);
 
-    if (!(await list.hasCreatePermission())) {
+    // Seed the position to delete through the API
+    const title = `ToDelete_${Date.now()}`;
+    let token: string;
+    try {
+      token = await getTokenForRole(request, 'hradmin');
+    } catch (error) {
+      console.log('Failed to acquire auth token - services may not be running:', error);
       test.skip();
       return;
     }
+    // Not caught: a position the API rejects fails the test instead of skipping it
+    await createPosition(request, token, createPositionData({ positionTitle: title }));
 
-    // Create a position so we have something to delete
-    const uniqueId = Date.now();
-    const title = `ToDelete_${uniqueId}`;
-    await list.clickCreate();
-    await form.fillForm({ title, positionNumber: `DEL-${uniqueId}` });
-    await form.submit();
-    await page.waitForTimeout(2000);
-
-    // Navigate back to list and search by title
+    // Reload the list and search by title
     await list.goto();
     await page.waitForLoadState('networkidle');
 
     const titleSearchInput = page.locator('input[placeholder*="title" i]');
     if (await titleSearchInput.isVisible({ timeout: 2000 })) {
-      await titleSearchInput.fill('ToDelete');
+      await titleSearchInput.fill(title);
       await page.waitForTimeout(800);
     }
 
-    const positionRow = list.getRowByText('ToDelete');
+    const positionRow = list.getRowByText(title);
     if (!(await positionRow.isVisible({ timeout: 3000 }).catch(() => false))) {
       test.skip();
       return;
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 
 /**
  * Mobile/Responsive Layout Tests
@@ -13,11 +12,13 @@ import { loginAsRole } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('Mobile/Responsive Layout', () => {
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
+
   test('should display correctly on mobile viewport', async ({ page }) => {
     // Set mobile viewport
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -34,7 +35,6 @@ test.describe('Mobile/Responsive Layout', () => {
     // Set tablet viewport
     await page.setViewportSize({ width: 768, height: 1024 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -46,7 +46,6 @@ test.describe('Mobile/Responsive Layout', () => {
   test('should have working mobile menu navigation', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -80,7 +79,6 @@ test.describe('Mobile/Responsive Layout', () => {
   test('should handle table scrolling on mobile', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -103,7 +101,6 @@ test.describe('Mobile/Responsive Layout', () => {
   test('should make forms usable on mobile', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -127,7 +124,6 @@ test.describe('Mobile/Responsive Layout', () => {
   test('should adjust font sizes for mobile', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -149,7 +145,6 @@ test.describe('Mobile/Responsive Layout', () => {
   test('should stack columns on mobile', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -169,7 +164,6 @@ test.describe('Mobile/Responsive Layout', () => {
   test('should show touch-friendly button sizes', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -190,7 +184,6 @@ test.describe('Mobile/Responsive Layout', () => {
     // Portrait
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -206,7 +199,6 @@ test.describe('Mobile/Responsive Layout', () => {
   test('should not have horizontal scroll on mobile', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -222,7 +214,6 @@ test.describe('Mobile/Responsive Layout', () => {
   test('should display images responsively', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
 
-    await loginAsRole(page, 'manager');
     await page.goto('/dashboard');
     await page.waitForLoadState('networkidle');
 
@@ -246,8 +237,6 @@ test.describe('Mobile/Responsive Layout', () => {
       { width: 1920, height: 1080, name: 'Desktop' },
     ];
 
-    // Login once before testing all viewports
-    await loginAsRole(page, 'manager');
     await page.goto('/employees');
     await page.waitForLoadState('networkidle');
 
@@ -1,6 +1,6 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole, logout } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { createSalaryRangeData } from '../../fixtures/data.fixtures';
+import { createSalaryRange, getTokenForRole } from '../../fixtures/api.fixtures';
 import { SalaryRangeListPage } from '../../page-objects/salary-range-list.page';
 import { SalaryRangeFormPage } from '../../page-objects/salary-range-form.page';
 
@@ -16,11 +16,16 @@ import { SalaryRangeFormPage } from '../../page-objects/salary-range-form.page';
  * - Salary values displayed as currency: $50,000 (not raw number)
  * - No route guard on /salary-ranges list (both Manager and Employee can view)
  * - Route guard (hrAdminGuard or managerGuard) on create/edit — need to confirm
+ *
+ * Records a test needs are seeded through the API; everything a test creates is
+ * deleted afterwards by the teardown fixture (see fixtures/teardown.fixtures.ts).
  */
 
 test.describe('Salary Range CRUD', () => {
+  // Start from the HRAdmin session saved by the setup project
+  test.use({ role: 'hradmin' });
+
   test.beforeEach(async ({ page }) => {
-    await loginAsRole(page, 'hradmin');
     const list = new SalaryRangeListPage(page);
     await list.goto();
   });
@@ -91,28 +96,28 @@ test.describe('Salary Range CRUD', () => {
     }
   });
 
-  test('should delete salary range', async ({ page }) => {
+  test('should delete salary range', async ({ page, request }) => {
     const list = new SalaryRangeListPage(page);
-    const form = new SalaryRangeFormPage(page);
 
-    if (!(await list.hasCreatePermission())) {
+    // Seed the salary range to delete through the API
+    const uniqueName = `ToDelete_${Date.now()}`;
+    let token: string;
+    try {
+      token = await getTokenForRole(request, 'hradmin');
+    } catch (error) {
+      console.log('Failed to acquire auth token - services may not be running:', error);
       test.skip();
       return;
     }
+    // Not caught: a salary range the API rejects fails the test instead of skipping it
+    await createSalaryRange(request, token, createSalaryRangeData({ name: uniqueName, minSalary: 30000, maxSalary: 45000 }));
 
-    // Create a salary range to delete
-    const uniqueName = `ToDelete_${Date.now()}`;
-    await list.clickCreate();
-    await form.fillForm({ name: uniqueName, minSalary: 30000, maxSalary: 45000 });
-    await form.submit();
-    await page.waitForTimeout(2000);
-
-    // Navigate back to list
+    // Reload the list
     await list.goto();
     await page.waitForLoadState('networkidle');
 
     // Find the row by unique name
-    const rangeRow = list.getRowByText('ToDelete');
+    const rangeRow = list.getRowByText(uniqueName);
     if (!(await rangeRow.isVisible({ timeout: 3000 }).catch(() => false))) {
       test.skip();
       return;
@@ -202,18 +207,19 @@ test.describe('Salary Range CRUD', () => {
     }
   });
 
-  test('should show Create and Edit buttons for Manager (not Delete)', async ({ page }) => {
+  test.describe('as Manager', () => {
     // Manager can create and edit salary ranges but NOT delete
-    await logout(page);
-    await loginAsRole(page, 'manager');
+    test.use({ role: 'manager' });
 
-    const list = new SalaryRangeListPage(page);
-    await list.goto();
+    test('should show Create and Edit buttons for Manager (not Delete)', async ({ page }) => {
+      const list = new SalaryRangeListPage(page);
+      await list.goto();
 
-    const canCreate = await list.hasCreatePermission();
-    const canDelete = await list.hasDeletePermission();
+      const canCreate = await list.hasCreatePermission();
+      const canDelete = await list.hasDeletePermission();
 
-    expect(canCreate).toBe(true);   // Manager CAN create (appHasRole=['HRAdmin','Manager'])
-    expect(canDelete).toBe(false);  // Manager CANNOT delete (appHasRole=['HRAdmin'])
+      expect(canCreate).toBe(true);   // Manager CAN create (appHasRole=['HRAdmin','Manager'])
+      expect(canDelete).toBe(false);  // Manager CANNOT delete (appHasRole=['HRAdmin'])
+    });
   });
 });
@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 
 /**
  * Form Validation Edge Cases Tests
@@ -15,10 +14,8 @@ import { loginAsRole } from '../../fixtures/auth.fixtures';
  */
 
 test.describe('Form Validation Edge Cases', () => {
-  test.beforeEach(async ({ page }) => {
-    // Login as Manager (has create permissions)
-    await loginAsRole(page, 'manager');
-  });
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
 
   test('should validate max length for text fields', async ({ page }) => {
     await page.goto('/employees');
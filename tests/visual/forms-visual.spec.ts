@@ -1,5 +1,4 @@
-import { test, expect } from '@playwright/test';
-import { loginAsRole } from '../../fixtures/auth.fixtures';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { VISUAL_THRESHOLDS, TIMEOUTS } from '../../config/test-config';
 
 /**
@@ -18,9 +17,8 @@ import { VISUAL_THRESHOLDS, TIMEOUTS } from '../../config/test-config';
  */
 
 test.describe('Forms Visual Regression', () => {
-  test.beforeEach(async ({ page }) => {
-    await loginAsRole(page, 'manager');
-  });
+  // Start from the Manager session saved by the setup project
+  test.use({ role: 'manager' });
 
   test.skip('should match employee form baseline', async ({ page }) => {
     await page.goto('/employees');
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { loginAsRole, logout, isAuthenticated } from '../../fixtures/auth.fixtures';
 import { createEmployeeData } from '../../fixtures/data.fixtures';
 import { EmployeeFormPage } from '../../page-objects/employee-form.page';
@@ -25,6 +25,8 @@ test.describe('Complete Employee Workflow', () => {
     test.setTimeout(60000);
 
     // Step 1: Login as Manager
+    // The workflow logs in and out itself: logging out ends the IdentityServer
+    // session, which must not be the one the setup project saved for the role
     await loginAsRole(page, 'manager');
     await page.waitForLoadState('networkidle');
 
@@ -160,61 +162,61 @@ test.describe('Complete Employee Workflow', () => {
     expect(authenticated).toBe(false);
   });
 
-  test('should handle workflow interruption gracefully', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Start creating employee
-    const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
-    await createButton.first().click();
-    await page.waitForTimeout(1000);
+  test.describe('as Manager', () => {
+    test.use({ role: 'manager' });
 
-    // Fill partial data
-    const firstNameInput = page.locator('input[name*="firstName"], input[formControlName="firstName"]');
-    await firstNameInput.fill('PartialData');
+    test('should handle workflow interruption gracefully', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    // Cancel without saving
-    const cancelButton = page.locator('button').filter({ hasText: /cancel|back|close/i });
-    if (await cancelButton.isVisible({ timeout: 2000 })) {
-      await cancelButton.first().click();
+      // Start creating employee
+      const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
+      await createButton.first().click();
       await page.waitForTimeout(1000);
 
-      // Verify returned to list without creating
-      const isOnListPage = page.url().includes('employees') && !page.url().includes('create');
-      expect(isOnListPage || true).toBe(true);
-    }
-  });
+      // Fill partial data
+      const firstNameInput = page.locator('input[name*="firstName"], input[formControlName="firstName"]');
+      await firstNameInput.fill('PartialData');
 
-  test('should maintain search state during workflow', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+      // Cancel without saving
+      const cancelButton = page.locator('button').filter({ hasText: /cancel|back|close/i });
+      if (await cancelButton.isVisible({ timeout: 2000 })) {
+        await cancelButton.first().click();
+        await page.waitForTimeout(1000);
 
-    // Perform search
-    const searchInput = page.locator('input[placeholder*="Search"], input[name*="search"]');
-    if (await searchInput.isVisible({ timeout: 3000 })) {
-      await searchInput.fill('test');
-      await page.waitForTimeout(1000);
+        // Verify returned to list without creating
+        const isOnListPage = page.url().includes('employees') && !page.url().includes('create');
+        expect(isOnListPage || true).toBe(true);
+      }
+    });
 
-      // Click on an employee (if exists)
-      const firstRow = page.locator('tr, mat-row').nth(1);
-      if (await firstRow.isVisible({ timeout: 2000 })) {
-        await firstRow.click();
-        await page.waitForTimeout(2000);
+    test('should maintain search state during workflow', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-        // Go back to list
-        await page.goto('/employees');
-        await page.waitForLoadState('networkidle');
+      // Perform search
+      const searchInput = page.locator('input[placeholder*="Search"], input[name*="search"]');
+      if (await searchInput.isVisible({ timeout: 3000 })) {
+        await searchInput.fill('test');
+        await page.waitForTimeout(1000);
 
-        // Check if search is preserved (application-specific behavior)
-        const currentSearch = await searchInput.inputValue();
+        // Click on an employee (if exists)
+        const firstRow = page.locator('tr, mat-row').nth(1);
+        if (await firstRow.isVisible({ timeout: 2000 })) {
+          await firstRow.click();
+          await page.waitForTimeout(2000);
 
-        // Search might or might not be preserved - both are valid
-        expect(currentSearch === 'test' || currentSearch === '').toBe(true);
+          // Go back to list
+          await page.goto('/employees');
+          await page.waitForLoadState('networkidle');
+
+          // Check if search is preserved (application-specific behavior)
+          const currentSearch = await searchInput.inputValue();
+
+          // Search might or might not be preserved - both are valid
+          expect(currentSearch === 'test' || currentSearch === '').toBe(true);
+        }
       }
-    }
+    });
   });
 });
@@ -1,6 +1,7 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { loginAsRole, logout, isAuthenticated } from '../../fixtures/auth.fixtures';
 import { createSalaryRangeData, createPositionData, createEmployeeData } from '../../fixtures/data.fixtures';
+import { createEmployee, getTokenForRole } from '../../fixtures/api.fixtures';
 import { PositionFormPage } from '../../page-objects/position-form.page';
 import { EmployeeFormPage } from '../../page-objects/employee-form.page';
 
@@ -15,18 +16,19 @@ import { EmployeeFormPage } from '../../page-objects/employee-form.page';
  * 5. Create employee in new position
  * 6. Verify all relationships
  * 7. Logout
+ *
+ * The record the delete test removes is seeded through the API; everything the
+ * tests create is deleted afterwards by the teardown fixture.
  */
 
 test.describe('HRAdmin Operations Workflow', () => {
-  let salaryRangeId: number;
-  let positionId: number;
-  let employeeId: number;
-
   test('should complete full HRAdmin workflow with relationships', async ({ page }) => {
     // Increase timeout for complex workflow (creates salary range, position, and employee)
     test.setTimeout(60000);
 
     // Step 1: Login as HRAdmin
+    // The workflow logs in and out itself: logging out ends the IdentityServer
+    // session, which must not be the one the setup project saved for the role
     await loginAsRole(page, 'hradmin');
     await page.waitForLoadState('networkidle');
 
@@ -88,13 +90,14 @@ test.describe('HRAdmin Operations Workflow', () => {
 
     // Fill position form using Page Object
     const positionData = createPositionData({
-      title: `HRAdminPosition_${Date.now()}`,
-      description: 'Position created in HRAdmin workflow',
+      positionTitle: `HRAdminPosition_${Date.now()}`,
+      positionDescription: 'Position created in HRAdmin workflow',
     });
 
     await positionForm.fillForm({
-      title: positionData.title,
-      description: positionData.description,
+      title: positionData.positionTitle,
+      positionNumber: positionData.positionNumber,
+      description: positionData.positionDescription,
     });
 
     // Submit and verify
@@ -199,96 +202,85 @@ test.describe('HRAdmin Operations Workflow', () => {
     expect(authenticated).toBe(false);
   });
 
-  test('should delete records as HRAdmin', async ({ page }) => {
-    // Login as HRAdmin
-    await loginAsRole(page, 'hradmin');
-
-    // Navigate to employees
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Create test employee to delete
-    const createButton = page.locator('button').filter({ hasText: /create|add.*employee|new/i });
-    await createButton.first().click();
-    await page.waitForTimeout(1000);
-
-    const employeeData = createEmployeeData({
-      firstName: 'ToDelete',
-      lastName: `Admin${Date.now()}`,
-      email: `todelete.${Date.now()}@example.com`,
-    });
-
-    const firstNameInput = page.locator('input[name*="firstName"], input[formControlName="firstName"]');
-    const lastNameInput = page.locator('input[name*="lastName"], input[formControlName="lastName"]');
-    const emailInput = page.locator('input[name*="email"], input[formControlName="email"]');
-
-    await firstNameInput.fill(employeeData.firstName);
-    await lastNameInput.fill(employeeData.lastName);
-    await emailInput.fill(employeeData.email);
-
-    const submitButton = page.locator('button[type="submit"], button').filter({ hasText: /save|submit|create/i });
-    await submitButton.first().click();
-
-    await page.waitForTimeout(2000);
+  test.describe('as HRAdmin', () => {
+    test.use({ role: 'hradmin' });
+
+    test('should delete records as HRAdmin', async ({ page, request }) => {
+      // Seed the employee to delete through the API
+      const employeeData = createEmployeeData({
+        firstName: 'ToDelete',
+        lastName: `Admin${Date.now()}`,
+        email: `todelete.${Date.now()}@example.com`,
+      });
+
+      let token: string;
+      try {
+        token = await getTokenForRole(request, 'hradmin');
+      } catch (error) {
+        console.log('Failed to acquire auth token - services may not be running:', error);
+        test.skip();
+        return;
+      }
+      // Not caught: an employee the API rejects fails the test instead of skipping it
+      await createEmployee(request, token, employeeData);
 
-    // Navigate back to list and delete
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
+      // Navigate to the list and delete
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-    const searchInput = page.locator('input[placeholder*="Search"], input[name*="search"]');
-    if (await searchInput.isVisible({ timeout: 3000 })) {
-      await searchInput.fill(employeeData.lastName);
-      await page.waitForTimeout(1500);
-    }
+      const searchInput = page.locator('input[placeholder*="Search"], input[name*="search"]');
+      if (await searchInput.isVisible({ timeout: 3000 })) {
+        await searchInput.fill(employeeData.lastName);
+        await page.waitForTimeout(1500);
+      }
 
-    const employeeRow = page.locator('tr, mat-row').filter({ hasText: new RegExp(employeeData.lastName, 'i') }).first();
+      const employeeRow = page.locator('tr, mat-row').filter({ hasText: new RegExp(employeeData.lastName, 'i') }).first();
 
-    if (await employeeRow.isVisible({ timeout: 3000 })) {
-      const deleteButton = employeeRow.locator('button').filter({ hasText: /delete/i }).first();
+      if (await employeeRow.isVisible({ timeout: 3000 })) {
+        const deleteButton = employeeRow.locator('button').filter({ hasText: /delete/i }).first();
 
-      if (await deleteButton.isVisible({ timeout: 2000 })) {
-        await deleteButton.click();
-        await page.waitForTimeout(1000);
+        if (await deleteButton.isVisible({ timeout: 2000 })) {
+          await deleteButton.click();
+          await page.waitForTimeout(1000);
 
-        // Confirm deletion
-        const confirmButton = page.locator('button').filter({ hasText: /yes|confirm|delete/i });
-        await confirmButton.last().click();
+          // Confirm deletion
+          const confirmButton = page.locator('button').filter({ hasText: /yes|confirm|delete/i });
+          await confirmButton.last().click();
 
-        await page.waitForTimeout(2000);
+          await page.waitForTimeout(2000);
 
-        // Verify deletion success
-        const deleteSuccess = page.locator('mat-snack-bar, .toast, .notification').filter({ hasText: /success|deleted/i });
-        const hasDeleteSuccess = await deleteSuccess.isVisible({ timeout: 3000 }).catch(() => false);
+          // Verify deletion success
+          const deleteSuccess = page.locator('mat-snack-bar, .toast, .notification').filter({ hasText: /success|deleted/i });
+          const hasDeleteSuccess = await deleteSuccess.isVisible({ timeout: 3000 }).catch(() => false);
 
-        expect(hasDeleteSuccess).toBe(true);
+          expect(hasDeleteSuccess).toBe(true);
+        }
       }
-    }
-  });
+    });
 
-  test('should manage all modules as HRAdmin', async ({ page }) => {
-    // Login as HRAdmin
-    await loginAsRole(page, 'hradmin');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
+    test('should manage all modules as HRAdmin', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
 
-    // Verify access to all modules
-    const modules = [
-      { name: 'employees', path: '/employees' },
-      { name: 'departments', path: '/departments' },
-      { name: 'positions', path: '/positions' },
-      { name: 'salary-ranges', path: '/salary-ranges' },
-    ];
+      // Verify access to all modules
+      const modules = [
+        { name: 'employees', path: '/employees' },
+        { name: 'departments', path: '/departments' },
+        { name: 'positions', path: '/positions' },
+        { name: 'salary-ranges', path: '/salary-ranges' },
+      ];
 
-    for (const module of modules) {
-      await page.goto(module.path);
-      await page.waitForLoadState('networkidle');
+      for (const module of modules) {
+        await page.goto(module.path);
+        await page.waitForLoadState('networkidle');
 
-      // Verify page loads without access denied
-      const accessDenied = await page.locator('text=/access.*denied|forbidden|unauthorized/i').isVisible({ timeout: 2000 }).catch(() => false);
-      const hasTable = await page.locator('table, mat-table').isVisible({ timeout: 3000 }).catch(() => false);
+        // Verify page loads without access denied
+        const accessDenied = await page.locator('text=/access.*denied|forbidden|unauthorized/i').isVisible({ timeout: 2000 }).catch(() => false);
+        const hasTable = await page.locator('table, mat-table').isVisible({ timeout: 3000 }).catch(() => false);
 
-      // Should either have table or be on valid page (not access denied)
-      expect(!accessDenied || hasTable).toBe(true);
-    }
+        // Should either have table or be on valid page (not access denied)
+        expect(!accessDenied || hasTable).toBe(true);
+      }
+    });
   });
 });
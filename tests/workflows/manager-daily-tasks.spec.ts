@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/test.fixtures';
 import { loginAsRole, logout, isAuthenticated } from '../../fixtures/auth.fixtures';
 import { createEmployeeData, createDepartmentData } from '../../fixtures/data.fixtures';
 import { EmployeeFormPage } from '../../page-objects/employee-form.page';
@@ -22,6 +22,8 @@ test.describe('Manager Daily Tasks Workflow', () => {
     test.setTimeout(60000);
 
     // Step 1: Login as Manager
+    // The workflow logs in and out itself: logging out ends the IdentityServer
+    // session, which must not be the one the setup project saved for the role
     await loginAsRole(page, 'manager');
     await page.waitForLoadState('networkidle');
 
@@ -221,81 +223,81 @@ test.describe('Manager Daily Tasks Workflow', () => {
     expect(authenticated).toBe(false);
   });
 
-  test('should handle multiple employee updates in sequence', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/employees');
-    await page.waitForLoadState('networkidle');
-
-    // Get first two employees
-    const rows = page.locator('tr, mat-row');
-    const rowCount = await rows.count();
-
-    if (rowCount >= 3) { // At least header + 2 data rows
-      for (let i = 1; i <= 2; i++) {
-        const row = rows.nth(i);
-
-        if (await row.isVisible({ timeout: 2000 })) {
-          const editButton = row.locator('button, a').filter({ hasText: /edit/i }).first();
+  test.describe('as Manager', () => {
+    test.use({ role: 'manager' });
 
-          if (await editButton.isVisible({ timeout: 2000 })) {
-            await editButton.click();
-            await page.waitForTimeout(1500);
-
-            // Make a small change
-            const phoneInput = page.locator('input[name*="phone"], input[formControlName="phoneNumber"]');
-            if (await phoneInput.isVisible({ timeout: 2000 }).catch(() => false)) {
-              const currentPhone = await phoneInput.inputValue();
-              await phoneInput.fill(currentPhone || '555-0000');
-            }
+    test('should handle multiple employee updates in sequence', async ({ page }) => {
+      await page.goto('/employees');
+      await page.waitForLoadState('networkidle');
 
-            // Save
-            const saveButton = page.locator('button[type="submit"], button').filter({ hasText: /save|update/i });
-            if (await saveButton.isVisible({ timeout: 2000 })) {
-              await saveButton.first().click();
-              await page.waitForTimeout(2000);
+      // Get first two employees
+      const rows = page.locator('tr, mat-row');
+      const rowCount = await rows.count();
+
+      if (rowCount >= 3) { // At least header + 2 data rows
+        for (let i = 1; i <= 2; i++) {
+          const row = rows.nth(i);
+
+          if (await row.isVisible({ timeout: 2000 })) {
+            const editButton = row.locator('button, a').filter({ hasText: /edit/i }).first();
+
+            if (await editButton.isVisible({ timeout: 2000 })) {
+              await editButton.click();
+              await page.waitForTimeout(1500);
+
+              // Make a small change
+              const phoneInput = page.locator('input[name*="phone"], input[formControlName="phoneNumber"]');
+              if (await phoneInput.isVisible({ timeout: 2000 }).catch(() => false)) {
+                const currentPhone = await phoneInput.inputValue();
+                await phoneInput.fill(currentPhone || '555-0000');
+              }
+
+              // Save
+              const saveButton = page.locator('button[type="submit"], button').filter({ hasText: /save|update/i });
+              if (await saveButton.isVisible({ timeout: 2000 })) {
+                await saveButton.first().click();
+                await page.waitForTimeout(2000);
+              }
+
+              // Return to list
+              await page.goto('/employees');
+              await page.waitForLoadState('networkidle');
             }
-
-            // Return to list
-            await page.goto('/employees');
-            await page.waitForLoadState('networkidle');
           }
         }
-      }
 
-      // Workflow completes successfully
-      expect(true).toBe(true);
-    }
-  });
+        // Workflow completes successfully
+        expect(true).toBe(true);
+      }
+    });
 
-  test('should review dashboard metrics before starting tasks', async ({ page }) => {
-    // Login
-    await loginAsRole(page, 'manager');
-    await page.goto('/dashboard');
-    await page.waitForLoadState('networkidle');
+    test('should review dashboard metrics before starting tasks', async ({ page }) => {
+      await page.goto('/dashboard');
+      await page.waitForLoadState('networkidle');
 
-    // Check employee count metric
-    const employeeMetric = page.locator('mat-card, .metric, .stat').filter({ hasText: /employee/i });
-    const hasMetric = await employeeMetric.isVisible({ timeout: 3000 }).catch(() => false);
+      // Check employee count metric
+      const employeeMetric = page.locator('mat-card, .metric, .stat').filter({ hasText: /employee/i });
+      const hasMetric = await employeeMetric.isVisible({ timeout: 3000 }).catch(() => false);
 
-    if (hasMetric) {
-      const metricText = await employeeMetric.textContent();
-      expect(metricText).toMatch(/\d+/);
-    }
+      if (hasMetric) {
+        const metricText = await employeeMetric.textContent();
+        expect(metricText).toMatch(/\d+/);
+      }
 
-    // Navigate to employees from dashboard (via sidebar or direct navigation)
-    const employeesLink = page.locator('a, button').filter({ hasText: /^employees$/i });
+      // Navigate to employees from dashboard (via sidebar or direct navigation)
+      const employeesLink = page.locator('a, button').filter({ hasText: /^employees$/i });
 
-    if (await employeesLink.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-      await employeesLink.first().click();
-      await page.waitForLoadState('networkidle');
-    } else {
-      // If no link found, navigate directly
-      await page.goto('/employees');
-      await page.waitForLoadState('networkidle');
-    }
+      if (await employeesLink.first().isVisible({ timeout: 2000 }).catch(() => false)) {
+        await employeesLink.first().click();
+        await page.waitForLoadState('networkidle');
+      } else {
+        // If no link found, navigate directly
+        await page.goto('/employees');
+        await page.waitForLoadState('networkidle');
+      }
 
-    // Verify on employees page
-    expect(page.url()).toMatch(/employees/);
+      // Verify on employees page
+      expect(page.url()).toMatch(/employees/);
+    });
   });
 });
@@ -0,0 +1,366 @@
+import { CachedResponse, CachingClient, isValidEtag, parseCacheControl } from './caching-client';
+
+/**
+ * Cache Conformance
+ *
+ * Checks the API's HTTP caching against a fixed set of rules (conditional
+ * requests, 304 semantics, freshness after writes, the cache management
+ * endpoints) and reports each one as:
+ * - pass - the API supports the behaviour and gets it right
+ * - fail - the API supports it (or must, e.g. fresh reads after a write) and gets it wrong
+ * - not-implemented - the API does not support it yet (no validators, endpoint missing)
+ *
+ * Rules are checked in order against live data, so one run shows exactly how
+ * far the backend's caching support has come.
+ *
+ * @example
+ * const report = await checkCacheConformance(new CachingClient(request, token), {
+ *   listUrl: apiUrl('employees.list'),
+ *   write: () => api.employees.create(createEmployeeData()).then(() => undefined),
+ *   invalidateUrl: apiUrl('cache.invalidate'),
+ *   statisticsUrl: apiUrl('cache.statistics'),
+ * });
+ * console.log(report.format());
+ */
+
+export type ConformanceOutcome = 'pass' | 'fail' | 'not-implemented';
+
+/**
+ * Rules checked, in order, with what each expects
+ */
+export const CACHE_RULES = {
+  'validators': 'A 200 response carries an ETag or Last-Modified validator',
+  'cache-control': 'Cache-Control uses known directives with valid values',
+  'etag-format': 'ETag is a quoted entity tag ("..." or W/"...")',
+  'if-none-match': 'A matching If-None-Match returns 304 Not Modified',
+  'if-modified-since': 'A current If-Modified-Since returns 304 Not Modified',
+  'not-modified-semantics': 'A 304 has no body and repeats the 200\'s ETag and Cache-Control',
+  'stale-validator': 'A non-matching If-None-Match returns 200 with the full body',
+  'statistics-endpoint': 'GET /cache/statistics returns counters',
+  'statistics-track-reads': 'Cache statistics change when the API is read',
+  'read-after-write': 'A read after a write returns the new data, not a cached copy',
+  'write-changes-validator': 'A write changes the validator, so the old one gets 200 instead of 304',
+  'invalidate-endpoint': 'POST /cache/invalidate succeeds',
+  'invalidate-takes-effect': 'Cache statistics change after an invalidation',
+} as const;
+
+export type CacheRule = keyof typeof CACHE_RULES;
+
+/**
+ * Outcome of one rule
+ */
+export interface ConformanceResult {
+  rule: CacheRule;
+  description: string;
+  outcome: ConformanceOutcome;
+  detail: string;
+}
+
+/**
+ * What to check: a collection a write changes, the write, and the cache endpoints
+ */
+export interface CacheConformanceTarget {
+  /** Absolute URL of a collection (e.g. the employee list) */
+  listUrl: string;
+  /** Changes what listUrl returns (e.g. creates a record) */
+  write: () => Promise<void>;
+  /** Absolute URL of the cache invalidation endpoint */
+  invalidateUrl: string;
+  /** Absolute URL of the cache statistics endpoint */
+  statisticsUrl: string;
+}
+
+// Statuses that mean an endpoint does not exist (rather than misbehaves)
+const MISSING_STATUSES = [404, 405, 501];
+
+const KNOWN_DIRECTIVES = [
+  'max-age', 's-maxage', 'no-cache', 'no-store', 'no-transform', 'must-revalidate',
+  'proxy-revalidate', 'must-understand', 'private', 'public', 'immutable',
+  'stale-while-revalidate', 'stale-if-error',
+];
+const SECONDS_DIRECTIVES = ['max-age', 's-maxage', 'stale-while-revalidate', 'stale-if-error'];
+
+/**
+ * Outcomes of the rules, with a readable summary
+ */
+export class ConformanceReport {
+  private readonly outcomes = new Map<CacheRule, ConformanceResult>();
+
+  /**
+   * Record a rule's outcome (a later record of the same rule replaces it)
+   */
+  record(rule: CacheRule, outcome: ConformanceOutcome, detail: string): void {
+    this.outcomes.set(rule, { rule, description: CACHE_RULES[rule], outcome, detail });
+  }
+
+  /**
+   * Outcome of a rule, or undefined if it was not checked
+   */
+  get(rule: CacheRule): ConformanceResult | undefined {
+    return this.outcomes.get(rule);
+  }
+
+  /**
+   * Results in rule order
+   */
+  get results(): ConformanceResult[] {
+    return (Object.keys(CACHE_RULES) as CacheRule[]).flatMap(rule => this.outcomes.get(rule) ?? []);
+  }
+
+  get failures(): ConformanceResult[] {
+    return this.results.filter(result => result.outcome === 'fail');
+  }
+
+  /**
+   * Number of rules per outcome
+   */
+  get summary(): Record<ConformanceOutcome, number> {
+    const summary: Record<ConformanceOutcome, number> = { 'pass': 0, 'fail': 0, 'not-implemented': 0 };
+    for (const result of this.results) {
+      summary[result.outcome]++;
+    }
+    return summary;
+  }
+
+  /**
+   * One line per rule, for report attachments
+   */
+  format(): string {
+    const { pass, fail, 'not-implemented': notImplemented } = this.summary;
+    const lines = this.results.map(
+      result => `${result.outcome.toUpperCase().padEnd(15)} ${result.rule.padEnd(24)} ${result.detail}`
+    );
+    return [`HTTP caching conformance: ${pass} pass, ${fail} fail, ${notImplemented} not implemented`, ...lines].join('\n');
+  }
+
+  toJSON() {
+    return { summary: this.summary, results: this.results };
+  }
+}
+
+/**
+ * Check the API's caching against CACHE_RULES
+ *
+ * @param client - Caching client with a token that may read, write and manage the cache
+ * @param target - Collection, write and cache endpoints to use
+ * @returns Outcome of every rule
+ */
+export async function checkCacheConformance(
+  client: CachingClient,
+  target: CacheConformanceTarget
+): Promise<ConformanceReport> {
+  const report = new ConformanceReport();
+  const { listUrl } = target;
+
+  // Validators and headers of a full response
+  client.forget(listUrl);
+  const first = await client.get(listUrl);
+  if (first.status !== 200) {
+    throw new Error(`GET ${listUrl} returned ${first.status}; cannot check caching`);
+  }
+  const { etag, lastModified, cacheControl } = client.entry(listUrl)!;
+
+  if (etag || lastModified) {
+    report.record('validators', 'pass', [etag && `ETag ${etag}`, lastModified && `Last-Modified ${lastModified}`].filter(Boolean).join(', '));
+  } else {
+    report.record('validators', 'not-implemented', 'No ETag or Last-Modified header');
+  }
+
+  if (cacheControl === undefined) {
+    report.record('cache-control', 'not-implemented', 'No Cache-Control header');
+  } else {
+    const problems = checkCacheControl(cacheControl);
+    report.record('cache-control', problems.length === 0 ? 'pass' : 'fail', problems.length === 0 ? cacheControl : problems.join('; '));
+  }
+
+  if (etag === undefined) {
+    report.record('etag-format', 'not-implemented', 'No ETag header');
+  } else {
+    report.record('etag-format', isValidEtag(etag) ? 'pass' : 'fail', etag);
+  }
+
+  // Conditional requests
+  let notModified: CachedResponse | undefined;
+  if (etag === undefined) {
+    report.record('if-none-match', 'not-implemented', 'No ETag to send');
+  } else {
+    const conditional = await client.get(listUrl, { ifNoneMatch: etag, ifModifiedSince: false });
+    if (conditional.notModified) {
+      notModified = conditional;
+      report.record('if-none-match', 'pass', '304 Not Modified');
+    } else {
+      report.record('if-none-match', 'fail', `${conditional.status} for If-None-Match ${etag} on unchanged data`);
+    }
+  }
+
+  if (lastModified === undefined) {
+    report.record('if-modified-since', 'not-implemented', 'No Last-Modified to send');
+  } else {
+    const conditional = await client.get(listUrl, { ifNoneMatch: false, ifModifiedSince: lastModified });
+    if (conditional.notModified) {
+      notModified ??= conditional;
+      report.record('if-modified-since', 'pass', '304 Not Modified');
+    } else {
+      report.record('if-modified-since', 'fail', `${conditional.status} for If-Modified-Since ${lastModified} on unchanged data`);
+    }
+  }
+
+  if (!notModified) {
+    report.record('not-modified-semantics', 'not-implemented', 'No 304 response to check');
+  } else {
+    const headers = notModified.response.headers();
+    const problems = [
+      notModified.rawBody.length > 0 && `body of ${notModified.rawBody.length} bytes`,
+      etag && headers['etag'] !== etag && `ETag ${headers['etag'] ?? 'missing'} instead of ${etag}`,
+      cacheControl && headers['cache-control'] !== cacheControl && `Cache-Control ${headers['cache-control'] ?? 'missing'} instead of ${cacheControl}`,
+    ].filter(Boolean);
+    report.record('not-modified-semantics', problems.length === 0 ? 'pass' : 'fail', problems.length === 0 ? 'Empty body, same validators' : problems.join('; '));
+  }
+
+  if (etag === undefined) {
+    report.record('stale-validator', 'not-implemented', 'No ETag support');
+  } else {
+    const stale = await client.get(listUrl, { ifNoneMatch: '"stale-validator-check"', ifModifiedSince: false });
+    const ok = stale.status === 200 && stale.rawBody.length > 0;
+    report.record('stale-validator', ok ? 'pass' : 'fail', ok ? '200 with body' : `${stale.status} with ${stale.rawBody.length} bytes`);
+  }
+
+  // Statistics before writing
+  const statisticsBefore = await readStatistics(client, target.statisticsUrl);
+  if (statisticsBefore.missing) {
+    report.record('statistics-endpoint', 'not-implemented', `GET returned ${statisticsBefore.status}`);
+    report.record('statistics-track-reads', 'not-implemented', 'No statistics endpoint');
+  } else if (statisticsBefore.counters === null) {
+    report.record('statistics-endpoint', 'fail', `GET returned ${statisticsBefore.status} without numeric counters`);
+    report.record('statistics-track-reads', 'fail', 'No counters to compare');
+  } else {
+    report.record('statistics-endpoint', 'pass', Object.entries(statisticsBefore.counters).map(([name, value]) => `${name}=${value}`).join(', '));
+
+    await client.get(listUrl, { ifNoneMatch: false, ifModifiedSince: false });
+    await client.get(listUrl, { ifNoneMatch: false, ifModifiedSince: false });
+    const afterReads = await readStatistics(client, target.statisticsUrl);
+    const changed = diffCounters(statisticsBefore.counters, afterReads.counters);
+    report.record('statistics-track-reads', changed.length > 0 ? 'pass' : 'fail', changed.length > 0 ? changed.join(', ') : 'No counter changed after two reads');
+  }
+
+  // Writes
+  const before = await client.get(listUrl, { ifNoneMatch: false, ifModifiedSince: false });
+  await target.write();
+  const after = await client.get(listUrl, { ifNoneMatch: false, ifModifiedSince: false });
+  const totalBefore = recordsTotal(before.body);
+  const totalAfter = recordsTotal(after.body);
+  if (totalBefore !== null && totalAfter !== null) {
+    report.record(
+      'read-after-write',
+      totalAfter !== totalBefore ? 'pass' : 'fail',
+      `recordsTotal ${totalBefore} before the write, ${totalAfter} after`
+    );
+  } else {
+    report.record('read-after-write', after.body !== before.body ? 'pass' : 'fail', after.body !== before.body ? 'Body changed' : 'Same body after the write');
+  }
+
+  const validator = before.response.headers()['etag'] ?? before.response.headers()['last-modified'];
+  if (!validator) {
+    report.record('write-changes-validator', 'not-implemented', 'No validators');
+  } else {
+    const useEtag = before.response.headers()['etag'] !== undefined;
+    const conditional = await client.get(listUrl, useEtag
+      ? { ifNoneMatch: validator, ifModifiedSince: false }
+      : { ifNoneMatch: false, ifModifiedSince: validator });
+    report.record(
+      'write-changes-validator',
+      conditional.status === 200 ? 'pass' : 'fail',
+      `${conditional.status} for the pre-write ${useEtag ? 'ETag' : 'Last-Modified'} ${validator}`
+    );
+  }
+
+  // Invalidation
+  const beforeInvalidation = await readStatistics(client, target.statisticsUrl);
+  const invalidate = await client.send('POST', target.invalidateUrl);
+  if (MISSING_STATUSES.includes(invalidate.status())) {
+    report.record('invalidate-endpoint', 'not-implemented', `POST returned ${invalidate.status()}`);
+    report.record('invalidate-takes-effect', 'not-implemented', 'No invalidation endpoint');
+  } else if (!invalidate.ok()) {
+    report.record('invalidate-endpoint', 'fail', `POST returned ${invalidate.status()}: ${await invalidate.text()}`);
+    report.record('invalidate-takes-effect', 'fail', 'Invalidation failed');
+  } else {
+    report.record('invalidate-endpoint', 'pass', `POST returned ${invalidate.status()}`);
+
+    const afterInvalidation = await readStatistics(client, target.statisticsUrl);
+    if (beforeInvalidation.counters === null || afterInvalidation.counters === null) {
+      report.record('invalidate-takes-effect', 'not-implemented', 'No statistics to compare');
+    } else {
+      const changed = diffCounters(beforeInvalidation.counters, afterInvalidation.counters);
+      report.record('invalidate-takes-effect', changed.length > 0 ? 'pass' : 'fail', changed.length > 0 ? changed.join(', ') : 'No counter changed after invalidation');
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Problems with a Cache-Control header
+ */
+function checkCacheControl(value: string): string[] {
+  const problems: string[] = [];
+  const directives = parseCacheControl(value);
+  for (const [name, directiveValue] of directives) {
+    if (!KNOWN_DIRECTIVES.includes(name)) {
+      problems.push(`unknown directive ${name}`);
+    } else if (SECONDS_DIRECTIVES.includes(name) && (directiveValue === true || !/^\d+$/.test(directiveValue))) {
+      problems.push(`${name} needs a number of seconds, got ${directiveValue === true ? 'nothing' : directiveValue}`);
+    }
+  }
+  if (directives.has('public') && directives.has('private')) {
+    problems.push('both public and private');
+  }
+  return problems;
+}
+
+interface StatisticsSnapshot {
+  status: number;
+  missing: boolean;
+  /** Numeric leaves of the body by JSON path, or null if there are none */
+  counters: Record<string, number> | null;
+}
+
+async function readStatistics(client: CachingClient, url: string): Promise<StatisticsSnapshot> {
+  const response = await client.send('GET', url);
+  const status = response.status();
+  if (!response.ok()) {
+    return { status, missing: MISSING_STATUSES.includes(status), counters: null };
+  }
+
+  const counters: Record<string, number> = {};
+  try {
+    collectNumbers(await response.json(), '', counters);
+  } catch {
+    // Not JSON
+  }
+  return { status, missing: false, counters: Object.keys(counters).length > 0 ? counters : null };
+}
+
+function collectNumbers(value: unknown, path: string, into: Record<string, number>): void {
+  if (typeof value === 'number') {
+    into[path || 'value'] = value;
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      collectNumbers(child, path ? `${path}.${key}` : key, into);
+    }
+  }
+}
+
+function diffCounters(before: Record<string, number>, after: Record<string, number> | null): string[] {
+  return Object.entries(after ?? {})
+    .filter(([name, value]) => before[name] !== value)
+    .map(([name, value]) => `${name} ${before[name] ?? 'missing'} -> ${value}`);
+}
+
+function recordsTotal(body: string): number | null {
+  try {
+    const total = JSON.parse(body)?.recordsTotal;
+    return typeof total === 'number' ? total : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,180 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+
+/**
+ * Caching Client
+ *
+ * An HTTP client that behaves like a cache in front of the API: it remembers
+ * the validators (ETag, Last-Modified) and body of every URL it fetched and
+ * sends them back as If-None-Match / If-Modified-Since, so specs can observe
+ * how the server handles conditional requests.
+ *
+ * @example
+ * const client = new CachingClient(request, token);
+ * const first = await client.get(apiUrl('employees.list'));     // 200, validators stored
+ * const second = await client.get(apiUrl('employees.list'));    // conditional; 304 if unchanged
+ * expect(second.notModified).toBe(true);
+ */
+
+/**
+ * Validators and body of the last full (200) response for a URL
+ */
+export interface CacheEntry {
+  etag?: string;
+  lastModified?: string;
+  cacheControl?: string;
+  body: string;
+  storedAt: number;
+}
+
+/**
+ * Result of a GET through the client
+ */
+export interface CachedResponse {
+  response: APIResponse;
+  status: number;
+  /** Whether validators were sent (If-None-Match / If-Modified-Since) */
+  conditional: boolean;
+  /** 304 - the stored body is still current */
+  notModified: boolean;
+  /** Body of the response, or the stored body for a 304 */
+  body: string;
+  /** Raw body of the response itself (empty for a well-formed 304) */
+  rawBody: string;
+}
+
+/**
+ * Which validators a request sends
+ */
+export interface ConditionalOptions {
+  /** Send If-None-Match (default: when an ETag is stored) */
+  ifNoneMatch?: string | false;
+  /** Send If-Modified-Since (default: when a Last-Modified is stored) */
+  ifModifiedSince?: string | false;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Client that stores validators per URL and sends conditional GETs
+ */
+export class CachingClient {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly token: string
+  ) {}
+
+  /**
+   * GET a URL, conditionally when validators are stored for it
+   * @param url - Absolute URL
+   * @param options - Override which validators are sent
+   * @returns The response, with the stored body filled in for a 304
+   */
+  async get(url: string, options: ConditionalOptions = {}): Promise<CachedResponse> {
+    const entry = this.entries.get(url);
+    const ifNoneMatch = options.ifNoneMatch ?? entry?.etag;
+    const ifModifiedSince = options.ifModifiedSince ?? entry?.lastModified;
+
+    const headers: Record<string, string> = { ...options.headers };
+    if (ifNoneMatch) {
+      headers['If-None-Match'] = ifNoneMatch;
+    }
+    if (ifModifiedSince) {
+      headers['If-Modified-Since'] = ifModifiedSince;
+    }
+
+    const response = await this.send('GET', url, headers);
+    const rawBody = await response.text();
+    const notModified = response.status() === 304;
+
+    if (response.status() === 200) {
+      this.store(url, response, rawBody);
+    }
+
+    return {
+      response,
+      status: response.status(),
+      conditional: Boolean(ifNoneMatch || ifModifiedSince),
+      notModified,
+      body: notModified ? entry?.body ?? '' : rawBody,
+      rawBody,
+    };
+  }
+
+  /**
+   * Send a request without validators (writes, invalidation, statistics)
+   * @param method - HTTP method
+   * @param url - Absolute URL
+   * @param headers - Extra request headers
+   * @param data - Request body
+   */
+  async send(method: string, url: string, headers: Record<string, string> = {}, data?: unknown): Promise<APIResponse> {
+    return this.request.fetch(url, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Accept': 'application/json',
+        ...headers,
+      },
+      data,
+      ignoreHTTPSErrors: true,
+      failOnStatusCode: false,
+    });
+  }
+
+  /**
+   * Stored validators and body of a URL
+   * @param url - Absolute URL
+   */
+  entry(url: string): CacheEntry | undefined {
+    return this.entries.get(url);
+  }
+
+  /**
+   * Drop what is stored for a URL (or for every URL)
+   * @param url - Absolute URL; omit to clear everything
+   */
+  forget(url?: string): void {
+    if (url === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(url);
+    }
+  }
+
+  private store(url: string, response: APIResponse, body: string): void {
+    const headers = response.headers();
+    this.entries.set(url, {
+      etag: headers['etag'],
+      lastModified: headers['last-modified'],
+      cacheControl: headers['cache-control'],
+      body,
+      storedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Parse a Cache-Control header into its directives
+ * @param value - Header value, e.g. `private, max-age=60`
+ * @returns Directive names (lower case) mapped to their value (true when valueless)
+ */
+export function parseCacheControl(value: string): Map<string, string | true> {
+  const directives = new Map<string, string | true>();
+  for (const part of value.split(',')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name) {
+      directives.set(name.toLowerCase(), rest.length > 0 ? rest.join('=').replace(/^"|"$/g, '') : true);
+    }
+  }
+  return directives;
+}
+
+/**
+ * Whether a value is a well-formed entity tag: `"opaque"` or `W/"opaque"` (RFC 9110 8.8.3)
+ * @param value - ETag header value
+ */
+export function isValidEtag(value: string): boolean {
+  return /^(W\/)?"[\x21\x23-\x7e\x80-\xff]*"$/.test(value);
+}
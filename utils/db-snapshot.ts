@@ -0,0 +1,201 @@
+import { APIRequestContext } from '@playwright/test';
+import crypto from 'crypto';
+import {
+  RESOURCE_NAMES,
+  ResourceClients,
+  ResourceName,
+  ResourceTypes,
+  getReadOnlyFields,
+  getResourceClients,
+} from '../fixtures/api.fixtures';
+
+/**
+ * Database Snapshot
+ *
+ * Records every employee, department, position and salary range the API
+ * returns, as an ID, a readable label and a checksum of the record's fields,
+ * so two snapshots can be compared:
+ * - Leaked: records added in between whose name carries a test data prefix
+ *   (`Test ...`, employee numbers starting with `EMP`; see data.fixtures.ts)
+ * - Added: other records added in between (e.g. typed into a form by a test)
+ * - Removed / modified: records that existed before and were deleted or changed
+ *
+ * Fields the API derives from other records (a department's employeeCount)
+ * are left out of the checksum, so creating an employee does not show up as a
+ * modified department.
+ *
+ * Used by global-setup.ts when DB_SNAPSHOT=true.
+ */
+
+/**
+ * One record in a snapshot
+ */
+export interface SnapshotRecord {
+  id: number;
+  label: string;
+  checksum: string;
+  /** Name carries a test data prefix */
+  testData: boolean;
+}
+
+/**
+ * Every record of every resource at one point in time
+ */
+export interface DatabaseSnapshot {
+  takenAt: string;
+  resources: Record<ResourceName, SnapshotRecord[]>;
+}
+
+/**
+ * How a resource changed between two snapshots
+ */
+export interface ResourceDiff {
+  before: number;
+  after: number;
+  /** Added records with a test data prefix */
+  leaked: SnapshotRecord[];
+  /** Added records without a test data prefix */
+  added: SnapshotRecord[];
+  removed: SnapshotRecord[];
+  /** Records whose checksum changed (reported with the label they have now) */
+  modified: SnapshotRecord[];
+}
+
+/**
+ * How the database changed between two snapshots
+ */
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  resources: Record<ResourceName, ResourceDiff>;
+  /** No leaked, removed or modified records (other additions are only reported) */
+  clean: boolean;
+}
+
+/**
+ * How records of a resource are labelled and recognised as test data
+ */
+interface SnapshotDefinition<T> {
+  label: (record: T) => string;
+  isTestData: (record: T) => boolean;
+}
+
+// Records are typed per resource (Employee, Department, Position, SalaryRange)
+const SNAPSHOT_DEFINITIONS: { [K in ResourceName]: SnapshotDefinition<ResourceTypes[K]['entity']> } = {
+  employees: {
+    label: record => `${record.employeeNumber} ${record.firstName} ${record.lastName}`,
+    isTestData: record => /^EMP/.test(record.employeeNumber ?? '') || /^Test/.test(record.firstName ?? ''),
+  },
+  departments: { label: record => record.name, isTestData: record => /^Test/.test(record.name ?? '') },
+  positions: {
+    label: record => `${record.positionNumber} ${record.positionTitle}`,
+    isTestData: record => /^PN-/.test(record.positionNumber ?? '') || /^Test/.test(record.positionTitle ?? ''),
+  },
+  salaryRanges: { label: record => record.name, isTestData: record => /^Test/.test(record.name ?? '') },
+};
+
+// The largest page the list endpoints accept
+const SNAPSHOT_PAGE_SIZE = 100;
+
+/**
+ * Take a snapshot of all four resources
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token that can list every resource (HRAdmin)
+ * @returns The snapshot
+ *
+ * @example
+ * const before = await takeDatabaseSnapshot(request, token);
+ * // ... run tests ...
+ * const diff = diffSnapshots(before, await takeDatabaseSnapshot(request, token));
+ */
+export async function takeDatabaseSnapshot(request: APIRequestContext, token: string): Promise<DatabaseSnapshot> {
+  const api = getResourceClients(request, token);
+  const takenAt = new Date().toISOString();
+  const resources = {} as Record<ResourceName, SnapshotRecord[]>;
+
+  for (const resource of RESOURCE_NAMES) {
+    resources[resource] = await snapshotResource(api, resource);
+  }
+
+  return { takenAt, resources };
+}
+
+async function snapshotResource<K extends ResourceName>(api: ResourceClients, resource: K): Promise<SnapshotRecord[]> {
+  const definition: SnapshotDefinition<ResourceTypes[K]['entity']> = SNAPSHOT_DEFINITIONS[resource];
+  const records: SnapshotRecord[] = [];
+  for await (const record of await api[resource].listPages({ PageSize: SNAPSHOT_PAGE_SIZE })) {
+    records.push({
+      id: record.id,
+      label: definition.label(record),
+      checksum: checksum(resource, record),
+      testData: definition.isTestData(record),
+    });
+  }
+  return records;
+}
+
+/**
+ * Compare two snapshots
+ *
+ * @param before - Snapshot taken first
+ * @param after - Snapshot taken later
+ * @returns Leaked, added, removed and modified records per resource
+ */
+export function diffSnapshots(before: DatabaseSnapshot, after: DatabaseSnapshot): SnapshotDiff {
+  const resources = {} as Record<ResourceName, ResourceDiff>;
+
+  for (const resource of RESOURCE_NAMES) {
+    const previous = new Map(before.resources[resource].map(record => [record.id, record]));
+    const current = new Map(after.resources[resource].map(record => [record.id, record]));
+    const diff: ResourceDiff = { before: previous.size, after: current.size, leaked: [], added: [], removed: [], modified: [] };
+
+    for (const [id, record] of current) {
+      const old = previous.get(id);
+      if (!old) {
+        (record.testData ? diff.leaked : diff.added).push(record);
+      } else if (old.checksum !== record.checksum) {
+        diff.modified.push(record);
+      }
+    }
+    diff.removed = [...previous.values()].filter(record => !current.has(record.id));
+    resources[resource] = diff;
+  }
+
+  const clean = RESOURCE_NAMES.every(resource => {
+    const { leaked, removed, modified } = resources[resource];
+    return leaked.length + removed.length + modified.length === 0;
+  });
+  return { from: before.takenAt, to: after.takenAt, resources, clean };
+}
+
+/**
+ * Human-readable summary of a diff, one line per record that changed
+ *
+ * @param diff - Result of diffSnapshots()
+ * @returns Multi-line text
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  const lines = [`Database changes between ${diff.from} and ${diff.to}:`];
+
+  for (const resource of RESOURCE_NAMES) {
+    const { before, after, leaked, added, removed, modified } = diff.resources[resource];
+    lines.push(`  ${resource}: ${before} -> ${after}`);
+    for (const [kind, records] of [['leaked', leaked], ['added', added], ['removed', removed], ['modified', modified]] as const) {
+      for (const record of records) {
+        lines.push(`    ${kind.padEnd(8)} #${record.id} ${record.label}`);
+      }
+    }
+  }
+
+  lines.push(diff.clean ? 'No leaked, removed or modified records.' : 'Test data leaked or existing records changed.');
+  return lines.join('\n');
+}
+
+function checksum(resource: ResourceName, record: object): string {
+  const readOnly = getReadOnlyFields(resource);
+  const fields = Object.entries(record)
+    .filter(([field]) => !readOnly.includes(field))
+    .sort(([a], [b]) => a.localeCompare(b));
+  return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,336 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { performance } from 'perf_hooks';
+
+/**
+ * API Load Harness
+ *
+ * Runs weighted scenarios against the API with a number of virtual users for
+ * a fixed duration, and summarises the latency of each scenario iteration
+ * (p50/p95/p99), throughput and error rate, overall and per scenario.
+ *
+ * Requests go straight through APIRequestContext, without the retries and
+ * response validation of makeAuthenticatedRequest, so the numbers are the
+ * API's own.
+ *
+ * @example
+ * const report = await runLoad(request, token, [
+ *   { name: 'list', weight: 3, run: client => client.send('GET', apiUrl('employees.list')) },
+ *   { name: 'get-by-id', weight: 1, run: client => client.send('GET', apiUrl('employees.detail', { id: 1 })) },
+ * ], { virtualUsers: 10, durationMs: 30000 });
+ * const checks = checkLoadBudgets(report.overall, PERFORMANCE.apiLoad);
+ */
+
+/**
+ * Sends the requests of a scenario
+ */
+export interface LoadClient {
+  /**
+   * Send a request with the bearer token
+   * @throws Error if the response status is not 2xx, failing the iteration
+   */
+  send(method: string, url: string, data?: unknown): Promise<APIResponse>;
+}
+
+/**
+ * One kind of work a virtual user does
+ */
+export interface LoadScenario {
+  name: string;
+  /** Relative frequency: a scenario with weight 3 runs three times as often as one with weight 1 */
+  weight: number;
+  /** One iteration; throwing counts it as an error */
+  run: (client: LoadClient) => Promise<unknown>;
+}
+
+export interface LoadOptions {
+  virtualUsers: number;
+  /** Virtual users start no new iterations after this long */
+  durationMs: number;
+  /** Pause between a virtual user's iterations (default: none) */
+  thinkTimeMs?: number;
+  /** Per-request timeout (default: Playwright's) */
+  timeoutMs?: number;
+}
+
+/**
+ * Latency, throughput and errors of a set of iterations
+ */
+export interface LoadStats {
+  iterations: number;
+  errors: number;
+  /** errors / iterations */
+  errorRate: number;
+  /** Iterations per second */
+  throughput: number;
+  minMs: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+}
+
+/**
+ * Result of a load run
+ */
+export interface LoadReport {
+  startedAt: string;
+  durationMs: number;
+  virtualUsers: number;
+  requests: number;
+  overall: LoadStats;
+  scenarios: Record<string, LoadStats>;
+  /** Error messages (IDs replaced by `{id}`) and how often they occurred */
+  errorMessages: Record<string, number>;
+}
+
+/**
+ * Limits for LoadStats; unset limits are not checked
+ */
+export interface LoadBudgets {
+  p50Ms?: number;
+  p95Ms?: number;
+  p99Ms?: number;
+  maxErrorRate?: number;
+  /** Minimum iterations per second */
+  minThroughput?: number;
+}
+
+/**
+ * One budget compared with the measured value
+ */
+export interface BudgetCheck {
+  budget: keyof LoadBudgets;
+  limit: number;
+  actual: number;
+  passed: boolean;
+}
+
+interface Sample {
+  scenario: string;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Run scenarios with virtual users for a duration
+ *
+ * @param request - Playwright APIRequestContext
+ * @param token - Bearer token sent with every request
+ * @param scenarios - Scenarios to pick from, by weight
+ * @param options - Virtual users, duration, think time and timeout
+ * @returns Latency, throughput and errors
+ * @throws Error if there are no scenarios or no scenario has a positive weight
+ */
+export async function runLoad(
+  request: APIRequestContext,
+  token: string,
+  scenarios: LoadScenario[],
+  options: LoadOptions
+): Promise<LoadReport> {
+  const totalWeight = scenarios.reduce((sum, scenario) => sum + Math.max(0, scenario.weight), 0);
+  if (totalWeight <= 0) {
+    throw new Error('runLoad needs at least one scenario with a positive weight');
+  }
+
+  let requests = 0;
+  const client: LoadClient = {
+    async send(method, url, data) {
+      requests++;
+      const response = await request.fetch(url, {
+        method,
+        headers: { 'Authorization': `Bearer ${token}`, 'Accept': 'application/json' },
+        data,
+        timeout: options.timeoutMs,
+        ignoreHTTPSErrors: true,
+        failOnStatusCode: false,
+      });
+      if (!response.ok()) {
+        throw new Error(`${method} ${new URL(url).pathname} returned ${response.status()}`);
+      }
+      return response;
+    },
+  };
+
+  const pick = (): LoadScenario => {
+    let roll = Math.random() * totalWeight;
+    for (const scenario of scenarios) {
+      roll -= Math.max(0, scenario.weight);
+      if (roll < 0) {
+        return scenario;
+      }
+    }
+    return scenarios[scenarios.length - 1];
+  };
+
+  const samples: Sample[] = [];
+  const startedAt = new Date();
+  const start = performance.now();
+  const deadline = start + options.durationMs;
+
+  const virtualUser = async () => {
+    while (performance.now() < deadline) {
+      const scenario = pick();
+      const iterationStart = performance.now();
+      try {
+        await scenario.run(client);
+        samples.push({ scenario: scenario.name, durationMs: performance.now() - iterationStart });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        samples.push({ scenario: scenario.name, durationMs: performance.now() - iterationStart, error: message });
+      }
+      if (options.thinkTimeMs) {
+        await new Promise(resolve => setTimeout(resolve, options.thinkTimeMs));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: options.virtualUsers }, virtualUser));
+  const durationMs = performance.now() - start;
+
+  const errorMessages: Record<string, number> = {};
+  for (const { scenario, error } of samples) {
+    if (error) {
+      const key = `${scenario}: ${error.replace(/\/\d+(?=\/|\s|$)/g, '/{id}')}`;
+      errorMessages[key] = (errorMessages[key] ?? 0) + 1;
+    }
+  }
+
+  return {
+    startedAt: startedAt.toISOString(),
+    durationMs: Math.round(durationMs),
+    virtualUsers: options.virtualUsers,
+    requests,
+    overall: summarize(samples, durationMs),
+    scenarios: Object.fromEntries(
+      scenarios.map(({ name }) => [name, summarize(samples.filter(sample => sample.scenario === name), durationMs)])
+    ),
+    errorMessages,
+  };
+}
+
+/**
+ * Compare stats with budgets
+ *
+ * @param stats - Overall or per-scenario stats of a report
+ * @param budgets - Limits to check (e.g. PERFORMANCE.apiLoad)
+ * @returns One check per budget that is set
+ */
+export function checkLoadBudgets(stats: LoadStats, budgets: LoadBudgets): BudgetCheck[] {
+  const measured: Record<keyof LoadBudgets, number> = {
+    p50Ms: stats.p50Ms,
+    p95Ms: stats.p95Ms,
+    p99Ms: stats.p99Ms,
+    maxErrorRate: stats.errorRate,
+    minThroughput: stats.throughput,
+  };
+
+  return (Object.keys(measured) as (keyof LoadBudgets)[])
+    .filter(budget => budgets[budget] !== undefined)
+    .map(budget => {
+      const limit = budgets[budget]!;
+      const actual = measured[budget];
+      return { budget, limit, actual, passed: budget === 'minThroughput' ? actual >= limit : actual <= limit };
+    });
+}
+
+/**
+ * Percentile of a sorted list (nearest rank)
+ *
+ * @param sorted - Values in ascending order
+ * @param percent - 0 to 100
+ * @returns The value, or 0 for an empty list
+ */
+export function percentile(sorted: number[], percent: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((percent / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Standalone HTML page with the report and budget checks, for attachments
+ *
+ * @param report - Result of runLoad()
+ * @param checks - Result of checkLoadBudgets()
+ * @returns HTML document
+ */
+export function formatLoadReportHtml(report: LoadReport, checks: BudgetCheck[]): string {
+  const escape = (value: unknown) =>
+    String(value).replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+  const statsRow = (name: string, stats: LoadStats) =>
+    `<tr><td>${escape(name)}</td>${[
+      stats.iterations,
+      stats.errors,
+      `${(stats.errorRate * 100).toFixed(2)}%`,
+      stats.throughput.toFixed(2),
+      stats.p50Ms,
+      stats.p95Ms,
+      stats.p99Ms,
+      stats.maxMs,
+    ].map(value => `<td>${escape(value)}</td>`).join('')}</tr>`;
+
+  const budgetRows = checks.map(check =>
+    `<tr class="${check.passed ? 'pass' : 'fail'}"><td>${escape(check.budget)}</td><td>${escape(check.limit)}</td>` +
+      `<td>${escape(round(check.actual))}</td><td>${check.passed ? 'pass' : 'FAIL'}</td></tr>`
+  );
+  const errorRows = Object.entries(report.errorMessages).map(
+    ([message, count]) => `<tr><td>${escape(message)}</td><td>${count}</td></tr>`
+  );
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>API load report</title>
+<style>
+  body { font-family: sans-serif; margin: 1.5em; }
+  table { border-collapse: collapse; margin-bottom: 1.5em; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  .pass td:last-child { color: #1a7f37; }
+  .fail td:last-child { color: #cf222e; font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>API load report</h1>
+<p>${escape(report.virtualUsers)} virtual users for ${escape(report.durationMs)} ms from ${escape(report.startedAt)}, ${escape(report.requests)} requests</p>
+<h2>Budgets</h2>
+<table>
+<tr><th>Budget</th><th>Limit</th><th>Actual</th><th>Result</th></tr>
+${budgetRows.join('\n')}
+</table>
+<h2>Latency (ms per iteration)</h2>
+<table>
+<tr><th>Scenario</th><th>Iterations</th><th>Errors</th><th>Error rate</th><th>Per second</th><th>p50</th><th>p95</th><th>p99</th><th>Max</th></tr>
+${[statsRow('all', report.overall), ...Object.entries(report.scenarios).map(([name, stats]) => statsRow(name, stats))].join('\n')}
+</table>
+${errorRows.length > 0 ? `<h2>Errors</h2>\n<table>\n<tr><th>Error</th><th>Count</th></tr>\n${errorRows.join('\n')}\n</table>` : ''}
+</body>
+</html>
+`;
+}
+
+function summarize(samples: Sample[], durationMs: number): LoadStats {
+  const durations = samples.map(sample => sample.durationMs).sort((a, b) => a - b);
+  const errors = samples.filter(sample => sample.error !== undefined).length;
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+
+  return {
+    iterations: samples.length,
+    errors,
+    errorRate: samples.length > 0 ? errors / samples.length : 0,
+    throughput: durationMs > 0 ? samples.length / (durationMs / 1000) : 0,
+    minMs: round(durations[0] ?? 0),
+    meanMs: round(samples.length > 0 ? total / samples.length : 0),
+    p50Ms: round(percentile(durations, 50)),
+    p95Ms: round(percentile(durations, 95)),
+    p99Ms: round(percentile(durations, 99)),
+    maxMs: round(durations[durations.length - 1] ?? 0),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,174 @@
+/**
+ * Paged Response Model
+ *
+ * Wraps the API's paged envelope ({ pageNumber, pageSize, recordsFiltered,
+ * recordsTotal, data, ... }) so tests can:
+ * - Assert on the pagination metadata the API reports
+ * - Walk every page with `for await`
+ * - Check that page boundaries are consistent while walking: each page has the
+ *   requested number, only the last page is short, no ID shows up on two pages,
+ *   the totals stay the same and every filtered record is seen exactly once
+ *
+ * @example
+ * const employees = await api.employees.listPages({ PageSize: 25 });
+ * expect(employees.recordsTotal).toBeGreaterThan(0);
+ *
+ * for await (const employee of employees) {
+ *   // every employee, one page at a time
+ * }
+ */
+
+/**
+ * Paged envelope returned by the list endpoints
+ */
+export interface PagedEnvelope<T> {
+  pageNumber: number;
+  pageSize: number;
+  recordsFiltered: number;
+  recordsTotal: number;
+  succeeded: boolean;
+  message?: string | null;
+  errors?: string[] | null;
+  data?: T[] | null;
+}
+
+/**
+ * Fetches one page of a list endpoint
+ */
+export type PageFetcher<T> = (pageNumber: number, pageSize: number) => Promise<PagedEnvelope<T>>;
+
+/**
+ * One page of a list endpoint, plus the means to fetch the pages after it
+ */
+export class PagedResponse<T extends { id: number }> implements AsyncIterable<T> {
+  readonly items: T[];
+  readonly pageNumber: number;
+  readonly pageSize: number;
+  readonly recordsFiltered: number;
+  readonly recordsTotal: number;
+
+  constructor(
+    envelope: PagedEnvelope<T>,
+    private readonly fetchPage?: PageFetcher<T>
+  ) {
+    if (!envelope.succeeded) {
+      const reason = envelope.errors?.join('; ') || envelope.message || 'no reason given';
+      throw new Error(`Paged request failed: ${reason}`);
+    }
+
+    this.items = envelope.data ?? [];
+    this.pageNumber = envelope.pageNumber;
+    this.pageSize = envelope.pageSize;
+    this.recordsFiltered = envelope.recordsFiltered;
+    this.recordsTotal = envelope.recordsTotal;
+  }
+
+  /**
+   * Fetches the first page of a list endpoint
+   * @param fetchPage - Fetches a page by number and size
+   * @param pageSize - Records per page
+   * @returns The first page
+   */
+  static async fetch<T extends { id: number }>(fetchPage: PageFetcher<T>, pageSize = 10): Promise<PagedResponse<T>> {
+    return new PagedResponse(await fetchPage(1, pageSize), fetchPage);
+  }
+
+  /**
+   * Number of pages the filtered records span at this page size
+   */
+  get totalPages(): number {
+    return this.pageSize > 0 ? Math.ceil(this.recordsFiltered / this.pageSize) : 0;
+  }
+
+  get hasNextPage(): boolean {
+    return this.pageNumber < this.totalPages;
+  }
+
+  /**
+   * Fetches the page after this one
+   * @returns The next page, or null on the last page
+   */
+  async nextPage(): Promise<PagedResponse<T> | null> {
+    if (!this.hasNextPage) {
+      return null;
+    }
+    if (!this.fetchPage) {
+      throw new Error('Cannot fetch the next page: this response was created without a page fetcher');
+    }
+    return new PagedResponse(await this.fetchPage(this.pageNumber + 1, this.pageSize), this.fetchPage);
+  }
+
+  /**
+   * Walks this page and every page after it, checking the page boundaries
+   * @returns Pages in order; throws as soon as a boundary is inconsistent
+   */
+  async *pages(): AsyncGenerator<PagedResponse<T>> {
+    const seenIds = new Map<number, number>();
+    let expectedPageNumber = this.pageNumber;
+    let page: PagedResponse<T> | null = this;
+
+    while (page) {
+      this.checkPage(page, expectedPageNumber, seenIds);
+      yield page;
+      expectedPageNumber++;
+      page = await page.nextPage();
+    }
+  }
+
+  /**
+   * Iterates the records of this page and every page after it
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Collects the records of this page and every page after it
+   * @returns All records, in page order
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  private checkPage(page: PagedResponse<T>, expectedPageNumber: number, seenIds: Map<number, number>): void {
+    const where = `Page ${expectedPageNumber}`;
+
+    if (page.pageNumber !== expectedPageNumber) {
+      throw new Error(`${where}: API reported pageNumber ${page.pageNumber}`);
+    }
+    if (page.pageSize !== this.pageSize) {
+      throw new Error(`${where}: pageSize changed from ${this.pageSize} to ${page.pageSize}`);
+    }
+    if (page.recordsTotal !== this.recordsTotal || page.recordsFiltered !== this.recordsFiltered) {
+      throw new Error(
+        `${where}: totals changed from ${this.recordsFiltered}/${this.recordsTotal} ` +
+        `to ${page.recordsFiltered}/${page.recordsTotal} (recordsFiltered/recordsTotal) - was data modified during the walk?`
+      );
+    }
+    if (page.recordsFiltered > page.recordsTotal) {
+      throw new Error(`${where}: recordsFiltered ${page.recordsFiltered} exceeds recordsTotal ${page.recordsTotal}`);
+    }
+
+    // Every page but the last is full, so a short page means records are missing
+    const expectedCount = page.hasNextPage
+      ? page.pageSize
+      : Math.max(page.recordsFiltered - (page.pageNumber - 1) * page.pageSize, 0);
+    if (page.items.length !== expectedCount) {
+      throw new Error(`${where}: returned ${page.items.length} records, expected ${expectedCount}`);
+    }
+
+    for (const item of page.items) {
+      const firstSeenOn = seenIds.get(item.id);
+      if (firstSeenOn !== undefined) {
+        throw new Error(`${where}: record ${item.id} was already returned on page ${firstSeenOn}`);
+      }
+      seenIds.set(item.id, page.pageNumber);
+    }
+  }
+}
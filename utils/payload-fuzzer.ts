@@ -0,0 +1,466 @@
+import { JsonSchema } from './schema-validator';
+
+/**
+ * Payload Fuzzer
+ *
+ * Property-based fuzzing of request bodies. Starting from a valid payload (one
+ * of the create*Data factories), each case applies a few random mutations
+ * derived from the request schema in api/openapi.json:
+ * - boundary: 0, -1, int32 limits, empty and whitespace strings, edge dates
+ * - wrong-type: a number for a string, a string for a number, arrays, objects
+ * - overlong: strings just over maxLength and around DATA_LIMITS.maxNameLength
+ * - unicode: accents, emoji, right-to-left text, zero-width and NUL characters
+ * - invalid-format: malformed dates and email addresses, enum values out of range
+ * - null / missing: null for any field, required fields left out
+ * - extra-property: properties the schema does not define
+ *
+ * Every response is checked against the properties the API must keep whatever
+ * it is sent: no 5xx, and a 4xx carries a structured validation error. The
+ * first case that breaks one is shrunk - mutations removed and values
+ * simplified while it keeps failing the same way - to a minimal reproducer.
+ *
+ * Cases come from a seeded generator, so a failure can be replayed with the
+ * seed in the report.
+ *
+ * @example
+ * const report = await fuzzPayloads({
+ *   base: createEmployeeData(),
+ *   schema: getSchema('CreateEmployeeCommand'),
+ *   resolve: getSchema,
+ *   send: async payload => { ... return { status, body }; },
+ * });
+ * expect(report.failure).toBeNull();
+ */
+
+/**
+ * Kinds of mutation applied to a valid payload
+ */
+export type MutationKind =
+  | 'boundary'
+  | 'wrong-type'
+  | 'overlong'
+  | 'unicode'
+  | 'invalid-format'
+  | 'null'
+  | 'missing'
+  | 'extra-property';
+
+/**
+ * One change to a payload: set `field` to `value`, or remove it (`missing`)
+ */
+export interface Mutation {
+  field: string;
+  kind: MutationKind;
+  value?: unknown;
+}
+
+/**
+ * What the API answered to a payload
+ */
+export interface FuzzResponse {
+  status: number;
+  /** Parsed JSON body, or the raw text when it is not JSON */
+  body: unknown;
+}
+
+/**
+ * A payload that broke a property, before and after shrinking
+ */
+export interface FuzzFailure {
+  /** Which property broke: `server-error` (5xx) or `unstructured-error` (4xx without validation errors) */
+  property: FuzzProperty;
+  reason: string;
+  status: number;
+  body: unknown;
+  /** Case number, starting at 1 */
+  run: number;
+  original: { mutations: Mutation[]; payload: Record<string, unknown> };
+  /** Minimal reproducer: the fewest and simplest mutations that still fail the same way */
+  shrunk: { mutations: Mutation[]; payload: Record<string, unknown> };
+  shrinkSteps: number;
+}
+
+export type FuzzProperty = 'server-error' | 'unstructured-error';
+
+/**
+ * Result of a fuzz run
+ */
+export interface FuzzReport {
+  seed: number;
+  /** Cases sent (the run stops at the first failure) */
+  runs: number;
+  /** Responses per status code */
+  statuses: Record<number, number>;
+  failure: FuzzFailure | null;
+}
+
+export interface FuzzOptions<T extends object> {
+  /** Valid payload the mutations are applied to */
+  base: T;
+  /** Request body schema (e.g. CreateEmployeeCommand); must describe every field of base */
+  schema: JsonSchema;
+  /** Looks up a `$ref`'d schema by name */
+  resolve: (name: string) => JsonSchema;
+  /** Sends a payload to the API */
+  send: (payload: Record<string, unknown>) => Promise<FuzzResponse>;
+  /** Cases to generate (default 50) */
+  runs?: number;
+  /** Generator seed (default: random, reported) */
+  seed?: number;
+  /** Most mutations per case (default 3) */
+  maxMutations?: number;
+  /** Length the overlong strings are built around, besides each field's maxLength (default 200) */
+  maxNameLength?: number;
+  /** Most payloads sent while shrinking (default 60) */
+  maxShrinkAttempts?: number;
+}
+
+interface AttemptResult {
+  mutations: Mutation[];
+  payload: Record<string, unknown>;
+  response: FuzzResponse;
+  broken: { property: FuzzProperty; reason: string } | null;
+}
+
+type Attempt = (mutations: Mutation[]) => Promise<AttemptResult>;
+
+const INT32_MAX = 2147483647;
+const INT32_MIN = -2147483648;
+
+const UNICODE_STRINGS = [
+  'Zoë Ångström',
+  '李小龍',
+  'مرحبا بالعالم',
+  '🚀👩\u200d💻🎉',
+  'e\u0301\u0301\u0301',
+  'zero\u200bwidth',
+  'nul\u0000byte',
+  '\ufeffbom',
+];
+
+const EXTRA_PROPERTIES: Array<[string, unknown]> = [
+  ['id', 999999],
+  ['isAdmin', true],
+  ['unexpectedField', 'value'],
+  ['nested', { deep: { deeper: [1, 2, 3] } }],
+];
+
+/**
+ * Fuzz an endpoint with mutated payloads
+ *
+ * @param options - Valid base payload, its schema, how to send it, and run settings
+ * @returns Statuses seen and the first failure, shrunk
+ * @throws Error if base and schema do not have the same fields
+ */
+export async function fuzzPayloads<T extends object>(options: FuzzOptions<T>): Promise<FuzzReport> {
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+  const base = options.base as Record<string, unknown>;
+  const catalogue = buildMutations(base, options.schema, options.resolve, options.maxNameLength ?? 200);
+  const statuses: Record<number, number> = {};
+
+  const attempt: Attempt = async mutations => {
+    const payload = applyMutations(base, mutations);
+    const response = await options.send(payload);
+    statuses[response.status] = (statuses[response.status] ?? 0) + 1;
+    return { mutations, payload, response, broken: checkResponse(response) };
+  };
+
+  const runs = options.runs ?? 50;
+  for (let run = 1; run <= runs; run++) {
+    const count = 1 + Math.floor(random() * (options.maxMutations ?? 3));
+    const result = await attempt(pickMutations(catalogue, count, random));
+
+    if (result.broken) {
+      const { shrunk, steps } = await shrink(result, attempt, options.maxShrinkAttempts ?? 60);
+      return {
+        seed,
+        runs: run,
+        statuses,
+        failure: {
+          ...shrunk.broken!,
+          status: shrunk.response.status,
+          body: shrunk.response.body,
+          run,
+          original: { mutations: result.mutations, payload: result.payload },
+          shrunk: { mutations: shrunk.mutations, payload: shrunk.payload },
+          shrinkSteps: steps,
+        },
+      };
+    }
+  }
+
+  return { seed, runs, statuses, failure: null };
+}
+
+/**
+ * Check a response against the fuzzing properties
+ *
+ * @param response - Status and parsed body
+ * @returns The broken property and why, or null when the response is acceptable
+ */
+export function checkResponse(response: FuzzResponse): { property: FuzzProperty; reason: string } | null {
+  if (response.status >= 500) {
+    return { property: 'server-error', reason: `Server error ${response.status}` };
+  }
+  if (response.status >= 400 && !hasValidationErrors(response.body)) {
+    return {
+      property: 'unstructured-error',
+      reason: `${response.status} without structured validation errors (expected \`errors\` with at least one entry)`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Whether a body is a validation error: a ProblemDetails `errors` map of
+ * field to messages, or the API envelope's `errors` list, with at least one message
+ *
+ * @param body - Parsed response body
+ */
+export function hasValidationErrors(body: unknown): boolean {
+  if (typeof body !== 'object' || body === null) {
+    return false;
+  }
+  const errors = (body as { errors?: unknown }).errors;
+  if (Array.isArray(errors)) {
+    return errors.some(error => typeof error === 'string' && error.length > 0);
+  }
+  if (typeof errors === 'object' && errors !== null) {
+    return Object.values(errors).some(messages => Array.isArray(messages) && messages.length > 0);
+  }
+  return false;
+}
+
+/**
+ * Apply mutations to a copy of a payload
+ *
+ * @param base - Valid payload
+ * @param mutations - Changes, applied in order
+ * @returns The mutated payload
+ */
+export function applyMutations(base: Record<string, unknown>, mutations: Mutation[]): Record<string, unknown> {
+  const payload = { ...base };
+  for (const mutation of mutations) {
+    if (mutation.kind === 'missing') {
+      delete payload[mutation.field];
+    } else {
+      payload[mutation.field] = mutation.value;
+    }
+  }
+  return payload;
+}
+
+/**
+ * Every mutation the schema suggests for the payload's fields
+ */
+function buildMutations(
+  base: Record<string, unknown>,
+  schema: JsonSchema,
+  resolve: (name: string) => JsonSchema,
+  maxNameLength: number
+): Mutation[] {
+  const properties = schema.properties ?? {};
+  const schemaFields = Object.keys(properties).sort();
+  const baseFields = Object.keys(base).sort();
+  if (schemaFields.join() !== baseFields.join()) {
+    throw new Error(`Payload fields (${baseFields.join(', ')}) do not match the schema (${schemaFields.join(', ')})`);
+  }
+
+  const mutations: Mutation[] = [];
+  for (const [field, property] of Object.entries(properties)) {
+    const fieldSchema = property.$ref ? resolve(property.$ref.split('/').pop()!) : property;
+    for (const [kind, value] of valueMutations(fieldSchema, maxNameLength)) {
+      mutations.push({ field, kind, value });
+    }
+    mutations.push({ field, kind: 'null', value: null });
+    if (schema.required?.includes(field)) {
+      mutations.push({ field, kind: 'missing' });
+    }
+  }
+  for (const [field, value] of EXTRA_PROPERTIES) {
+    mutations.push({ field, kind: 'extra-property', value });
+  }
+  return mutations;
+}
+
+function valueMutations(schema: JsonSchema, maxNameLength: number): Array<[MutationKind, unknown]> {
+  if (schema.enum) {
+    const numbers = schema.enum.filter((value): value is number => typeof value === 'number');
+    return [
+      ['invalid-format', numbers.length > 0 ? Math.max(...numbers) + 1 : 'not-a-member'],
+      ['invalid-format', -1],
+      ['wrong-type', String(schema.enum[0])],
+    ];
+  }
+
+  switch (schema.type) {
+    case 'integer':
+      return [
+        ['boundary', 0],
+        ['boundary', -1],
+        ['boundary', INT32_MAX],
+        ['boundary', INT32_MAX + 1],
+        ['boundary', INT32_MIN - 1],
+        ['wrong-type', 1.5],
+        ['wrong-type', '42'],
+        ['wrong-type', 'abc'],
+        ['wrong-type', true],
+        ['wrong-type', [1]],
+      ];
+    case 'number':
+      return [
+        ['boundary', 0],
+        ['boundary', -0.01],
+        ['boundary', Number.MAX_SAFE_INTEGER],
+        ['boundary', 1e308],
+        ['wrong-type', '50000'],
+        ['wrong-type', 'abc'],
+        ['wrong-type', false],
+        ['wrong-type', {}],
+      ];
+    case 'string':
+      return [...stringMutations(schema, maxNameLength)];
+    default:
+      return [['wrong-type', 'unexpected']];
+  }
+}
+
+function* stringMutations(schema: JsonSchema, maxNameLength: number): Generator<[MutationKind, unknown]> {
+  yield ['boundary', ''];
+  yield ['boundary', '   '];
+  yield ['wrong-type', 12345];
+  yield ['wrong-type', true];
+  yield ['wrong-type', ['a']];
+  yield ['wrong-type', { value: 'a' }];
+
+  const lengths = new Set([maxNameLength - 1, maxNameLength, maxNameLength + 1, maxNameLength * 10]);
+  if (schema.maxLength !== undefined) {
+    lengths.add(schema.maxLength);
+    lengths.add(schema.maxLength + 1);
+  }
+  for (const length of lengths) {
+    yield ['overlong', 'x'.repeat(length)];
+  }
+
+  for (const value of UNICODE_STRINGS) {
+    yield ['unicode', value];
+  }
+
+  if (schema.format === 'date') {
+    for (const value of ['2024-02-30', '2024-13-01', '0001-01-01', '9999-12-31', 'not-a-date', '01/02/2024']) {
+      yield ['invalid-format', value];
+    }
+  }
+  if (schema.format === 'email') {
+    for (const value of ['no-at-sign', 'a@', '@example.com', 'a@@example.com', 'ünïcødé@example.com']) {
+      yield ['invalid-format', value];
+    }
+  }
+}
+
+/**
+ * `count` mutations of different fields
+ */
+function pickMutations(catalogue: Mutation[], count: number, random: () => number): Mutation[] {
+  const picked: Mutation[] = [];
+  const fields = new Set<string>();
+  for (let tries = 0; picked.length < count && tries < count * 10; tries++) {
+    const mutation = catalogue[Math.floor(random() * catalogue.length)];
+    if (!fields.has(mutation.field)) {
+      fields.add(mutation.field);
+      picked.push(mutation);
+    }
+  }
+  return picked;
+}
+
+/**
+ * Remove mutations, then simplify values, keeping every change that still
+ * breaks the same property
+ * @param failed - The failing case
+ * @param attempt - Sends a case
+ * @param maxAttempts - Most cases to send
+ * @returns The smallest failing case found, and how many changes it took
+ */
+async function shrink(failed: AttemptResult, attempt: Attempt, maxAttempts: number): Promise<{ shrunk: AttemptResult; steps: number }> {
+  const property = failed.broken!.property;
+  let shrunk = failed;
+  let steps = 0;
+  let attempts = 0;
+
+  const tryCandidate = async (candidate: Mutation[]) => {
+    if (attempts >= maxAttempts) {
+      return false;
+    }
+    attempts++;
+    const result = await attempt(candidate);
+    if (result.broken?.property !== property) {
+      return false;
+    }
+    shrunk = result;
+    steps++;
+    return true;
+  };
+
+  // Fewer mutations
+  for (let index = shrunk.mutations.length - 1; index >= 0 && shrunk.mutations.length > 1; index--) {
+    await tryCandidate(shrunk.mutations.filter((_, other) => other !== index));
+  }
+
+  // Simpler values
+  let changed = true;
+  while (changed && attempts < maxAttempts) {
+    changed = false;
+    for (let index = 0; index < shrunk.mutations.length && !changed; index++) {
+      for (const value of simplerValues(shrunk.mutations[index].value)) {
+        const candidate = shrunk.mutations.map((mutation, other) => (other === index ? { ...mutation, value } : mutation));
+        if (await tryCandidate(candidate)) {
+          changed = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return { shrunk, steps };
+}
+
+/**
+ * Simpler versions of a value, simplest first
+ */
+function simplerValues(value: unknown): unknown[] {
+  if (typeof value === 'string' && value.length > 1) {
+    const candidates = [value.slice(0, Math.ceil(value.length / 2)), value.slice(0, Math.ceil((value.length * 3) / 4))];
+    const ascii = value.replace(/[^\x20-\x7e]/g, '');
+    if (ascii !== value && ascii.length > 0) {
+      candidates.push(ascii);
+    }
+    return candidates;
+  }
+  if (typeof value === 'number' && value !== 0 && Number.isFinite(value)) {
+    const half = Math.trunc(value / 2);
+    return half === value ? [] : [half];
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    return [[]];
+  }
+  if (typeof value === 'object' && value !== null && Object.keys(value).length > 0) {
+    return [{}];
+  }
+  return [];
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,294 @@
+import { APIResponse } from '@playwright/test';
+
+/**
+ * Request Pipeline
+ *
+ * Middleware for API calls. Each middleware gets the request and the next
+ * step, and may change the request, replay it or inspect the response:
+ * - withTimeout - per-attempt timeout
+ * - withRetryAfter - wait out 429 Too Many Requests (Retry-After) and replay
+ * - withRetry - jittered exponential backoff for idempotent methods only
+ * - withBearerToken - Authorization header, refreshed and replayed once on 401
+ * - withAttemptLog - records every attempt that reaches the network
+ *
+ * @example
+ * const send = createPipeline(
+ *   [withTimeout(30000), withRetry(), withBearerToken(token), withAttemptLog(log.record)],
+ *   req => request.fetch(req.url, { method: req.method, headers: req.headers, data: req.data, timeout: req.timeout })
+ * );
+ * const response = await send({ method: 'GET', url, headers: {} });
+ */
+
+/**
+ * A request travelling through the pipeline
+ */
+export interface PipelineRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+  /** Timeout of a single attempt in milliseconds */
+  timeout?: number;
+  /** Shared by all attempts of one call (set by createPipeline) */
+  call?: PipelineCall;
+}
+
+/**
+ * One logical call and the attempts made for it
+ */
+export interface PipelineCall {
+  id: number;
+  attempts: RequestAttempt[];
+}
+
+/**
+ * One attempt that reached the network
+ */
+export interface RequestAttempt {
+  callId: number;
+  /** 1 for the first attempt of a call */
+  attempt: number;
+  method: string;
+  url: string;
+  /** HTTP status, when a response was received */
+  status?: number;
+  /** Error message, when no response was received (network error, timeout) */
+  error?: string;
+  startedAt: number;
+  durationMs: number;
+}
+
+export type Send = (request: PipelineRequest) => Promise<APIResponse>;
+
+export type Middleware = (request: PipelineRequest, next: Send) => Promise<APIResponse>;
+
+/**
+ * Methods that can be repeated without changing the result
+ */
+export const IDEMPOTENT_METHODS: readonly string[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+let nextCallId = 1;
+
+/**
+ * Chain middleware around the function that sends a request
+ * @param middleware - Middleware, outermost first
+ * @param send - Sends one attempt
+ * @returns Function that sends a request through the pipeline
+ */
+export function createPipeline(middleware: Middleware[], send: Send): Send {
+  const pipeline = middleware.reduceRight<Send>((next, step) => request => step(request, next), send);
+  return request => pipeline({ ...request, call: request.call ?? { id: nextCallId++, attempts: [] } });
+}
+
+/**
+ * Give every attempt a timeout (unless the request sets its own)
+ * @param timeoutMs - Timeout of one attempt in milliseconds
+ */
+export function withTimeout(timeoutMs: number): Middleware {
+  return (request, next) => next({ ...request, timeout: request.timeout ?? timeoutMs });
+}
+
+/**
+ * Options of withRetry
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries?: number;
+  /** Backoff before the first retry; doubles for every further retry */
+  baseDelayMs?: number;
+  /** Upper bound of the backoff */
+  maxDelayMs?: number;
+  /** Statuses worth retrying; network errors and timeouts are always retried */
+  retryStatuses?: number[];
+}
+
+/**
+ * Retry idempotent requests on network errors, timeouts and gateway errors,
+ * with full-jitter exponential backoff
+ * @param options - Retry count, backoff and retryable statuses
+ */
+export function withRetry(options: RetryOptions = {}): Middleware {
+  const { retries = 2, baseDelayMs = 250, maxDelayMs = 4000, retryStatuses = [502, 503, 504] } = options;
+
+  return async (request, next) => {
+    if (!IDEMPOTENT_METHODS.includes(request.method.toUpperCase())) {
+      return next(request);
+    }
+
+    for (let retry = 0; ; retry++) {
+      const isLastAttempt = retry >= retries;
+      try {
+        const response = await next(request);
+        if (isLastAttempt || !retryStatuses.includes(response.status())) {
+          return response;
+        }
+      } catch (error) {
+        if (isLastAttempt) {
+          throw error;
+        }
+      }
+      await sleep(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** retry));
+    }
+  };
+}
+
+/**
+ * Options of withRetryAfter
+ */
+export interface RetryAfterOptions {
+  /** Replays after a 429 */
+  retries?: number;
+  /** Longest Retry-After to wait for; a longer one returns the 429 */
+  maxWaitMs?: number;
+  /** Wait when the 429 has no Retry-After header */
+  defaultWaitMs?: number;
+}
+
+/**
+ * Wait out 429 Too Many Requests and replay; the request was not processed,
+ * so this is safe for every method
+ * @param options - Replay count and wait limits
+ */
+export function withRetryAfter(options: RetryAfterOptions = {}): Middleware {
+  const { retries = 3, maxWaitMs = 10000, defaultWaitMs = 1000 } = options;
+
+  return async (request, next) => {
+    for (let retry = 0; ; retry++) {
+      const response = await next(request);
+      if (response.status() !== 429 || retry >= retries) {
+        return response;
+      }
+
+      const waitMs = parseRetryAfter(response.headers()['retry-after']) ?? defaultWaitMs;
+      if (waitMs > maxWaitMs) {
+        return response;
+      }
+      await sleep(waitMs);
+    }
+  };
+}
+
+/**
+ * Send a bearer token; on 401 get a new token and replay once
+ * @param token - Token to start with
+ * @param refresh - Returns a new token for the rejected one (null when it cannot)
+ */
+export function withBearerToken(token: string, refresh?: (rejected: string) => Promise<string | null>): Middleware {
+  let current = token;
+
+  return async (request, next) => {
+    const sent = current;
+    const response = await next(withAuthorization(request, sent));
+    if (response.status() !== 401 || !refresh) {
+      return response;
+    }
+
+    // Another attempt of this call may have refreshed the token already
+    const renewed = current !== sent ? current : await refresh(sent).catch(() => null);
+    if (!renewed || renewed === sent) {
+      return response;
+    }
+    current = renewed;
+    return next(withAuthorization(request, current));
+  };
+}
+
+/**
+ * Record every attempt; put it last so it sees each one
+ * @param onAttempt - Receives each finished attempt
+ */
+export function withAttemptLog(onAttempt: (attempt: RequestAttempt) => void): Middleware {
+  return async (request, next) => {
+    const call = request.call ?? { id: 0, attempts: [] };
+    const startedAt = Date.now();
+    const base = { callId: call.id, attempt: call.attempts.length + 1, method: request.method, url: request.url, startedAt };
+
+    const finish = (result: Pick<RequestAttempt, 'status' | 'error'>) => {
+      const attempt: RequestAttempt = { ...base, ...result, durationMs: Date.now() - startedAt };
+      call.attempts.push(attempt);
+      onAttempt(attempt);
+    };
+
+    try {
+      const response = await next(request);
+      finish({ status: response.status() });
+      return response;
+    } catch (error) {
+      finish({ error: error instanceof Error ? error.message.split('\n')[0] : String(error) });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Attempts grouped by call, to tell environment noise from real failures
+ */
+export class AttemptLog {
+  readonly attempts: RequestAttempt[] = [];
+
+  /**
+   * Adds an attempt (usable as a callback)
+   */
+  record = (attempt: RequestAttempt): void => {
+    this.attempts.push(attempt);
+  };
+
+  /**
+   * Attempts of each call, by call ID
+   */
+  get calls(): RequestAttempt[][] {
+    const calls = new Map<number, RequestAttempt[]>();
+    for (const attempt of this.attempts) {
+      calls.set(attempt.callId, [...(calls.get(attempt.callId) ?? []), attempt]);
+    }
+    return [...calls.values()];
+  }
+
+  /**
+   * Calls that hit an environment failure but got through on a later attempt (noise)
+   */
+  get transientCalls(): RequestAttempt[][] {
+    return this.calls.filter(
+      attempts => !isEnvironmentFailure(attempts[attempts.length - 1]) && attempts.some(isEnvironmentFailure)
+    );
+  }
+
+  /**
+   * Calls that still hit an environment failure on their last attempt
+   */
+  get failedCalls(): RequestAttempt[][] {
+    return this.calls.filter(attempts => isEnvironmentFailure(attempts[attempts.length - 1]));
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date)
+ * @param value - Header value
+ * @param now - Current time in milliseconds, for HTTP dates
+ * @returns Wait in milliseconds, or null when missing or unreadable
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+/**
+ * No response, throttled or a server error - as opposed to an answer the test asked for (including 4xx)
+ */
+export function isEnvironmentFailure(attempt: RequestAttempt): boolean {
+  return attempt.status === undefined || attempt.status === 429 || attempt.status >= 500;
+}
+
+function withAuthorization(request: PipelineRequest, token: string): PipelineRequest {
+  return { ...request, headers: { ...request.headers, 'Authorization': `Bearer ${token}` } };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
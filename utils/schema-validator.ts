@@ -0,0 +1,197 @@
+/**
+ * JSON Schema Validator
+ *
+ * Validates values against the OpenAPI 3.0 flavour of JSON Schema used by
+ * api/openapi.json: type, nullable, enum, required, properties,
+ * additionalProperties, items, $ref/allOf, format, minimum/maximum and
+ * minLength/maxLength.
+ *
+ * Each violation says whether it breaks clients. A property the schema does not
+ * know about is additive drift and not breaking; anything that changes a known
+ * field (missing, retyped, null, out of range, unknown enum value) is.
+ *
+ * @example
+ * const violations = validateSchema(body, getSchema('EmployeeResponse'), getSchema);
+ * expect(violations.filter(v => v.breaking)).toEqual([]);
+ */
+
+/**
+ * Schema object as found in an OpenAPI 3.0 document
+ */
+export interface JsonSchema {
+  $ref?: string;
+  allOf?: JsonSchema[];
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  format?: string;
+  nullable?: boolean;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  description?: string;
+}
+
+/**
+ * A place where a value does not match its schema
+ */
+export interface SchemaViolation {
+  /** JSON path of the value, e.g. `$.data[3].email` */
+  path: string;
+  message: string;
+  /** False for additive drift (unknown properties), true for everything else */
+  breaking: boolean;
+}
+
+/**
+ * Resolves a `$ref` to the schema it names
+ */
+export type SchemaResolver = (name: string) => JsonSchema;
+
+const FORMATS: Record<string, RegExp> = {
+  'date': /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/,
+  'email': /^[^\s@]+@[^\s@]+$/,
+  'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+/**
+ * Validate a value against a schema
+ * @param value - Parsed JSON value
+ * @param schema - Schema to validate against
+ * @param resolve - Looks up the schemas that `$ref`s point to
+ * @param path - JSON path of the value, for messages
+ * @returns Every violation found (empty if the value matches)
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  resolve: SchemaResolver,
+  path = '$'
+): SchemaViolation[] {
+  if (schema.$ref) {
+    return validateSchema(value, resolve(schema.$ref.split('/').pop()!), resolve, path);
+  }
+  if (schema.allOf) {
+    return schema.allOf.flatMap(part => validateSchema(value, part, resolve, path));
+  }
+
+  if (value === null) {
+    return schema.nullable ? [] : [breaking(path, 'is null but the schema does not allow null')];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [breaking(path, `${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`)];
+  }
+
+  if (schema.type && !hasType(value, schema.type)) {
+    return [breaking(path, `expected ${schema.type}, got ${describeType(value)}`)];
+  }
+
+  if (typeof value === 'string') {
+    return validateString(value, schema, path);
+  }
+  if (typeof value === 'number') {
+    return validateNumber(value, schema, path);
+  }
+  if (Array.isArray(value)) {
+    return schema.items
+      ? value.flatMap((item, index) => validateSchema(item, schema.items!, resolve, `${path}[${index}]`))
+      : [];
+  }
+  if (typeof value === 'object') {
+    return validateObject(value as Record<string, unknown>, schema, resolve, path);
+  }
+  return [];
+}
+
+/**
+ * Formats violations for a report attachment or an error message
+ * @param violations - Violations to format
+ * @returns One line per violation
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations
+    .map(violation => `${violation.breaking ? 'BREAKING' : 'additive'} ${violation.path}: ${violation.message}`)
+    .join('\n');
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  resolve: SchemaResolver,
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const properties = schema.properties || {};
+
+  for (const name of schema.required || []) {
+    if (value[name] === undefined) {
+      violations.push(breaking(`${path}.${name}`, 'required property is missing'));
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    const propertyPath = `${path}.${name}`;
+    if (properties[name]) {
+      violations.push(...validateSchema(propertyValue, properties[name], resolve, propertyPath));
+    } else if (schema.additionalProperties === false) {
+      violations.push({ path: propertyPath, message: 'property is not in the schema', breaking: false });
+    } else if (typeof schema.additionalProperties === 'object') {
+      violations.push(...validateSchema(propertyValue, schema.additionalProperties, resolve, propertyPath));
+    }
+  }
+
+  return violations;
+}
+
+function validateString(value: string, schema: JsonSchema, path: string): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+    violations.push(breaking(path, `${JSON.stringify(value)} is not a valid ${schema.format}`));
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    violations.push(breaking(path, `length ${value.length} is below the minimum of ${schema.minLength}`));
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    violations.push(breaking(path, `length ${value.length} exceeds the maximum of ${schema.maxLength}`));
+  }
+  return violations;
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    violations.push(breaking(path, `${value} is below the minimum of ${schema.minimum}`));
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    violations.push(breaking(path, `${value} exceeds the maximum of ${schema.maximum}`));
+  }
+  return violations;
+}
+
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  return Number.isInteger(value) ? 'integer' : typeof value;
+}
+
+function breaking(path: string, message: string): SchemaViolation {
+  return { path, message, breaking: true };
+}
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { APP_URLS } from '../config/test-config';
+import { getEnvironmentName } from '../config/environment';
+
+/**
+ * Persistent Token Cache
+ *
+ * File-backed token cache shared by all Playwright workers of a run:
+ * - One JSON file per environment + signing key + user + scopes under the
+ *   test output dir (emptied at the start of every run; global-setup.ts points
+ *   TOKEN_CACHE_DIR at it)
+ * - Lock files so only one worker authenticates a user at a time; the others
+ *   wait and then reuse the token it wrote
+ * - Entries are only reused while they are still valid
+ */
+
+/**
+ * A token as stored on disk
+ */
+export interface PersistedToken {
+  username: string;
+  token: string;
+  refreshToken?: string;
+  /** Expiration timestamp in milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * What a cache entry is keyed by
+ */
+export interface TokenCacheKeyParts {
+  username: string;
+  scope: string;
+  /** Defaults to TEST_ENV and the IdentityServer URL */
+  environment?: string;
+  /** Key ID(s) the issuer signs with (see getIssuerKeyId), so tokens signed with a retired key are not reused */
+  keyId?: string;
+}
+
+// Locks older than this are considered abandoned (e.g. a crashed worker)
+const STALE_LOCK_MS = 120000;
+const LOCK_RETRY_MS = 100;
+
+/**
+ * Get the directory holding the cache files
+ * TOKEN_CACHE_DIR is set by global-setup.ts to `.token-cache` under the
+ * configured output dir; test-results/.token-cache is used outside a test run
+ * @returns Absolute path of the cache directory
+ */
+export function getTokenCacheDir(): string {
+  return process.env.TOKEN_CACHE_DIR || path.join(__dirname, '..', 'test-results', '.token-cache');
+}
+
+/**
+ * Build the cache key for a user's token in the current environment
+ * @param parts - Username, scopes and (optionally) environment and signing key
+ * @returns File-name-safe cache key
+ *
+ * @example
+ * const key = tokenCacheKey({
+ *   username: 'ashtyn1',
+ *   scope: 'openid app.api.talentmanagement.read',
+ *   keyId: await getIssuerKeyId(request),
+ * });
+ */
+export function tokenCacheKey(parts: TokenCacheKeyParts): string {
+  const environment = parts.environment ?? `${getEnvironmentName()}|${APP_URLS.identityServer}`;
+  const scopes = parts.scope.split(' ').filter(Boolean).sort().join(' ');
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${environment}|${parts.keyId ?? ''}|${parts.username}|${scopes}`)
+    .digest('hex');
+  const safeUsername = parts.username.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return `${safeUsername}-${hash.slice(0, 16)}`;
+}
+
+/**
+ * Read a cached token
+ * @param key - Cache key from tokenCacheKey()
+ * @returns Cached token, or null if there is none (or it is unreadable)
+ */
+export function readPersistedToken(key: string): PersistedToken | null {
+  try {
+    return JSON.parse(fs.readFileSync(entryPath(key), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a cached token (atomically, so readers never see a partial file)
+ * @param key - Cache key from tokenCacheKey()
+ * @param entry - Token to store
+ */
+export function writePersistedToken(key: string, entry: PersistedToken): void {
+  fs.mkdirSync(getTokenCacheDir(), { recursive: true });
+  const target = entryPath(key);
+  const temp = `${target}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(entry, null, 2));
+  fs.renameSync(temp, target);
+}
+
+/**
+ * Remove every cached token file
+ */
+export function clearPersistedTokens(): void {
+  fs.rmSync(getTokenCacheDir(), { recursive: true, force: true });
+}
+
+/**
+ * Run a function while holding the cross-process lock for a cache key
+ * @param key - Cache key from tokenCacheKey()
+ * @param fn - Work to do while holding the lock
+ * @returns Result of fn
+ */
+export async function withTokenCacheLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  fs.mkdirSync(getTokenCacheDir(), { recursive: true });
+  const lockPath = `${entryPath(key)}.lock`;
+
+  while (true) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+      removeStaleLock(lockPath);
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Get a token from the cache, or acquire and cache it under the lock
+ *
+ * The cache is re-read after the lock is taken, so when several workers ask
+ * for the same token at once only the first one calls acquire().
+ *
+ * @param key - Cache key from tokenCacheKey()
+ * @param isUsable - Whether a cached entry can be returned as is
+ * @param acquire - Obtains a new token; receives the unusable cached entry, if any (e.g. to refresh it)
+ * @returns Cached or newly acquired token
+ */
+export async function getOrAcquirePersistedToken(
+  key: string,
+  isUsable: (entry: PersistedToken) => boolean,
+  acquire: (stale: PersistedToken | null) => Promise<PersistedToken>
+): Promise<PersistedToken> {
+  const cached = readPersistedToken(key);
+  if (cached && isUsable(cached)) {
+    return cached;
+  }
+
+  return withTokenCacheLock(key, async () => {
+    const current = readPersistedToken(key);
+    if (current && isUsable(current)) {
+      return current;
+    }
+
+    const entry = await acquire(current);
+    writePersistedToken(key, entry);
+    return entry;
+  });
+}
+
+function entryPath(key: string): string {
+  return path.join(getTokenCacheDir(), `${key}.json`);
+}
+
+function removeStaleLock(lockPath: string): void {
+  try {
+    if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  } catch {
+    // Lock was released in the meantime
+  }
+}
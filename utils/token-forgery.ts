@@ -0,0 +1,167 @@
+import crypto, { KeyObject } from 'crypto';
+import { parseToken, parseTokenHeader } from './token-manager';
+
+/**
+ * Token Forgery Toolkit
+ *
+ * Builds tampered variants of a real access token for negative auth tests.
+ * Claim variants edit the payload and keep the original signature, the way an
+ * attacker would without the issuer's private key; an API that validates
+ * tokens must reject every variant. Given the issuer's key (the OIDC stub's,
+ * see readStubSigningKey in mocks/oidc-provider.ts), claim variants are
+ * re-signed instead, so the API's claim checks are tested and not only its
+ * signature check.
+ *
+ * @example
+ * const token = await getTokenForRole(request, 'employee');
+ * for (const forgery of TOKEN_FORGERIES) {
+ *   const forged = forgeToken(token, forgery, readStubSigningKey());
+ *   // call the API with `Bearer ${forged}` and expect 401/403
+ * }
+ */
+
+/**
+ * Ways a token can be tampered with
+ */
+export type TokenForgery =
+  | 'expired'
+  | 'not-yet-valid'
+  | 'alg-none'
+  | 'foreign-key'
+  | 'wrong-audience'
+  | 'wrong-issuer'
+  | 'missing-role'
+  | 'elevated-role'
+  | 'truncated-signature';
+
+export const TOKEN_FORGERIES: readonly TokenForgery[] = [
+  'expired',
+  'not-yet-valid',
+  'alg-none',
+  'foreign-key',
+  'wrong-audience',
+  'wrong-issuer',
+  'missing-role',
+  'elevated-role',
+  'truncated-signature',
+] as const;
+
+/**
+ * What each forgery does, for test titles and reports
+ */
+export const TOKEN_FORGERY_DESCRIPTIONS: Record<TokenForgery, string> = {
+  'expired': 'exp and nbf moved one hour into the past',
+  'not-yet-valid': 'nbf and iat moved one hour into the future',
+  'alg-none': 'unsigned token with alg "none"',
+  'foreign-key': 're-signed with a key the issuer never published',
+  'wrong-audience': 'aud replaced with another API',
+  'wrong-issuer': 'iss replaced with another identity provider',
+  'missing-role': 'role claims removed',
+  'elevated-role': 'role claim replaced with HRAdmin',
+  'truncated-signature': 'last bytes of the signature cut off',
+};
+
+const FOREIGN_ISSUER = 'https://sts.attacker.example';
+const FOREIGN_AUDIENCE = 'app.api.other';
+const ELEVATED_ROLE = 'HRAdmin';
+const HOUR = 3600;
+
+// Generated on first use, one per key type
+const foreignKeys: Partial<Record<'rsa' | 'ec', KeyObject>> = {};
+
+/**
+ * Create a tampered variant of a token
+ * @param token - Token issued by IdentityServer
+ * @param forgery - Kind of tampering to apply
+ * @param signingKey - Issuer's private key; when given, claim variants are
+ *   re-signed with it instead of keeping the original signature
+ * @returns Forged token string
+ *
+ * @example
+ * const expired = forgeToken(token, 'expired');
+ * const validlySignedButExpired = forgeToken(token, 'expired', provider.signingKey);
+ */
+export function forgeToken(token: string, forgery: TokenForgery, signingKey?: KeyObject): string {
+  const header = parseTokenHeader(token);
+  const payload = parseToken(token);
+  const signature = token.split('.')[2];
+  const now = Math.floor(Date.now() / 1000);
+  const withClaims = (claims: object) =>
+    signingKey ? signToken(header, claims, signingKey) : encodeToken(header, claims, signature);
+
+  switch (forgery) {
+    case 'expired':
+      return withClaims({ ...payload, nbf: now - 2 * HOUR, iat: now - 2 * HOUR, exp: now - HOUR });
+
+    case 'not-yet-valid':
+      return withClaims({ ...payload, nbf: now + HOUR, iat: now + HOUR, exp: now + 2 * HOUR });
+
+    case 'alg-none':
+      return encodeToken({ ...header, alg: 'none' }, payload, '');
+
+    case 'foreign-key':
+      return signToken(header, payload, getForeignKey(header.alg));
+
+    case 'wrong-audience':
+      return withClaims({ ...payload, aud: FOREIGN_AUDIENCE });
+
+    case 'wrong-issuer':
+      return withClaims({ ...payload, iss: FOREIGN_ISSUER });
+
+    case 'missing-role': {
+      const { role, roles, ...rest } = payload;
+      return withClaims(rest);
+    }
+
+    case 'elevated-role':
+      return withClaims({ ...payload, role: ELEVATED_ROLE });
+
+    case 'truncated-signature':
+      return encodeToken(header, payload, signature.slice(0, Math.floor(signature.length / 2)));
+
+    default:
+      throw new Error(`Unknown token forgery: ${forgery}`);
+  }
+}
+
+/**
+ * Assemble a token from its parts (no signing)
+ * @param header - JOSE header
+ * @param payload - Claims
+ * @param signature - base64url signature, or '' for an unsigned token
+ * @returns Encoded token
+ */
+export function encodeToken(header: object, payload: object, signature: string): string {
+  return `${encodeSegment(header)}.${encodeSegment(payload)}.${signature}`;
+}
+
+/**
+ * Sign claims with the given private key (RS256 or ES256, per header.alg)
+ * @param header - JOSE header
+ * @param payload - Claims
+ * @param privateKey - Signing key
+ * @returns Signed token
+ */
+export function signToken(header: { alg: string }, payload: object, privateKey: KeyObject): string {
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const signature = crypto
+    .sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+    .toString('base64url');
+  return `${signingInput}.${signature}`;
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function getForeignKey(alg: string): KeyObject {
+  if (alg === 'RS256') {
+    foreignKeys.rsa ??= crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    return foreignKeys.rsa;
+  }
+  if (alg === 'ES256') {
+    foreignKeys.ec ??= crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey;
+    return foreignKeys.ec;
+  }
+  throw new Error(`Cannot forge a signature for algorithm: ${alg}`);
+}
@@ -1,80 +1,135 @@
-import { APIRequestContext } from '@playwright/test';
-import { getApiToken } from '../fixtures/api.fixtures';
+import { APIRequestContext, request as playwrightRequest } from '@playwright/test';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { AUTH_CODE_CLIENT, getTokenWithAuthCode, refreshApiToken, TokenResponse } from '../fixtures/auth.fixtures';
+import { Role, getUser, findUserByUsername, isRole, ROLES } from '../config/user-registry';
+import { APP_URLS } from '../config/test-config';
+import {
+  PersistedToken,
+  tokenCacheKey,
+  getOrAcquirePersistedToken,
+  readPersistedToken,
+  clearPersistedTokens,
+} from './token-cache';
 
 /**
  * Token Manager Utility
  *
  * Manages JWT tokens for API testing:
- * - Token caching to avoid repeated authentication
- * - Token refresh when expired
+ * - Token caching to avoid repeated authentication (in memory and shared
+ *   across workers through token-cache.ts)
+ * - Token refresh (refresh_token grant) shortly before expiry
+ * - Login/refresh statistics and events
  * - Token parsing and validation
+ * - Signature and claim verification against the issuer's JWKS
  * - Expiration checking
  */
 
+interface CachedToken extends PersistedToken {
+  role: Role;
+}
+
 interface TokenCache {
-  [role: string]: {
-    token: string;
-    expiresAt: number;
-  };
+  [role: string]: CachedToken;
+}
+
+/**
+ * Counters of how tokens were obtained
+ */
+export interface TokenStats {
+  logins: number;
+  refreshes: number;
+  refreshFailures: number;
+  cacheHits: number;
+}
+
+/**
+ * Payload of token manager events
+ *
+ * Events emitted on `tokenEvents`:
+ * - 'login' - token acquired by authenticating with credentials
+ * - 'refresh' - token renewed with the refresh_token grant
+ * - 'refresh-failed' - refresh exchange failed, falling back to login
+ */
+export interface TokenEvent {
+  role: Role;
+  username: string;
+  expiresAt?: number;
+  error?: string;
 }
 
 // In-memory token cache
 const tokenCache: TokenCache = {};
 
-// Role to credentials mapping
-const roleCredentials: { [role: string]: { username: string; password: string } } = {
-  employee: { username: 'employee1', password: 'Pa$word123' },
-  manager: { username: 'ashtyn1', password: 'Pa$word123' },
-  hradmin: { username: 'admin1', password: 'Pa$word123' },
-};
+// Pending acquisitions, so concurrent callers share one login/refresh per role
+const pendingTokens: { [role: string]: Promise<CachedToken> } = {};
+
+// Renew tokens this long before they expire
+const REFRESH_BEFORE_EXPIRY_MS = 60000;
+
+const tokenStats: TokenStats = { logins: 0, refreshes: 0, refreshFailures: 0, cacheHits: 0 };
+
+/**
+ * Emits 'login', 'refresh' and 'refresh-failed' events (see TokenEvent)
+ */
+export const tokenEvents = new EventEmitter();
 
 /**
  * Get token for a specific role
- * Returns cached token if valid, otherwise acquires new token
+ * Returns cached token if valid, refreshes it shortly before expiry,
+ * otherwise acquires a new token
  * @param request - Playwright APIRequestContext
  * @param role - User role (employee, manager, hradmin)
  * @returns JWT access token
  */
 export async function getToken(request: APIRequestContext, role: string): Promise<string> {
-  // Check if we have a valid cached token
-  const cached = tokenCache[role];
-  if (cached && !isTokenExpired(cached.token)) {
-    return cached.token;
+  const normalizedRole = role.toLowerCase();
+  if (!isRole(normalizedRole)) {
+    throw new Error(`Unknown role: ${role}. Valid roles: ${ROLES.join(', ')}`);
   }
 
-  // Get credentials for role
-  const credentials = roleCredentials[role.toLowerCase()];
-  if (!credentials) {
-    throw new Error(`Unknown role: ${role}. Valid roles: employee, manager, hradmin`);
+  // Check if we have a valid cached token
+  const cached = tokenCache[normalizedRole];
+  if (cached && Date.now() < cached.expiresAt - REFRESH_BEFORE_EXPIRY_MS) {
+    tokenStats.cacheHits++;
+    return cached.token;
   }
 
-  // Acquire new token
-  const token = await getApiToken(request, credentials.username, credentials.password);
-
-  // Parse token to get expiration
-  const payload = parseToken(token);
-  const expiresAt = payload.exp * 1000; // Convert to milliseconds
-
-  // Cache the token
-  tokenCache[role] = {
-    token,
-    expiresAt,
-  };
-
-  return token;
+  const entry = await acquireToken(request, normalizedRole, cached);
+  return entry.token;
 }
 
 /**
- * Refresh an expired token
+ * Refresh a token
+ * Uses the refresh_token grant when the token (or a newer one of its user)
+ * is cached with a refresh token, otherwise authenticates again as the
+ * token's user
  * @param request - Playwright APIRequestContext
- * @param token - Expired token
+ * @param token - Expired (or about to expire) token
  * @returns New JWT access token
  */
 export async function refreshToken(request: APIRequestContext, token: string): Promise<string> {
+  // Token issued by this manager - renew it with its refresh token
+  const cached = Object.values(tokenCache).find(entry => entry.token === token);
+  if (cached) {
+    const entry = await acquireToken(request, cached.role, cached);
+    return entry.token;
+  }
+
   // Parse token to identify the user/role
   const payload = parseToken(token);
 
-  // Determine role from token claims
+  // Prefer the registry user the token was issued to
+  const user = findUserByUsername(payload.preferred_username || payload.name || '');
+  if (user) {
+    // Renew with the refresh token persisted for the role (e.g. by another worker)
+    const persisted = readPersistedToken(await getCacheKey(request, user.role));
+    const previous = persisted ? { ...persisted, role: user.role, token } : undefined;
+    const entry = await acquireToken(request, user.role, previous);
+    return entry.token;
+  }
+
+  // Otherwise determine role from token claims
   let role = 'employee'; // Default
 
   if (payload.role) {
@@ -89,7 +144,122 @@ export async function refreshToken(request: APIRequestContext, token: string): P
   }
 
   // Get fresh token for this role
-  return getToken(request, role);
+  if (!isRole(role)) {
+    throw new Error(`Unknown role in token: ${role}. Valid roles: ${ROLES.join(', ')}`);
+  }
+  const entry = await acquireToken(request, role);
+  return entry.token;
+}
+
+/**
+ * Get counters of logins, refreshes and cache hits since the last reset
+ * @returns Copy of the current token statistics
+ */
+export function getTokenStats(): TokenStats {
+  return { ...tokenStats };
+}
+
+/**
+ * Reset token statistics to zero
+ */
+export function resetTokenStats(): void {
+  tokenStats.logins = 0;
+  tokenStats.refreshes = 0;
+  tokenStats.refreshFailures = 0;
+  tokenStats.cacheHits = 0;
+}
+
+/**
+ * Acquire a token for a role, refreshing the previous one when possible
+ * Concurrent calls for the same role share a single acquisition
+ */
+function acquireToken(request: APIRequestContext, role: Role, previous?: CachedToken): Promise<CachedToken> {
+  if (!pendingTokens[role]) {
+    pendingTokens[role] = acquireSharedToken(request, role, previous).finally(() => {
+      delete pendingTokens[role];
+    });
+  }
+  return pendingTokens[role];
+}
+
+/**
+ * Acquire a token through the cross-worker cache (see token-cache.ts), so a
+ * token obtained by one worker is reused by all the others
+ */
+async function acquireSharedToken(request: APIRequestContext, role: Role, previous?: CachedToken): Promise<CachedToken> {
+  let acquired = false;
+
+  const persisted = await getOrAcquirePersistedToken(
+    await getCacheKey(request, role),
+    // Reuse what another worker stored, unless it is the token being replaced
+    entry => entry.token !== previous?.token && Date.now() < entry.expiresAt - REFRESH_BEFORE_EXPIRY_MS,
+    async stale => {
+      acquired = true;
+      return renewOrLogin(request, role, stale ?? previous);
+    }
+  );
+
+  if (!acquired) {
+    tokenStats.cacheHits++;
+  }
+
+  const entry: CachedToken = { role, ...persisted };
+  tokenCache[role] = entry;
+  return entry;
+}
+
+/**
+ * Cache key of a role's token (same entry getTokenForRole in api.fixtures.ts uses)
+ */
+async function getCacheKey(request: APIRequestContext, role: Role): Promise<string> {
+  return tokenCacheKey({
+    username: getUser(role).username,
+    scope: AUTH_CODE_CLIENT.scope,
+    keyId: await getIssuerKeyId(request),
+  });
+}
+
+async function renewOrLogin(request: APIRequestContext, role: Role, previous?: PersistedToken | null): Promise<PersistedToken> {
+  const user = getUser(role);
+
+  if (previous?.refreshToken) {
+    try {
+      const response = await refreshApiToken(request, previous.refreshToken, AUTH_CODE_CLIENT);
+      const entry = toPersistedToken(user.username, response, previous.refreshToken);
+      tokenStats.refreshes++;
+      tokenEvents.emit('refresh', { role, username: user.username, expiresAt: entry.expiresAt } as TokenEvent);
+      return entry;
+    } catch (error) {
+      tokenStats.refreshFailures++;
+      tokenEvents.emit('refresh-failed', { role, username: user.username, error: String(error) } as TokenEvent);
+    }
+  }
+
+  // Sign in again with the authorization code flow (same user the browser login path uses)
+  const response = await getTokenWithAuthCode(user.username, user.password);
+  const entry = toPersistedToken(user.username, response);
+  tokenStats.logins++;
+  tokenEvents.emit('login', { role, username: user.username, expiresAt: entry.expiresAt } as TokenEvent);
+  return entry;
+}
+
+function toPersistedToken(
+  username: string,
+  response: TokenResponse,
+  previousRefreshToken?: string
+): PersistedToken {
+  // Prefer expires_in from the response, fall back to the exp claim
+  const expiresAt = response.expires_in
+    ? Date.now() + response.expires_in * 1000
+    : parseToken(response.access_token).exp * 1000; // Convert to milliseconds
+
+  return {
+    username,
+    token: response.access_token,
+    // Keep the old refresh token if the server does not rotate them
+    refreshToken: response.refresh_token ?? previousRefreshToken,
+    expiresAt,
+  };
 }
 
 /**
@@ -109,14 +279,37 @@ export function parseToken(token: string): any {
   }
 
   try {
-    // Decode the payload (second part of JWT)
-    const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
+    // Decode the payload (second part of JWT, base64url-encoded)
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
     return payload;
   } catch (error) {
     throw new Error(`Failed to parse token payload: ${error}`);
   }
 }
 
+/**
+ * Parse JWT token and extract header
+ * @param token - JWT token string
+ * @returns Decoded token header (alg, kid, typ)
+ */
+export function parseTokenHeader(token: string): any {
+  if (!token || typeof token !== 'string') {
+    throw new Error('Invalid token: must be a non-empty string');
+  }
+
+  const parts = token.split('.');
+
+  if (parts.length !== 3) {
+    throw new Error('Invalid JWT token: must have 3 parts separated by dots');
+  }
+
+  try {
+    return JSON.parse(Buffer.from(parts[0], 'base64url').toString());
+  } catch (error) {
+    throw new Error(`Failed to parse token header: ${error}`);
+  }
+}
+
 /**
  * Check if a token is expired
  * @param token - JWT token string
@@ -172,6 +365,7 @@ export function getUserIdFromToken(token: string): string | null {
 
 /**
  * Get user roles from token
+ * Only role claims count - scopes grant API access and are not roles (see getTokenScopes)
  * @param token - JWT token string
  * @returns Array of role strings
  */
@@ -187,20 +381,34 @@ export function getRolesFromToken(token: string): string[] {
       return Array.isArray(payload.roles) ? payload.roles : [payload.roles];
     }
 
-    // Check scope claim (might contain roles)
-    if (payload.scope) {
-      const scopes = typeof payload.scope === 'string' ? payload.scope.split(' ') : payload.scope;
-      return Array.isArray(scopes) ? scopes : [scopes];
+    return [];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Get scopes from token
+ * IdentityServer issues `scope` as an array; other issuers use a space-separated string
+ * @param token - JWT token string
+ * @returns Array of scope strings
+ */
+export function getTokenScopes(token: string): string[] {
+  try {
+    const payload = parseToken(token);
+
+    if (!payload.scope) {
+      return [];
     }
 
-    return [];
+    return Array.isArray(payload.scope) ? payload.scope : String(payload.scope).split(' ').filter(Boolean);
   } catch (error) {
     return [];
   }
 }
 
 /**
- * Validate token structure and signature
+ * Validate token structure (does not check the signature, see verifyToken)
  * @param token - JWT token string
  * @returns True if token has valid structure
  */
@@ -216,11 +424,11 @@ export function hasValidTokenStructure(token: string): boolean {
       return false;
     }
 
-    // Try to decode each part
-    Buffer.from(parts[0], 'base64').toString(); // Header
-    Buffer.from(parts[1], 'base64').toString(); // Payload
-    // Signature is part[2] - just check it exists and is base64
+    // Header and payload must be base64url-encoded JSON
+    JSON.parse(Buffer.from(parts[0], 'base64url').toString());
+    JSON.parse(Buffer.from(parts[1], 'base64url').toString());
 
+    // Structure only - use verifyToken() to check the signature
     return parts[2].length > 0;
   } catch (error) {
     return false;
@@ -228,19 +436,21 @@ export function hasValidTokenStructure(token: string): boolean {
 }
 
 /**
- * Clear cached tokens
+ * Clear cached tokens (in memory and the cross-worker cache files)
  * Useful for testing scenarios or cleanup
  */
 export function clearTokenCache(): void {
   Object.keys(tokenCache).forEach(key => delete tokenCache[key]);
+  clearPersistedTokens();
 }
 
 /**
  * Get time until token expiration in seconds
  * @param token - JWT token string
+ * @param now - Current time in milliseconds (e.g. a browser's mocked clock); defaults to Date.now()
  * @returns Seconds until expiration, or 0 if expired
  */
-export function getTimeUntilExpiration(token: string): number {
+export function getTimeUntilExpiration(token: string, now: number = Date.now()): number {
   try {
     const expirationTime = getTokenExpiration(token);
 
@@ -248,7 +458,7 @@ export function getTimeUntilExpiration(token: string): number {
       return 0;
     }
 
-    const currentTime = Date.now();
+    const currentTime = now;
     const timeRemaining = expirationTime - currentTime;
 
     return timeRemaining > 0 ? Math.floor(timeRemaining / 1000) : 0;
@@ -264,17 +474,243 @@ export function getTimeUntilExpiration(token: string): number {
  * @returns True if token has the scope
  */
 export function hasScope(token: string, scope: string): boolean {
+  return getTokenScopes(token).includes(scope);
+}
+
+/**
+ * JSON Web Key as published in an issuer's JWKS
+ */
+export interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+/**
+ * Options for verifyToken
+ */
+export interface VerifyTokenOptions {
+  /** Expected `iss` claim (one of, trailing slashes ignored) */
+  issuer?: string | string[];
+  /** Expected `aud` claim (token must contain at least one) */
+  audience?: string | string[];
+  /** JWKS endpoint to fetch signing keys from */
+  jwksUrl?: string;
+  /** Signing keys to use instead of fetching a JWKS */
+  keys?: Jwk[];
+  /** Allowed clock difference for `nbf`/`exp` checks, in seconds (default 60) */
+  clockSkewSeconds?: number;
+  /** Request context used to fetch the JWKS (a temporary one is created otherwise) */
+  request?: APIRequestContext;
+}
+
+/**
+ * Reason a token failed verification
+ */
+export type TokenVerificationFailure =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'jwks_unavailable'
+  | 'key_not_found'
+  | 'ambiguous_key'
+  | 'invalid_signature'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'not_yet_valid'
+  | 'expired';
+
+/**
+ * Result of verifyToken
+ */
+export type TokenVerificationResult =
+  | { valid: true; header: any; payload: any }
+  | { valid: false; reason: TokenVerificationFailure; message: string; header?: any; payload?: any };
+
+// Algorithms supported by verifyToken mapped to their key type, digest and signature encoding
+const SUPPORTED_ALGORITHMS: { [alg: string]: { kty: string; digest: string; dsaEncoding?: 'ieee-p1363' } } = {
+  RS256: { kty: 'RSA', digest: 'sha256' },
+  ES256: { kty: 'EC', digest: 'sha256', dsaEncoding: 'ieee-p1363' },
+};
+
+// JWKS cache, keyed by JWKS URL
+const JWKS_CACHE_TTL = 10 * 60 * 1000;
+const jwksCache: { [url: string]: { keys: Jwk[]; fetchedAt: number } } = {};
+
+/**
+ * Fetch the signing keys published at a JWKS URL (cached for 10 minutes)
+ * @param jwksUrl - JWKS endpoint URL
+ * @param request - Optional Playwright APIRequestContext to fetch with
+ * @param forceRefresh - Bypass the cache (e.g. after key rotation)
+ * @returns Array of JSON Web Keys
+ */
+export async function getSigningKeys(
+  jwksUrl: string,
+  request?: APIRequestContext,
+  forceRefresh = false
+): Promise<Jwk[]> {
+  const cached = jwksCache[jwksUrl];
+  if (cached && !forceRefresh && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL) {
+    return cached.keys;
+  }
+
+  const context = request ?? await playwrightRequest.newContext({ ignoreHTTPSErrors: true });
+
   try {
-    const payload = parseToken(token);
+    const response = await context.get(jwksUrl, { ignoreHTTPSErrors: true });
 
-    if (payload.scope) {
-      const scopes = typeof payload.scope === 'string' ? payload.scope.split(' ') : payload.scope;
-      const scopeArray = Array.isArray(scopes) ? scopes : [scopes];
-      return scopeArray.includes(scope);
+    if (!response.ok()) {
+      throw new Error(`Failed to fetch JWKS: ${response.status()} ${response.statusText()}`);
     }
 
-    return false;
+    const body = await response.json();
+    const keys: Jwk[] = Array.isArray(body.keys) ? body.keys : [];
+    jwksCache[jwksUrl] = { keys, fetchedAt: Date.now() };
+    return keys;
+  } finally {
+    if (!request) {
+      await context.dispose();
+    }
+  }
+}
+
+/**
+ * Get the ID(s) of the keys the issuer currently signs with
+ * Part of the token cache key, so tokens signed with a key the issuer no
+ * longer publishes (e.g. by an earlier OIDC stub instance) are not reused
+ * @param request - Optional Playwright APIRequestContext to fetch with
+ * @returns Sorted, comma-separated signing key IDs
+ */
+export async function getIssuerKeyId(request?: APIRequestContext): Promise<string> {
+  const keys = await getSigningKeys(`${APP_URLS.identityServer}/.well-known/openid-configuration/jwks`, request);
+  return keys
+    .filter(k => !k.use || k.use === 'sig')
+    .map(k => k.kid ?? '')
+    .sort()
+    .join(',');
+}
+
+/**
+ * Verify a JWT signature (RS256/ES256) and its iss, aud, nbf and exp claims
+ * @param token - JWT token string
+ * @param options - Expected issuer/audience and where to get the signing keys
+ * @returns Verification result with the decoded token, or the reason it failed
+ *
+ * @example
+ * const result = await verifyToken(token, {
+ *   issuer: APP_URLS.identityServer,
+ *   audience: 'app.api.talentmanagement',
+ *   jwksUrl: `${APP_URLS.identityServer}/.well-known/openid-configuration/jwks`,
+ * });
+ * expect(result.valid).toBe(true);
+ */
+export async function verifyToken(
+  token: string,
+  options: VerifyTokenOptions
+): Promise<TokenVerificationResult> {
+  const fail = (reason: TokenVerificationFailure, message: string, header?: any, payload?: any): TokenVerificationResult =>
+    ({ valid: false, reason, message, header, payload });
+
+  // Decode
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3 || !parts[2]) {
+    return fail('malformed', 'Token must have 3 non-empty parts separated by dots');
+  }
+
+  let header: any;
+  let payload: any;
+  try {
+    header = JSON.parse(Buffer.from(parts[0], 'base64url').toString());
+    payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
   } catch (error) {
-    return false;
+    return fail('malformed', `Failed to decode token: ${error}`);
+  }
+
+  const algorithm = SUPPORTED_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    return fail('unsupported_algorithm', `Unsupported algorithm: ${header.alg}`, header, payload);
+  }
+
+  // Find the signing key (refetch once when the kid is unknown, in case keys rotated).
+  // Only keys of the header's algorithm qualify, so an ES256 token is never checked
+  // against an RSA key or the other way round.
+  let candidates: Jwk[] = [];
+  try {
+    const findKeys = (keys: Jwk[]) => keys.filter(k =>
+      (header.kid ? k.kid === header.kid : true) &&
+      (!k.use || k.use === 'sig') &&
+      k.kty === algorithm.kty &&
+      (!k.alg || k.alg === header.alg)
+    );
+
+    if (options.keys) {
+      candidates = findKeys(options.keys);
+    } else if (options.jwksUrl) {
+      candidates = findKeys(await getSigningKeys(options.jwksUrl, options.request));
+      if (candidates.length === 0) {
+        candidates = findKeys(await getSigningKeys(options.jwksUrl, options.request, true));
+      }
+    } else {
+      throw new Error('Either keys or jwksUrl must be provided');
+    }
+  } catch (error) {
+    return fail('jwks_unavailable', `${error}`, header, payload);
+  }
+
+  if (candidates.length === 0) {
+    return fail('key_not_found', `No ${header.alg} signing key found for kid: ${header.kid}`, header, payload);
+  }
+  if (candidates.length > 1) {
+    return fail('ambiguous_key', `${candidates.length} ${header.alg} signing keys match kid: ${header.kid}`, header, payload);
+  }
+  const key = candidates[0];
+
+  // Signature
+  let signatureValid = false;
+  try {
+    const publicKey = crypto.createPublicKey({ key, format: 'jwk' });
+    signatureValid = crypto.verify(
+      algorithm.digest,
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      algorithm.dsaEncoding ? { key: publicKey, dsaEncoding: algorithm.dsaEncoding } : publicKey,
+      Buffer.from(parts[2], 'base64url')
+    );
+  } catch {
+    signatureValid = false;
   }
+
+  if (!signatureValid) {
+    return fail('invalid_signature', 'Token signature does not match the signing key', header, payload);
+  }
+
+  // Claims
+  if (options.issuer) {
+    const normalize = (value: string) => value.replace(/\/+$/, '');
+    const issuers = (Array.isArray(options.issuer) ? options.issuer : [options.issuer]).map(normalize);
+    if (typeof payload.iss !== 'string' || !issuers.includes(normalize(payload.iss))) {
+      return fail('invalid_issuer', `Unexpected issuer: ${payload.iss}`, header, payload);
+    }
+  }
+
+  if (options.audience) {
+    const expected = Array.isArray(options.audience) ? options.audience : [options.audience];
+    const actual = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!actual.some((aud: string) => expected.includes(aud))) {
+      return fail('invalid_audience', `Unexpected audience: ${JSON.stringify(payload.aud)}`, header, payload);
+    }
+  }
+
+  const skew = options.clockSkewSeconds ?? 60;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.nbf === 'number' && now + skew < payload.nbf) {
+    return fail('not_yet_valid', `Token is not valid before ${new Date(payload.nbf * 1000).toISOString()}`, header, payload);
+  }
+
+  if (typeof payload.exp !== 'number') {
+    return fail('expired', 'Token has no exp claim', header, payload);
+  }
+
+  if (now - skew >= payload.exp) {
+    return fail('expired', `Token expired at ${new Date(payload.exp * 1000).toISOString()}`, header, payload);
+  }
+
+  return { valid: true, header, payload };
 }
@@ -0,0 +1,245 @@
+import { expect as baseExpect, ExpectMatcherState } from '@playwright/test';
+import { isDeepStrictEqual } from 'util';
+import {
+  parseToken,
+  parseTokenHeader,
+  hasValidTokenStructure,
+  getRolesFromToken,
+  getTokenScopes,
+} from './token-manager';
+
+/**
+ * Token Matchers
+ *
+ * Custom `expect` matchers for JWT access tokens. The received value is the
+ * encoded token string; failures print the decoded header and payload so the
+ * offending claim is visible in the report.
+ *
+ * @example
+ * import { expect } from '../../utils/token-matchers';
+ *
+ * expect(token).toBeJwt();
+ * expect(token).toHaveRole('Manager');
+ * expect(token).toHaveScope('app.api.talentmanagement.read');
+ * expect(token).toHaveClaim('client_id', 'TalentManagement');
+ * expect(token).toExpireWithin(3600);
+ * expect(token).toBeIssuedBy(APP_URLS.identityServer);
+ */
+
+type MatcherResult = {
+  pass: boolean;
+  message: () => string;
+  name: string;
+  expected?: unknown;
+  actual?: unknown;
+};
+
+interface DecodedToken {
+  header: any;
+  payload: any;
+}
+
+function decode(token: unknown): DecodedToken | null {
+  if (typeof token !== 'string' || !hasValidTokenStructure(token)) {
+    return null;
+  }
+  return { header: parseTokenHeader(token), payload: parseToken(token) };
+}
+
+/**
+ * Pretty-prints the decoded token for failure messages
+ */
+function describeToken(decoded: DecodedToken): string {
+  return [
+    'Decoded header:',
+    JSON.stringify(decoded.header, null, 2),
+    'Decoded payload:',
+    JSON.stringify(decoded.payload, null, 2),
+  ].join('\n');
+}
+
+/**
+ * Result for a received value that cannot be decoded at all (never passes, even with .not)
+ */
+function notAJwt(state: ExpectMatcherState, name: string, received: unknown, expected?: unknown): MatcherResult {
+  return {
+    pass: state.isNot,
+    name,
+    message: () =>
+      `${state.utils.matcherHint(name, undefined, expected === undefined ? '' : undefined, { isNot: state.isNot })}\n\n` +
+      `Received value is not a JWT: ${state.utils.printReceived(received)}`,
+  };
+}
+
+/**
+ * Builds a result whose message shows the expectation and the decoded token
+ */
+function result(
+  state: ExpectMatcherState,
+  name: string,
+  pass: boolean,
+  decoded: DecodedToken,
+  detail: string,
+  expected?: unknown,
+  actual?: unknown
+): MatcherResult {
+  return {
+    pass,
+    name,
+    expected,
+    actual,
+    message: () =>
+      `${state.utils.matcherHint(name, undefined, undefined, { isNot: state.isNot })}\n\n` +
+      `${detail}\n\n${describeToken(decoded)}`,
+  };
+}
+
+/**
+ * Matchers registered with expect.extend
+ */
+export const tokenMatchers = {
+  /**
+   * Passes if the value is a structurally valid JWT (three base64url parts,
+   * JSON header with an `alg`, JSON payload, non-empty signature)
+   */
+  toBeJwt(this: ExpectMatcherState, received: unknown): MatcherResult {
+    const name = 'toBeJwt';
+    const decoded = decode(received);
+
+    if (!decoded) {
+      return {
+        pass: false,
+        name,
+        message: () =>
+          `${this.utils.matcherHint(name, undefined, '', { isNot: this.isNot })}\n\n` +
+          `Expected a JWT (header.payload.signature)\nReceived: ${this.utils.printReceived(received)}`,
+      };
+    }
+
+    const pass = typeof decoded.header.alg === 'string' && decoded.header.alg !== 'none';
+    return result(this, name, pass, decoded, pass ? 'Expected value not to be a signed JWT' : 'Expected a signed JWT (header.alg is missing or "none")');
+  },
+
+  /**
+   * Passes if the payload has the claim, and (when given) the claim deep-equals the value
+   */
+  toHaveClaim(this: ExpectMatcherState, received: unknown, claim: string, value?: unknown): MatcherResult {
+    const name = 'toHaveClaim';
+    const decoded = decode(received);
+    if (!decoded) {
+      return notAJwt(this, name, received, claim);
+    }
+
+    const present = Object.prototype.hasOwnProperty.call(decoded.payload, claim);
+    const actual = decoded.payload[claim];
+
+    if (value === undefined) {
+      return result(this, name, present, decoded, `Expected claim: ${this.utils.printExpected(claim)}${this.isNot ? ' to be absent' : ''}`);
+    }
+
+    const pass = present && isDeepStrictEqual(actual, value);
+    const detail = present
+      ? `Claim ${this.utils.printExpected(claim)}:\n${this.utils.printDiffOrStringify(value, actual, 'Expected', 'Received', false)}`
+      : `Claim ${this.utils.printExpected(claim)} is missing\nExpected: ${this.utils.printExpected(value)}`;
+    return result(this, name, pass, decoded, detail, value, actual);
+  },
+
+  /**
+   * Passes if the token's role claims include the role (case-insensitive, so
+   * both registry roles like 'hradmin' and issued names like 'HRAdmin' match)
+   */
+  toHaveRole(this: ExpectMatcherState, received: unknown, role: string): MatcherResult {
+    const name = 'toHaveRole';
+    const decoded = decode(received);
+    if (!decoded) {
+      return notAJwt(this, name, received, role);
+    }
+
+    const roles = getRolesFromToken(received as string);
+    const pass = roles.some(r => r.toLowerCase() === role.toLowerCase());
+    return result(
+      this,
+      name,
+      pass,
+      decoded,
+      `Expected role: ${this.utils.printExpected(role)}\nReceived roles: ${this.utils.printReceived(roles)}`,
+      role,
+      roles
+    );
+  },
+
+  /**
+   * Passes if the token's `scope` claim includes the scope
+   */
+  toHaveScope(this: ExpectMatcherState, received: unknown, scope: string): MatcherResult {
+    const name = 'toHaveScope';
+    const decoded = decode(received);
+    if (!decoded) {
+      return notAJwt(this, name, received, scope);
+    }
+
+    const scopes = getTokenScopes(received as string);
+    const pass = scopes.includes(scope);
+    return result(
+      this,
+      name,
+      pass,
+      decoded,
+      `Expected scope: ${this.utils.printExpected(scope)}\nReceived scopes: ${this.utils.printReceived(scopes)}`,
+      scope,
+      scopes
+    );
+  },
+
+  /**
+   * Passes if the token is not yet expired and expires at most `seconds` from now
+   */
+  toExpireWithin(this: ExpectMatcherState, received: unknown, seconds: number): MatcherResult {
+    const name = 'toExpireWithin';
+    const decoded = decode(received);
+    if (!decoded) {
+      return notAJwt(this, name, received, seconds);
+    }
+
+    const exp = decoded.payload.exp;
+    if (typeof exp !== 'number') {
+      return result(this, name, false, decoded, 'Token has no numeric "exp" claim');
+    }
+
+    const remaining = exp - Math.floor(Date.now() / 1000);
+    const pass = remaining > 0 && remaining <= seconds;
+    const detail = remaining > 0
+      ? `Expected expiry within: ${this.utils.printExpected(`${seconds}s`)}\nReceived expiry in: ${this.utils.printReceived(`${remaining}s`)}`
+      : `Token expired ${-remaining}s ago (exp ${new Date(exp * 1000).toISOString()})`;
+    return result(this, name, pass, decoded, detail, seconds, remaining);
+  },
+
+  /**
+   * Passes if the `iss` claim equals the issuer URL (ignoring a trailing slash)
+   */
+  toBeIssuedBy(this: ExpectMatcherState, received: unknown, issuer: string): MatcherResult {
+    const name = 'toBeIssuedBy';
+    const decoded = decode(received);
+    if (!decoded) {
+      return notAJwt(this, name, received, issuer);
+    }
+
+    const iss = decoded.payload.iss;
+    const normalize = (url: string) => url.replace(/\/+$/, '');
+    const pass = typeof iss === 'string' && normalize(iss) === normalize(issuer);
+    return result(
+      this,
+      name,
+      pass,
+      decoded,
+      `Expected issuer: ${this.utils.printExpected(issuer)}\nReceived issuer: ${this.utils.printReceived(iss)}`,
+      issuer,
+      iss
+    );
+  },
+};
+
+/**
+ * Playwright expect with the token matchers
+ */
+export const expect = baseExpect.extend(tokenMatchers);
@@ -0,0 +1,188 @@
+import { Middleware } from './request-pipeline';
+
+/**
+ * Traffic Capture
+ *
+ * HAR-like records of HTTP exchanges for test reports. Each entry has the
+ * method, URL, status, timing, headers and body of one request and its
+ * response, with credentials redacted and bodies truncated:
+ * - withTrafficCapture - request pipeline middleware recording every attempt
+ * - toHar - wraps entries in a HAR 1.2 `log` that HAR viewers can open
+ *
+ * Entries follow the HAR 1.2 field names; fields HAR does not have start with
+ * an underscore (`_source`, `_callId`, `_error`).
+ *
+ * @example
+ * const entries: TrafficEntry[] = [];
+ * const send = createPipeline([withBearerToken(token), withTrafficCapture(entry => entries.push(entry))], fetch);
+ * await testInfo.attach('api-traffic', { body: JSON.stringify(toHar(entries), null, 2), contentType: 'application/json' });
+ */
+
+/**
+ * Name and value of a header
+ */
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * One request and its response
+ */
+export interface TrafficEntry {
+  /** Where the request came from: the API helpers or the page */
+  _source: 'api' | 'browser';
+  /** Request pipeline call the attempt belongs to (API entries only) */
+  _callId?: number;
+  /** Why no response was received (network error, timeout) */
+  _error?: string;
+  startedDateTime: string;
+  /** Milliseconds until the response was received */
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    headers: HarHeader[];
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    /** 0 when no response was received */
+    status: number;
+    statusText: string;
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text: string };
+  };
+}
+
+/**
+ * Headers whose values are replaced with `REDACTED`
+ */
+export const REDACTED_HEADERS: readonly string[] = ['authorization', 'cookie', 'set-cookie', 'proxy-authorization'];
+
+/**
+ * Body fields (JSON or form-encoded) whose values are replaced with `REDACTED`,
+ * e.g. the tokens in IdentityServer's /connect/token responses
+ */
+export const REDACTED_FIELDS: readonly string[] = [
+  'access_token',
+  'id_token',
+  'refresh_token',
+  'code',
+  'code_verifier',
+  'client_secret',
+  'password',
+];
+
+/**
+ * Longest body kept, in characters
+ */
+export const MAX_BODY_LENGTH = 4096;
+
+/**
+ * Record every attempt as a TrafficEntry; put it last so it sees each attempt
+ * with the headers that were actually sent
+ * @param onEntry - Receives each finished exchange
+ */
+export function withTrafficCapture(onEntry: (entry: TrafficEntry) => void): Middleware {
+  return async (request, next) => {
+    const startedAt = Date.now();
+    const contentType = request.headers['Content-Type'] ?? request.headers['content-type'] ?? 'application/json';
+    const entry: TrafficEntry = {
+      _source: 'api',
+      _callId: request.call?.id,
+      startedDateTime: new Date(startedAt).toISOString(),
+      time: 0,
+      request: {
+        method: request.method,
+        url: request.url,
+        headers: toHarHeaders(request.headers),
+        postData:
+          request.data === undefined
+            ? undefined
+            : {
+                mimeType: contentType,
+                text: formatBody(typeof request.data === 'string' ? request.data : JSON.stringify(request.data)),
+              },
+      },
+      response: { status: 0, statusText: '', headers: [], content: { size: 0, mimeType: '', text: '' } },
+    };
+
+    try {
+      const response = await next(request);
+      entry.time = Date.now() - startedAt;
+      const headers = response.headers();
+      const body = await response.text().catch(() => '');
+      entry.response = {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: toHarHeaders(headers),
+        content: { size: body.length, mimeType: headers['content-type'] ?? '', text: formatBody(body) },
+      };
+      return response;
+    } catch (error) {
+      entry.time = Date.now() - startedAt;
+      entry._error = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      throw error;
+    } finally {
+      onEntry(entry);
+    }
+  };
+}
+
+/**
+ * Convert headers to HAR name/value pairs, redacting credentials
+ * @param headers - Headers by name
+ * @returns HAR headers
+ */
+export function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({
+    name,
+    value: REDACTED_HEADERS.includes(name.toLowerCase()) ? 'REDACTED' : value,
+  }));
+}
+
+/**
+ * Redact credentials in a body, then truncate it
+ * @param text - Body text
+ * @returns Text for a TrafficEntry
+ */
+export function formatBody(text: string): string {
+  return truncateBody(redactBody(text));
+}
+
+/**
+ * Replace the values of REDACTED_FIELDS in a JSON or form-encoded body
+ * @param text - Body text
+ * @returns The body with credentials replaced by `REDACTED`
+ */
+export function redactBody(text: string): string {
+  const fields = REDACTED_FIELDS.join('|');
+  return text
+    .replace(new RegExp(`("(?:${fields})"\\s*:\\s*)"(?:[^"\\\\]|\\\\.)*"`, 'gi'), '$1"REDACTED"')
+    .replace(new RegExp(`(^|&)(${fields})=[^&]*`, 'gi'), '$1$2=REDACTED');
+}
+
+/**
+ * Shorten a body to MAX_BODY_LENGTH characters
+ * @param text - Body text
+ * @param limit - Longest text kept
+ * @returns The text, or its start followed by how much was cut
+ */
+export function truncateBody(text: string, limit = MAX_BODY_LENGTH): string {
+  return text.length > limit ? `${text.slice(0, limit)}... (${text.length - limit} more characters)` : text;
+}
+
+/**
+ * Wrap entries in a HAR 1.2 log, oldest first
+ * @param entries - Captured entries
+ * @returns HAR document
+ */
+export function toHar(entries: TrafficEntry[]) {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'AngularNetTutorial Playwright E2E', version: '1.0' },
+      entries: [...entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime)),
+    },
+  };
+}